@@ -15,7 +15,8 @@ NC='\033[0m' # No Color
 # Configuration
 PROXY_PORT=8080
 UI_PORT=8081
-FRONTEND_URL="http://localhost:${UI_PORT}"
+UI_TOKEN="${UI_TOKEN:-$(openssl rand -hex 16)}"
+FRONTEND_URL="http://localhost:${UI_PORT}/?token=${UI_TOKEN}"
 CERT_DIR=".roo-sniffer-certs"
 VSCODE_WORKSPACE="${VSCODE_WORKSPACE:-$HOME}"
 
@@ -59,7 +60,7 @@ echo "  HTTPS_PROXY=${HTTPS_PROXY}"
 
 # Step 4: Start the proxy in the background
 echo -e "\n${YELLOW}[4/6]${NC} Starting Roo Sniffer proxy..."
-node dist/cli.js -p ${PROXY_PORT} -v > /tmp/roo-sniffer.log 2>&1 &
+node dist/cli.js -p ${PROXY_PORT} --ui-token "${UI_TOKEN}" -v > /tmp/roo-sniffer.log 2>&1 &
 PROXY_PID=$!
 
 # Wait for proxy to start
@@ -0,0 +1,74 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BlobRef, SnifferConfig } from './types';
+
+/**
+ * Where full bodies go when no directory is configured: next to the log file,
+ * e.g. `roo_requests.log` -> `roo_requests-bodies/`.
+ */
+export function defaultBodyDir(logFile: string): string {
+  const parsed = path.parse(logFile);
+  return path.join(parsed.dir, `${parsed.name}-bodies`);
+}
+
+/**
+ * Content-addressed store for complete request/response bodies. Blobs are
+ * named by their SHA-256, so identical prompts resent on every turn are only
+ * written once.
+ */
+export class BlobStore {
+  private dir: string;
+  private writes: Map<string, Promise<void>> = new Map();
+  public onError: ((message: string) => void) | null = null;
+
+  constructor(config: SnifferConfig) {
+    this.dir = config.bodyDir || defaultBodyDir(config.logFile);
+    fs.mkdirSync(this.dir, { recursive: true });
+  }
+
+  public getDir(): string {
+    return this.dir;
+  }
+
+  private blobPath(hash: string): string {
+    return path.join(this.dir, hash.substring(0, 2), hash);
+  }
+
+  public put(body: Buffer, contentType?: string): BlobRef {
+    const hash = createHash('sha256').update(body).digest('hex');
+    const ref: BlobRef = { hash, size: body.length };
+    if (contentType) {
+      ref.contentType = contentType;
+    }
+
+    if (!this.writes.has(hash)) {
+      const file = this.blobPath(hash);
+      const write = fs.promises.access(file)
+        .catch(async () => {
+          await fs.promises.mkdir(path.dirname(file), { recursive: true });
+          await fs.promises.writeFile(file, body);
+        })
+        .catch((err) => {
+          this.onError?.(`Failed to store body ${hash}: ${err.message}`);
+        })
+        .finally(() => this.writes.delete(hash));
+      this.writes.set(hash, write);
+    }
+
+    return ref;
+  }
+
+  public async get(hash: string): Promise<Buffer | undefined> {
+    if (!/^[0-9a-f]{64}$/.test(hash)) {
+      return undefined;
+    }
+
+    await this.writes.get(hash);
+    try {
+      return await fs.promises.readFile(this.blobPath(hash));
+    } catch {
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,233 @@
+import { randomUUID } from 'crypto';
+import { URL } from 'url';
+import { decodeBody, isBinaryBody } from './encoding';
+import { MatchTarget, matchesRequest, validateMatcher } from './matcher';
+import { IncomingResponse, OutgoingRequest } from './rules';
+import { Breakpoint, PausedEdit, PausedMessage, SnifferConfig } from './types';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+interface Held {
+  message: PausedMessage;
+  resolve: (edit: PausedEdit) => void;
+  timer: NodeJS.Timeout;
+}
+
+function contentTypeOf(headers: Headers): string | undefined {
+  const value = headers['content-type'];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * The body as it is shown for editing: decompressed, and base64 if binary.
+ */
+function editableBody(body: Buffer, headers: Headers): { body: string; bodyBinary?: boolean } {
+  const decoded = decodeBody(body, headers);
+  if (decoded.error || isBinaryBody(decoded.body, contentTypeOf(headers))) {
+    return { body: body.toString('base64'), bodyBinary: true };
+  }
+  return { body: decoded.body.toString('utf8') };
+}
+
+/**
+ * Apply header and body edits to a held message. An edited body replaces
+ * the original uncompressed, with a new content-length.
+ */
+function applyMessageEdit(
+  message: { headers: Headers; body?: Buffer },
+  paused: PausedMessage,
+  edit: PausedEdit
+): void {
+  if (edit.headers) {
+    message.headers = Object.fromEntries(
+      Object.entries(edit.headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+  }
+  if (edit.body !== undefined && edit.body !== paused.body && !paused.bodyBinary) {
+    message.body = Buffer.from(edit.body, 'utf8');
+    delete message.headers['content-encoding'];
+    delete message.headers['transfer-encoding'];
+    message.headers['content-length'] = String(message.body.length);
+  }
+}
+
+function applyRequestEdit(request: OutgoingRequest, paused: PausedMessage, edit: PausedEdit): void {
+  if (edit.method) {
+    request.method = edit.method.toUpperCase();
+  }
+  applyMessageEdit(request, paused, edit);
+  if (edit.url && edit.url !== paused.url) {
+    request.url = new URL(edit.url);
+    request.headers.host = request.url.host;
+  }
+}
+
+function applyResponseEdit(response: IncomingResponse, paused: PausedMessage, edit: PausedEdit): void {
+  if (edit.statusCode) {
+    response.statusCode = edit.statusCode;
+  }
+  applyMessageEdit(response, paused, edit);
+}
+
+/**
+ * Breakpoints and the messages currently held at them. Held messages are
+ * released from the Web UI, all at once with `resumeAll`, or unchanged when
+ * their timeout passes so clients don't hang forever.
+ */
+export class BreakpointManager {
+  private breakpoints: Breakpoint[] = [];
+  private held: Map<string, Held> = new Map();
+  private config: SnifferConfig;
+  public onPause: ((message: PausedMessage) => void) | null = null;
+  public onResume: ((id: string, edit: PausedEdit, timedOut: boolean) => void) | null = null;
+
+  constructor(config: SnifferConfig) {
+    this.config = config;
+  }
+
+  public list(): Breakpoint[] {
+    return this.breakpoints;
+  }
+
+  /**
+   * Add a breakpoint. Throws if the matcher is invalid.
+   */
+  public add(input: Partial<Breakpoint>): Breakpoint {
+    const breakpoint: Breakpoint = {
+      id: randomUUID(),
+      match: validateMatcher(input.match ?? {}),
+      request: input.request ?? true,
+      response: input.response ?? false,
+      enabled: input.enabled ?? true,
+    };
+    if (!breakpoint.request && !breakpoint.response) {
+      throw new Error('A breakpoint must stop the request, the response or both');
+    }
+    this.breakpoints.push(breakpoint);
+    return breakpoint;
+  }
+
+  public update(id: string, changes: Partial<Pick<Breakpoint, 'enabled' | 'request' | 'response'>>): Breakpoint | undefined {
+    const breakpoint = this.breakpoints.find(bp => bp.id === id);
+    if (breakpoint) {
+      Object.assign(breakpoint, changes);
+    }
+    return breakpoint;
+  }
+
+  public remove(id: string): boolean {
+    const before = this.breakpoints.length;
+    this.breakpoints = this.breakpoints.filter(bp => bp.id !== id);
+    return this.breakpoints.length < before;
+  }
+
+  /**
+   * Which stages of a request any enabled breakpoint stops at.
+   */
+  public match(target: MatchTarget): { request: boolean; response: boolean } {
+    const hits = this.breakpoints.filter(bp => bp.enabled !== false && matchesRequest(bp.match, target));
+    return {
+      request: hits.some(bp => bp.request),
+      response: hits.some(bp => bp.response),
+    };
+  }
+
+  public pausedMessages(): PausedMessage[] {
+    return Array.from(this.held.values(), held => held.message);
+  }
+
+  /**
+   * Hold a request until it's resumed. Edits made meanwhile are applied to
+   * it in place; resolves with whether to forward or drop it.
+   */
+  public async pauseRequest(id: string, request: OutgoingRequest): Promise<PausedEdit['action']> {
+    const paused = this.toPaused({
+      id,
+      stage: 'request',
+      method: request.method,
+      url: request.url.toString(),
+      headers: { ...request.headers },
+      ...editableBody(request.body, request.headers),
+    });
+    const edit = await this.pause(paused);
+    if (edit.action === 'forward') {
+      applyRequestEdit(request, paused, edit);
+    }
+    return edit.action;
+  }
+
+  /**
+   * Hold a complete response until it's resumed, like `pauseRequest`.
+   */
+  public async pauseResponse(
+    id: string,
+    request: OutgoingRequest,
+    response: IncomingResponse
+  ): Promise<PausedEdit['action']> {
+    const paused = this.toPaused({
+      id,
+      stage: 'response',
+      method: request.method,
+      url: request.url.toString(),
+      statusCode: response.statusCode,
+      headers: { ...response.headers },
+      ...editableBody(response.body || Buffer.alloc(0), response.headers),
+    });
+    const edit = await this.pause(paused);
+    if (edit.action === 'forward') {
+      applyResponseEdit(response, paused, edit);
+    }
+    return edit.action;
+  }
+
+  private toPaused(message: Omit<PausedMessage, 'pausedAt' | 'expiresAt'>): PausedMessage {
+    const now = Date.now();
+    return {
+      ...message,
+      pausedAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + this.config.breakpointTimeoutMs).toISOString(),
+    };
+  }
+
+  private pause(paused: PausedMessage): Promise<PausedEdit> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(() => this.release(paused.id, { action: 'forward' }, true), this.config.breakpointTimeoutMs);
+      this.held.set(paused.id, { message: paused, resolve, timer });
+      this.onPause?.(paused);
+    });
+  }
+
+  public getPaused(id: string): PausedMessage | undefined {
+    return this.held.get(id)?.message;
+  }
+
+  /**
+   * Release a held message. Returns false if nothing is held under the id.
+   */
+  public resume(id: string, edit: PausedEdit): boolean {
+    return this.release(id, edit, false);
+  }
+
+  /**
+   * Forward everything held, unchanged.
+   */
+  public resumeAll(): number {
+    const ids = Array.from(this.held.keys());
+    for (const id of ids) {
+      this.release(id, { action: 'forward' }, false);
+    }
+    return ids.length;
+  }
+
+  private release(id: string, edit: PausedEdit, timedOut: boolean): boolean {
+    const held = this.held.get(id);
+    if (!held) {
+      return false;
+    }
+    clearTimeout(held.timer);
+    this.held.delete(id);
+    held.resolve(edit);
+    this.onResume?.(id, edit, timedOut);
+    return true;
+  }
+}
@@ -0,0 +1,230 @@
+import { BlobStore } from './blobs';
+import { Transform } from 'stream';
+import { decodeLlmRequest, decodeLlmResponse } from './decoders';
+import { contentEncodings, createStreamDecoder, decodeBody, isBinaryBody, previewBody } from './encoding';
+import { capturesBodies, capturesHeaders, markResponseStarted } from './entries';
+import { isEventStream, SseParser, StreamAssembler } from './sse';
+import { RequestLogEntry, SseEventRecord, SnifferConfig } from './types';
+
+// Long agent turns can stream thousands of deltas; keep the log bounded
+const MAX_SSE_EVENTS = 5000;
+// Upper bound on a body buffered for LLM decoding or blob storage
+const MAX_BODY_BYTES = 64 * 1024 * 1024;
+
+type Headers = Record<string, string | string[] | undefined>;
+
+function contentTypeOf(headers: Headers): string | undefined {
+  const value = headers['content-type'];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * Record a complete request body on its entry: the inline preview, the full
+ * body in the blob store when enabled, and the decoded LLM call if any. The
+ * body is decompressed first; what was forwarded upstream is unaffected.
+ */
+export function captureRequestBody(
+  entry: RequestLogEntry,
+  body: Buffer,
+  headers: Headers,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): void {
+  if (!capturesBodies(entry) || body.length === 0) {
+    return;
+  }
+
+  const decoded = decodeBody(body, headers);
+  if (decoded.encoding) {
+    entry.bodyEncoding = decoded.encoding;
+  }
+  if (decoded.error) {
+    entry.decodeError = decoded.error;
+  }
+
+  const contentType = contentTypeOf(headers);
+  const binary = isBinaryBody(decoded.body, contentType);
+  if (binary) {
+    entry.bodyBinary = true;
+  }
+
+  if (['POST', 'PUT', 'PATCH'].includes(entry.method) && config.previewLimit > 0) {
+    entry.bodyPreview = previewBody(decoded.body, binary, config.previewLimit);
+  }
+
+  if (blobs) {
+    entry.requestBody = blobs.put(decoded.body, contentType);
+  }
+
+  if (!binary) {
+    decodeLlmRequest(entry, decoded.body);
+  }
+}
+
+/**
+ * Collects a response as it streams through the proxy and records status,
+ * headers and a body preview onto the entry it belongs to. Shared by the
+ * plain HTTP path and the MITM path so both fill entries the same way.
+ *
+ * Compressed bodies are inflated as they stream so SSE events are still
+ * seen in real time; the caller forwards the original bytes to the client.
+ */
+export class ResponseCapture {
+  private entry: RequestLogEntry;
+  private config: SnifferConfig;
+  private blobs: BlobStore | null;
+  private onDone: (entry: RequestLogEntry) => void;
+  private chunks: Buffer[] = [];
+  private captured = 0;
+  // The whole body, including what isn't kept
+  private size = 0;
+  private finished = false;
+  private sseParser: SseParser | null = null;
+  private sseEvents: SseEventRecord[] = [];
+  private assembler: StreamAssembler | null = null;
+  private contentType: string | undefined;
+  private decoder: Transform | null = null;
+  // Set once decompression fails; the rest of the body is left out
+  private discarding = false;
+  private completed = false;
+
+  constructor(
+    entry: RequestLogEntry,
+    config: SnifferConfig,
+    blobs: BlobStore | null,
+    onDone: (entry: RequestLogEntry) => void
+  ) {
+    this.entry = entry;
+    this.config = config;
+    this.blobs = blobs;
+    this.onDone = onDone;
+  }
+
+  public head(statusCode: number, headers: Headers): void {
+    markResponseStarted(this.entry);
+    this.entry.statusCode = statusCode;
+    if (capturesHeaders(this.entry, this.config)) {
+      this.entry.responseHeaders = headers;
+    }
+    this.contentType = contentTypeOf(headers);
+
+    const codings = contentEncodings(headers);
+    if (capturesBodies(this.entry) && codings.length > 0) {
+      this.decoder = createStreamDecoder(headers);
+      if (this.decoder) {
+        this.entry.responseEncoding = codings.join(', ');
+        this.decoder.on('data', (chunk: Buffer) => this.consume(chunk));
+        this.decoder.on('error', (err) => this.decodeFailed(err));
+      } else {
+        this.entry.decodeError = `Unsupported content-encoding: ${codings.join(', ')}`;
+      }
+    }
+
+    if (capturesBodies(this.entry) && isEventStream(headers)) {
+      const startedAt = Date.parse(this.entry.timestamp);
+      const assembler = new StreamAssembler();
+      this.assembler = assembler;
+      this.sseParser = new SseParser((event) => {
+        assembler.push(event);
+        if (this.sseEvents.length < MAX_SSE_EVENTS) {
+          this.sseEvents.push({ ...event, offsetMs: Date.now() - startedAt });
+        } else {
+          this.entry.sseEventsTruncated = true;
+        }
+      });
+    }
+  }
+
+  public write(chunk: Buffer): void {
+    if (this.discarding) {
+      return;
+    }
+    if (this.decoder) {
+      this.decoder.write(chunk);
+    } else {
+      this.consume(chunk);
+    }
+  }
+
+  private consume(chunk: Buffer): void {
+    this.sseParser?.feed(chunk);
+    this.size += chunk.length;
+
+    if (this.captured < this.bufferLimit()) {
+      this.chunks.push(chunk);
+      this.captured += chunk.length;
+    }
+  }
+
+  /**
+   * Bodies are kept whole when they will be stored or decoded (non-streamed
+   * LLM responses); otherwise only as much as the preview needs.
+   */
+  private bufferLimit(): number {
+    if (!capturesBodies(this.entry)) {
+      return 0;
+    }
+    if (this.blobs || (this.entry.llm && !this.sseParser)) {
+      return MAX_BODY_BYTES;
+    }
+    return this.config.verbose ? this.config.previewLimit : 0;
+  }
+
+  private decodeFailed(err: Error): void {
+    this.entry.decodeError = `Failed to decode ${this.entry.responseEncoding}: ${err.message}`;
+    this.decoder = null;
+    this.discarding = true;
+    if (this.finished) {
+      this.complete();
+    }
+  }
+
+  public end(): void {
+    if (this.finished) {
+      return;
+    }
+    this.finished = true;
+
+    if (this.decoder) {
+      // Wait for the decompressor to flush what it still holds
+      this.decoder.once('end', () => this.complete());
+      this.decoder.end();
+    } else {
+      this.complete();
+    }
+  }
+
+  private complete(): void {
+    if (this.completed) {
+      return;
+    }
+    this.completed = true;
+
+    const body = Buffer.concat(this.chunks);
+    const complete = this.captured < MAX_BODY_BYTES && !this.discarding;
+    const binary = this.captured > 0 && isBinaryBody(body, this.contentType);
+    if (binary) {
+      this.entry.responseBinary = true;
+    }
+    this.entry.responseSize = this.size;
+
+    if (capturesBodies(this.entry) && this.config.verbose && this.captured > 0 && this.config.previewLimit > 0) {
+      this.entry.responsePreview = previewBody(body, binary, this.config.previewLimit);
+    }
+
+    if (this.blobs && complete && body.length > 0) {
+      this.entry.responseBody = this.blobs.put(body, this.contentType);
+    }
+
+    if (this.sseParser && this.assembler) {
+      this.sseParser.end();
+      this.entry.sseEvents = this.sseEvents;
+      this.entry.streamedMessage = this.assembler.result();
+    }
+
+    decodeLlmResponse(this.entry, complete && !binary ? body : undefined);
+
+    this.chunks = [];
+    this.onDone(this.entry);
+  }
+}
@@ -1,39 +1,166 @@
 import * as forge from 'node-forge';
+import { createPrivateKey, createPublicKey, generateKeyPair, generateKeyPairSync, KeyObject, randomBytes, X509Certificate } from 'crypto';
 import * as fs from 'fs';
+import { isIP } from 'net';
 import * as path from 'path';
-import { CertificateInfo } from './types';
+import { promisify } from 'util';
+import { CAExportFormat, CAInfo, CertificateInfo } from './types';
 
 const CA_CERT_NAME = 'roo-sniffer-ca';
+const LEAF_KEY_NAME = 'roo-sniffer-leaf-key';
+const HOSTS_DIR = 'hosts';
+const LEAF_VALIDITY_DAYS = 365;
+/** Host certificates this close to expiring are issued again */
+const RENEW_BEFORE_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** File extension and media type of each CA export format */
+export const CA_EXPORTS: Record<CAExportFormat, { extension: string; contentType: string }> = {
+  pem: { extension: 'pem', contentType: 'application/x-pem-file' },
+  der: { extension: 'cer', contentType: 'application/x-x509-ca-cert' },
+  p12: { extension: 'p12', contentType: 'application/x-pkcs12' },
+};
+
+/**
+ * How to trust the CA on one platform or runtime.
+ */
+export interface TrustStep {
+  title: string;
+  commands: string[];
+  note?: string;
+}
+
+export function trustSteps(caPath: string): TrustStep[] {
+  const file = JSON.stringify(path.resolve(caPath));
+  return [
+    {
+      title: 'macOS',
+      commands: [`sudo security add-trusted-cert -d -r trustRoot -k /Library/Keychains/System.keychain ${file}`],
+    },
+    {
+      title: 'Debian / Ubuntu',
+      commands: [
+        `sudo cp ${file} /usr/local/share/ca-certificates/roo-sniffer-ca.crt`,
+        'sudo update-ca-certificates',
+      ],
+    },
+    {
+      title: 'Fedora / RHEL',
+      commands: [
+        `sudo cp ${file} /etc/pki/ca-trust/source/anchors/roo-sniffer-ca.pem`,
+        'sudo update-ca-trust',
+      ],
+    },
+    {
+      title: 'Chrome and Chromium on Linux (NSS)',
+      commands: [`certutil -d sql:$HOME/.pki/nssdb -A -t "C,," -n "Roo Sniffer CA" -i ${file}`],
+      note: 'certutil is in libnss3-tools (Debian/Ubuntu) or nss-tools (Fedora). Firefox keeps its own store: import the file under Settings → Privacy & Security → View Certificates → Authorities.',
+    },
+    {
+      title: 'Windows',
+      commands: [`certutil -addstore -f ROOT ${file}`],
+    },
+    {
+      title: 'Node.js, including VS Code extensions',
+      commands: [`export NODE_EXTRA_CA_CERTS=${file}`],
+      note: 'Node ignores the system store. Set this before starting the app.',
+    },
+    {
+      title: 'Python (requests, httpx)',
+      commands: [`export REQUESTS_CA_BUNDLE=${file}`, `export SSL_CERT_FILE=${file}`],
+      note: 'These replace the default bundle, so only this CA is trusted while they are set.',
+    },
+  ];
+}
+
+function pemBlock(data: string, label: RegExp): string | undefined {
+  const pattern = new RegExp(`-----BEGIN (${label.source})-----[\\s\\S]+?-----END \\1-----`);
+  return pattern.exec(data)?.[0];
+}
+
+const generateKeyPairAsync = promisify(generateKeyPair);
+
+interface LeafKey {
+  pem: string;
+  object: KeyObject;
+  publicKey: forge.pki.rsa.PublicKey;
+}
+
+interface HostCertificate extends CertificateInfo {
+  notAfter: Date;
+}
+
+/**
+ * The name a host's certificate is issued for. Hosts with a parent domain
+ * share a wildcard certificate, e.g. `*.us-east-1.amazonaws.com`; IPs and
+ * names with fewer than three labels get their own.
+ */
+export function certificateName(hostname: string): string {
+  const host = hostname.toLowerCase();
+  const labels = host.split('.');
+  return isIP(host) || labels.length < 3 ? host : `*.${labels.slice(1).join('.')}`;
+}
+
+/**
+ * A positive, minimally encoded 128-bit serial number, so certificates
+ * issued in the same millisecond or by another run never clash.
+ */
+function randomSerial(): string {
+  const bytes = randomBytes(16);
+  bytes[0] = (bytes[0] & 0x7f) | 0x40;
+  return bytes.toString('hex');
+}
+
+function expiresSoon(notAfter: Date): boolean {
+  return notAfter.getTime() - Date.now() < RENEW_BEFORE_MS;
+}
+
+function cacheFile(name: string): string {
+  return `${name.replace('*', '_wildcard').replace(/[^a-z0-9._-]/gi, '_')}.pem`;
+}
 
 export class CertificateManager {
   private certDir: string;
   private caCert: forge.pki.Certificate | null = null;
   private caKey: forge.pki.rsa.PrivateKey | null = null;
-  private certCache: Map<string, CertificateInfo> = new Map();
+  private caPublicKey: KeyObject | null = null;
+  // Keyed by certificate name; holds certificates still being issued too
+  private certCache: Map<string, Promise<HostCertificate>> = new Map();
+  private leafKey: Promise<LeafKey> | null = null;
+  public onError: ((message: string) => void) | null = null;
 
   constructor(certDir: string) {
     this.certDir = certDir;
     this.ensureCertDir();
     this.loadOrCreateCA();
+    // Start on the shared key now so the first intercepted host doesn't wait
+    this.getLeafKey().catch(() => {});
   }
 
   private ensureCertDir(): void {
-    if (!fs.existsSync(this.certDir)) {
-      fs.mkdirSync(this.certDir, { recursive: true });
-    }
+    fs.mkdirSync(path.join(this.certDir, HOSTS_DIR), { recursive: true });
+  }
+
+  private caCertPath(): string {
+    return path.join(this.certDir, `${CA_CERT_NAME}.pem`);
+  }
+
+  private caKeyPath(): string {
+    return path.join(this.certDir, `${CA_CERT_NAME}-key.pem`);
   }
 
   private loadOrCreateCA(): void {
-    const caCertPath = path.join(this.certDir, `${CA_CERT_NAME}.pem`);
-    const caKeyPath = path.join(this.certDir, `${CA_CERT_NAME}-key.pem`);
+    const caCertPath = this.caCertPath();
+    const caKeyPath = this.caKeyPath();
 
     if (fs.existsSync(caCertPath) && fs.existsSync(caKeyPath)) {
       // Load existing CA
-      const certPem = fs.readFileSync(caCertPath, 'utf8');
-      const keyPem = fs.readFileSync(caKeyPath, 'utf8');
-      this.caCert = forge.pki.certificateFromPem(certPem);
-      this.caKey = forge.pki.privateKeyFromPem(keyPem);
+      this.useCA(fs.readFileSync(caCertPath, 'utf8'), fs.readFileSync(caKeyPath, 'utf8'));
       console.log('📜 Loaded existing CA certificate');
+      if (this.caCert!.validity.notAfter.getTime() < Date.now() + 30 * DAY_MS) {
+        console.warn(`⚠️  The CA certificate expires ${this.caCert!.validity.notAfter.toISOString()}; ` +
+          'replace it with: roo-sniffer ca regenerate');
+      }
     } else {
       // Generate new CA
       this.generateCA();
@@ -42,12 +169,27 @@ export class CertificateManager {
     }
   }
 
+  private useCA(certPem: string, keyPem: string): void {
+    this.caCert = forge.pki.certificateFromPem(certPem);
+    this.caKey = forge.pki.privateKeyFromPem(keyPem);
+    this.caPublicKey = createPublicKey(forge.pki.publicKeyToPem(this.caCert.publicKey));
+  }
+
   private generateCA(): void {
-    const keys = forge.pki.rsa.generateKeyPair(2048);
+    // Native key generation takes milliseconds where forge's takes seconds
+    const keyPem = generateKeyPairSync('rsa', {
+      modulusLength: 2048,
+      privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+      publicKeyEncoding: { type: 'spki', format: 'pem' },
+    });
+    const keys = {
+      privateKey: forge.pki.privateKeyFromPem(keyPem.privateKey),
+      publicKey: forge.pki.publicKeyFromPem(keyPem.publicKey),
+    };
     const cert = forge.pki.createCertificate();
 
     cert.publicKey = keys.publicKey;
-    cert.serialNumber = '01';
+    cert.serialNumber = randomSerial();
     cert.validity.notBefore = new Date();
     cert.validity.notAfter = new Date();
     cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 10);
@@ -79,52 +221,230 @@ export class CertificateManager {
 
     cert.sign(keys.privateKey, forge.md.sha256.create());
 
-    this.caCert = cert;
-    this.caKey = keys.privateKey;
+    this.saveCA(forge.pki.certificateToPem(cert), keyPem.privateKey);
+  }
+
+  private saveCA(certPem: string, keyPem: string): void {
+    fs.writeFileSync(this.caCertPath(), certPem);
+    fs.writeFileSync(this.caKeyPath(), keyPem, { mode: 0o600 });
+    this.useCA(certPem, keyPem);
+  }
+
+  /**
+   * Keep the current CA as `*.previous.pem`, and forget every host
+   * certificate it signed.
+   */
+  private retireCA(): void {
+    for (const file of [this.caCertPath(), this.caKeyPath()]) {
+      if (fs.existsSync(file)) {
+        fs.copyFileSync(file, file.replace(/\.pem$/, '.previous.pem'));
+      }
+    }
+    this.certCache.clear();
+    const hostsDir = path.join(this.certDir, HOSTS_DIR);
+    for (const file of fs.readdirSync(hostsDir)) {
+      fs.rmSync(path.join(hostsDir, file), { force: true });
+    }
+  }
+
+  /**
+   * Replace the CA with a new one. Clients have to trust the new CA before
+   * they accept intercepted connections again.
+   */
+  public regenerateCA(): void {
+    this.retireCA();
+    this.generateCA();
+  }
+
+  /**
+   * Use an existing CA, e.g. one already trusted across a team. The key may
+   * be in the certificate file. Throws if they don't form a usable RSA CA.
+   */
+  public importCA(certData: string | Buffer, keyData: string | Buffer): void {
+    const certText = certData.toString('latin1');
+    const cert = new X509Certificate(pemBlock(certText, /CERTIFICATE/) ?? certData);
+    if (!cert.ca) {
+      throw new Error('Not a CA certificate: its basic constraints don\'t allow signing other certificates');
+    }
+    if (new Date(cert.validTo).getTime() <= Date.now()) {
+      throw new Error(`The certificate expired ${cert.validTo}`);
+    }
+
+    let key: KeyObject;
+    try {
+      key = createPrivateKey(pemBlock(keyData.toString('latin1'), /(?:RSA |EC |ENCRYPTED )?PRIVATE KEY/) ?? keyData);
+    } catch (err: any) {
+      throw new Error(`Could not read the private key (encrypted keys must be decrypted first): ${err.message}`);
+    }
+    if (key.asymmetricKeyType !== 'rsa') {
+      throw new Error(`Only RSA CA keys are supported, not ${key.asymmetricKeyType}`);
+    }
+    if (!cert.checkPrivateKey(key)) {
+      throw new Error('The private key doesn\'t belong to the certificate');
+    }
+
+    this.retireCA();
+    this.saveCA(cert.toString(), key.export({ type: 'pkcs1', format: 'pem' }).toString());
+  }
+
+  public getCAInfo(): CAInfo {
+    const cert = new X509Certificate(forge.pki.certificateToPem(this.caCert!));
+    return {
+      path: this.caCertPath(),
+      subject: cert.subject.replace(/\n/g, ', '),
+      serialNumber: cert.serialNumber,
+      fingerprint256: cert.fingerprint256,
+      fingerprint: cert.fingerprint,
+      validFrom: new Date(cert.validFrom).toISOString(),
+      validTo: new Date(cert.validTo).toISOString(),
+    };
+  }
+
+  /**
+   * The CA certificate as a file to install. Only a PKCS#12 file can carry
+   * the private key, for moving the CA to another machine.
+   */
+  public exportCA(format: CAExportFormat, options: { withKey?: boolean; password?: string } = {}): Buffer {
+    const cert = this.caCert!;
+    if (format === 'pem') {
+      return Buffer.from(forge.pki.certificateToPem(cert));
+    }
+    if (format === 'der') {
+      return Buffer.from(forge.asn1.toDer(forge.pki.certificateToAsn1(cert)).getBytes(), 'binary');
+    }
+    const p12 = forge.pkcs12.toPkcs12Asn1(options.withKey ? this.caKey : null, [cert], options.password ?? '', {
+      algorithm: '3des',
+      friendlyName: 'Roo Sniffer CA',
+    });
+    return Buffer.from(forge.asn1.toDer(p12).getBytes(), 'binary');
+  }
+
+  /**
+   * Every host certificate uses this one key, so issuing a certificate is
+   * only a signature. It's generated in the thread pool on first use and
+   * kept next to the CA.
+   */
+  private getLeafKey(): Promise<LeafKey> {
+    if (!this.leafKey) {
+      this.leafKey = this.loadOrCreateLeafKey();
+      // Try again on the next connection rather than failing them all
+      this.leafKey.catch(() => {
+        this.leafKey = null;
+      });
+    }
+    return this.leafKey;
+  }
+
+  private async loadOrCreateLeafKey(): Promise<LeafKey> {
+    const keyPath = path.join(this.certDir, `${LEAF_KEY_NAME}.pem`);
+    let pem: string;
+    if (fs.existsSync(keyPath)) {
+      pem = await fs.promises.readFile(keyPath, 'utf8');
+    } else {
+      const keys = await generateKeyPairAsync('rsa', {
+        modulusLength: 2048,
+        privateKeyEncoding: { type: 'pkcs1', format: 'pem' },
+        publicKeyEncoding: { type: 'spki', format: 'pem' },
+      });
+      pem = keys.privateKey;
+      await fs.promises.writeFile(keyPath, pem, { mode: 0o600 });
+    }
+    const object = createPrivateKey(pem);
+    const publicPem = createPublicKey(object).export({ type: 'spki', format: 'pem' }).toString();
+    return { pem, object, publicKey: forge.pki.publicKeyFromPem(publicPem) };
+  }
 
-    // Save CA certificate and key
-    const caCertPath = path.join(this.certDir, `${CA_CERT_NAME}.pem`);
-    const caKeyPath = path.join(this.certDir, `${CA_CERT_NAME}-key.pem`);
+  /**
+   * A certificate for the host signed by the CA, from memory, the
+   * certificate cache on disk, or newly issued.
+   */
+  public async getCertificateForHost(hostname: string): Promise<CertificateInfo> {
+    const name = certificateName(hostname);
+    const cached = this.certCache.get(name);
+    if (cached && expiresSoon((await cached).notAfter) && this.certCache.get(name) === cached) {
+      this.certCache.delete(name);
+    }
 
-    fs.writeFileSync(caCertPath, forge.pki.certificateToPem(cert));
-    fs.writeFileSync(caKeyPath, forge.pki.privateKeyToPem(keys.privateKey));
+    const current = this.certCache.get(name);
+    if (current) {
+      return current;
+    }
+    const issued = this.loadOrIssue(name, hostname.toLowerCase());
+    this.certCache.set(name, issued);
+    issued.catch(() => {
+      if (this.certCache.get(name) === issued) {
+        this.certCache.delete(name);
+      }
+    });
+    return issued;
   }
 
-  public getCertificateForHost(hostname: string): CertificateInfo {
-    // Check cache first
-    const cached = this.certCache.get(hostname);
-    if (cached) {
-      return cached;
+  private async loadOrIssue(name: string, hostname: string): Promise<HostCertificate> {
+    const key = await this.getLeafKey();
+    const file = path.join(this.certDir, HOSTS_DIR, cacheFile(name));
+    const stored = await this.loadHostCertificate(file, hostname, key);
+    if (stored) {
+      return stored;
     }
 
-    // Generate new certificate for this host
-    const certInfo = this.generateHostCertificate(hostname);
-    this.certCache.set(hostname, certInfo);
-    return certInfo;
+    const issued = this.generateHostCertificate(name, hostname, key);
+    try {
+      await fs.promises.writeFile(file, issued.cert);
+    } catch (err: any) {
+      this.onError?.(`Could not cache the certificate for ${name}: ${err.message}`);
+    }
+    return issued;
   }
 
-  private generateHostCertificate(hostname: string): CertificateInfo {
+  /**
+   * A cached certificate, unless it's about to expire, doesn't cover the
+   * host, or was issued by another CA or for another key.
+   */
+  private async loadHostCertificate(file: string, hostname: string, key: LeafKey): Promise<HostCertificate | null> {
+    let pem: string;
+    try {
+      pem = await fs.promises.readFile(file, 'utf8');
+    } catch {
+      return null;
+    }
+    try {
+      const cert = new X509Certificate(pem);
+      const notAfter = new Date(cert.validTo);
+      const covers = isIP(hostname) ? cert.checkIP(hostname) : cert.checkHost(hostname);
+      if (expiresSoon(notAfter) || !covers || !cert.verify(this.caPublicKey!) || !cert.checkPrivateKey(key.object)) {
+        return null;
+      }
+      return { key: key.pem, cert: pem, notAfter };
+    } catch {
+      return null;
+    }
+  }
+
+  private generateHostCertificate(name: string, hostname: string, key: LeafKey): HostCertificate {
     if (!this.caCert || !this.caKey) {
       throw new Error('CA certificate not initialized');
     }
 
-    const keys = forge.pki.rsa.generateKeyPair(2048);
     const cert = forge.pki.createCertificate();
 
-    cert.publicKey = keys.publicKey;
-    cert.serialNumber = Date.now().toString(16);
-    cert.validity.notBefore = new Date();
-    cert.validity.notAfter = new Date();
-    cert.validity.notAfter.setFullYear(cert.validity.notBefore.getFullYear() + 1);
+    cert.publicKey = key.publicKey;
+    cert.serialNumber = randomSerial();
+    // Backdated a day for clients whose clocks run slow
+    cert.validity.notBefore = new Date(Date.now() - DAY_MS);
+    cert.validity.notAfter = new Date(cert.validity.notBefore.getTime() + LEAF_VALIDITY_DAYS * DAY_MS);
 
     const attrs = [
-      { name: 'commonName', value: hostname },
+      { name: 'commonName', value: name },
       { name: 'organizationName', value: 'Roo Sniffer' },
     ];
 
     cert.setSubject(attrs);
     cert.setIssuer(this.caCert.subject.attributes);
 
+    const altNames = isIP(hostname)
+      ? [{ type: 7, ip: hostname }] // IP
+      : [...new Set([name, hostname])].map(value => ({ type: 2, value })); // DNS
+
     cert.setExtensions([
       {
         name: 'basicConstraints',
@@ -141,21 +461,24 @@ export class CertificateManager {
       },
       {
         name: 'subjectAltName',
-        altNames: [
-          { type: 2, value: hostname }, // DNS
-        ],
+        altNames,
+      },
+      {
+        name: 'authorityKeyIdentifier',
+        keyIdentifier: this.caCert.generateSubjectKeyIdentifier().getBytes(),
       },
     ]);
 
     cert.sign(this.caKey, forge.md.sha256.create());
 
     return {
-      key: forge.pki.privateKeyToPem(keys.privateKey),
+      key: key.pem,
       cert: forge.pki.certificateToPem(cert),
+      notAfter: cert.validity.notAfter,
     };
   }
 
   public getCACertPath(): string {
-    return path.join(this.certDir, `${CA_CERT_NAME}.pem`);
+    return this.caCertPath();
   }
 }
@@ -1,17 +1,98 @@
 #!/usr/bin/env node
 
 import { exec } from 'child_process';
+import { randomBytes } from 'crypto';
+import * as fs from 'fs';
+import { BlobStore, defaultBodyDir } from './blobs';
+import { CA_EXPORTS, CertificateManager, trustSteps } from './certs';
+import { fromHar } from './har';
+import { validateDomainPatterns, validateDomainPolicies } from './matcher';
 import { ProxyServer } from './proxy';
-import { DEFAULT_CONFIG, SnifferConfig } from './types';
+import { compileRedactPattern } from './redact';
+import { StatsTracker } from './stats';
+import { LogFileStore } from './store';
+import { CAExportFormat, CAInfo, DEFAULT_CONFIG, DomainPolicy, LaunchProfile, ModelPrice, SnifferConfig } from './types';
+import { WebUI, webUIUrl } from './webui';
 
 interface CLIOptions extends Partial<SnifferConfig> {
   uiPort?: number;
   noOpen?: boolean;
+  /** Subcommand and its arguments, e.g. `import capture.har` */
+  command?: string;
+  commandArgs: string[];
+  /** `ca export`: put the CA key in the PKCS#12 file, encrypted with this password */
+  withKey?: boolean;
+  password?: string;
+}
+
+function loadPriceFile(file: string): Record<string, ModelPrice> {
+  try {
+    const prices = JSON.parse(fs.readFileSync(file, 'utf8'));
+    for (const [model, price] of Object.entries<any>(prices)) {
+      if (typeof price?.input !== 'number' || typeof price?.output !== 'number') {
+        throw new Error(`"${model}" needs numeric "input" and "output" prices`);
+      }
+    }
+    return prices;
+  } catch (err: any) {
+    console.error(`Could not load price table ${file}: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+function loadLaunchProfiles(file: string): LaunchProfile[] {
+  try {
+    const profiles = JSON.parse(fs.readFileSync(file, 'utf8'));
+    if (!Array.isArray(profiles)) {
+      throw new Error('expected a list of { "name", "command" } profiles');
+    }
+    const names = new Set<string>();
+    for (const profile of profiles) {
+      if (typeof profile?.name !== 'string' || !profile.name || typeof profile.command !== 'string' || !profile.command.trim()) {
+        throw new Error('every profile needs a "name" and a "command"');
+      }
+      if (names.has(profile.name)) {
+        throw new Error(`"${profile.name}" is listed twice`);
+      }
+      names.add(profile.name);
+    }
+    return profiles.map(({ name, command }) => ({ name, command }));
+  } catch (err: any) {
+    console.error(`Could not load launch profiles ${file}: ${err.message}`);
+    process.exit(1);
+  }
+}
+
+function parseDomainPatterns(option: string, value: string | undefined): string[] {
+  try {
+    return validateDomainPatterns((value || '').split(',').map(d => d.trim()).filter(d => d), option);
+  } catch (err: any) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+/**
+ * A `<pattern>=<policy>` option. The last `=` splits them, as a regex
+ * pattern may hold one.
+ */
+function parseDomainPolicy(option: string, value: string | undefined): DomainPolicy {
+  const split = (value || '').lastIndexOf('=');
+  const rule = { domain: (value || '').slice(0, split).trim(), policy: (value || '').slice(split + 1).trim() };
+  try {
+    if (split < 1) {
+      throw new Error(`${option} takes <pattern>=<policy>`);
+    }
+    return validateDomainPolicies([rule], option)[0];
+  } catch (err: any) {
+    console.error(err.message);
+    process.exit(1);
+  }
 }
 
 function parseArgs(): CLIOptions {
   const args = process.argv.slice(2);
-  const config: CLIOptions = {};
+  const config: CLIOptions = { commandArgs: [] };
 
   for (let i = 0; i < args.length; i++) {
     const arg = args[i];
@@ -27,7 +108,13 @@ function parseArgs(): CLIOptions {
         break;
       case '-w':
       case '--watch':
-        config.watchDomains = args[++i].split(',').map(d => d.trim());
+        config.watchDomains = parseDomainPatterns(arg, args[++i]);
+        break;
+      case '--ignore':
+        config.ignoreDomains = parseDomainPatterns(arg, args[++i]);
+        break;
+      case '--policy':
+        config.domainPolicies = [...(config.domainPolicies || []), parseDomainPolicy(arg, args[++i])];
         break;
       case '-v':
       case '--verbose':
@@ -44,6 +131,97 @@ function parseArgs(): CLIOptions {
       case '--no-open':
         config.noOpen = true;
         break;
+      case '--ui-host':
+        config.uiHost = args[++i];
+        break;
+      case '--ui-token':
+        config.uiToken = args[++i];
+        if (!config.uiToken) {
+          console.error('--ui-token expects a token');
+          process.exit(1);
+        }
+        break;
+      case '--launch-profiles':
+        config.launchProfiles = loadLaunchProfiles(args[++i]);
+        break;
+      case '--prices':
+        config.prices = loadPriceFile(args[++i]);
+        break;
+      case '--preview-limit':
+        config.previewLimit = parseInt(args[++i], 10);
+        if (isNaN(config.previewLimit) || config.previewLimit < 0) {
+          console.error('--preview-limit expects a non-negative number of characters');
+          process.exit(1);
+        }
+        break;
+      case '--store-bodies':
+        config.storeBodies = true;
+        break;
+      case '--body-dir':
+        config.bodyDir = args[++i];
+        config.storeBodies = true;
+        break;
+      case '--history':
+        config.historyFile = args[++i];
+        config.history = true;
+        break;
+      case '--no-history':
+        config.history = false;
+        break;
+      case '--session':
+        config.sessionName = args[++i];
+        break;
+      case '--rules':
+        config.rulesFile = args[++i];
+        break;
+      case '--mocks':
+        config.mocksDir = args[++i];
+        break;
+      case '--record':
+        config.recordDir = args[++i];
+        break;
+      case '--replay':
+        config.replayDir = args[++i];
+        break;
+      case '--replay-speed':
+        config.replaySpeed = parseFloat(args[++i]);
+        if (isNaN(config.replaySpeed) || config.replaySpeed < 0) {
+          console.error('--replay-speed expects a non-negative number (1 = as recorded, 0 = no delays)');
+          process.exit(1);
+        }
+        break;
+      case '--replay-passthrough':
+        config.replayMisses = 'passthrough';
+        break;
+      case '--breakpoint-timeout': {
+        const seconds = parseInt(args[++i], 10);
+        if (isNaN(seconds) || seconds <= 0) {
+          console.error('--breakpoint-timeout expects a positive number of seconds');
+          process.exit(1);
+        }
+        config.breakpointTimeoutMs = seconds * 1000;
+        break;
+      }
+      case '--redact': {
+        const pattern = args[++i];
+        try {
+          compileRedactPattern(pattern);
+        } catch (err: any) {
+          console.error(`--redact expects a regex: ${err.message}`);
+          process.exit(1);
+        }
+        config.redactPatterns = [...(config.redactPatterns || []), pattern];
+        break;
+      }
+      case '--no-redact':
+        config.redact = false;
+        break;
+      case '--with-key':
+        config.withKey = true;
+        break;
+      case '--password':
+        config.password = args[++i];
+        break;
       case '-h':
       case '--help':
         printHelp();
@@ -55,6 +233,11 @@ function parseArgs(): CLIOptions {
           printHelp();
           process.exit(1);
         }
+        if (config.command === undefined) {
+          config.command = arg;
+        } else {
+          config.commandArgs.push(arg);
+        }
     }
   }
 
@@ -71,16 +254,82 @@ function printHelp(): void {
 Roo Sniffer - HTTP/HTTPS Proxy for API Request Monitoring
 
 Usage: roo-sniffer [options]
+       roo-sniffer import <file.har> [options]
+       roo-sniffer view <logfile> [options]
+       roo-sniffer ca <show|export|regenerate|import|trust-info> [options]
+
+Commands:
+  import <file.har>       Browse a HAR capture in the Web UI without starting
+                          the proxy
+  view <logfile>          Browse an existing request log in the Web UI without
+                          starting the proxy; stored bodies next to the log
+                          are picked up automatically
+  ca show                 Print the CA's fingerprints and expiry
+  ca export [pem|der|p12] [file]
+                          Write the CA certificate for installing elsewhere
+                          (--with-key adds the key to a p12, --password sets
+                          its password)
+  ca regenerate           Replace the CA with a new one
+  ca import <cert> [key]  Use an existing RSA CA; the key may be in the
+                          certificate file
+  ca trust-info           How to trust the CA on each platform
 
 Options:
   -p, --port <port>       Proxy port to listen on (default: ${DEFAULT_CONFIG.port})
   -u, --ui <port>         Web UI port (default: 8081, use 0 to disable)
   --no-open               Don't auto-open browser
+  --ui-host <addr>        Address the Web UI listens on (default: ${DEFAULT_CONFIG.uiHost};
+                          0.0.0.0 exposes it to the network)
+  --ui-token <token>      Token the Web UI asks for (default: a new random one
+                          each run, included in the printed link)
+  --launch-profiles <file>
+                          JSON list of { "name", "command" } apps the Web UI
+                          can launch (default: VSCode, Chrome, Cursor)
   -l, --log <file>        Log file path (default: ${DEFAULT_CONFIG.logFile})
-  -w, --watch <domains>   Comma-separated list of domains to watch
+  -w, --watch <domains>   Comma-separated domain patterns to watch: api.openai.com
+                          (exact), .anthropic.com (and subdomains), *.azure.*
+                          (glob), /regex/, or a bare name matching a whole label
                           (default: ${DEFAULT_CONFIG.watchDomains.join(',')})
+  --ignore <domains>      Domain patterns never logged, even when watched, e.g.
+                          telemetry.*,.sentry.io
+  --policy <pattern>=<policy>
+                          How much of matching hosts' traffic is seen:
+                          passthrough, metadata (SNI, bytes, duration of the
+                          tunnel), headers or full. Repeatable; the first
+                          match wins. Others get full when watched, else
+                          metadata
   -v, --verbose           Enable verbose logging (headers, response bodies)
   -c, --cert-dir <dir>    Directory for CA certificates (default: ${DEFAULT_CONFIG.certDir})
+  --prices <file>         JSON price table (USD per million tokens) merged
+                          over the built-in model prices
+  --preview-limit <n>     Characters of each body kept inline on log entries
+                          (default: ${DEFAULT_CONFIG.previewLimit}, 0 disables previews)
+  --store-bodies          Store complete bodies of watched requests on disk
+  --body-dir <dir>        Directory for stored bodies (implies --store-bodies,
+                          default: <log name>-bodies next to the log file)
+  --history <file>        SQLite history database (default: <log name>.db next
+                          to the log file)
+  --no-history            Don't keep a history database
+  --session <name>        Name of the session recorded by this run
+  --rules <file>          JSON file of request/response rewrite rules, reloaded
+                          when it changes (created when saved from the Web UI)
+  --mocks <dir>           Directory of mock responses (default: <log name>-mocks
+                          next to the log file)
+  --record <dir>          Record watched exchanges into a directory (also
+                          stores full bodies)
+  --replay <dir>          Answer watched requests from recordings instead of
+                          the upstream
+  --replay-speed <n>      Replay timing: 1 as recorded, 10 ten times faster,
+                          0 without delays (default: ${DEFAULT_CONFIG.replaySpeed})
+  --replay-passthrough    Send requests missing from the recordings upstream
+                          instead of failing them
+  --breakpoint-timeout <s>
+                          Seconds a message is held at a breakpoint before it
+                          is forwarded unchanged (default: ${DEFAULT_CONFIG.breakpointTimeoutMs / 1000})
+  --redact <regex>        Also mask text matching a regex (repeatable), besides
+                          API keys, bearer tokens, AWS signatures and cookies
+  --no-redact             Show secrets in the console, log file, history and
+                          Web UI
   -h, --help              Show this help message
 
 Examples:
@@ -89,6 +338,14 @@ Examples:
   roo-sniffer -p 9090                   # Use port 9090 for proxy
   roo-sniffer -w "openai,anthropic"     # Watch specific domains
   roo-sniffer -v                        # Verbose mode
+  roo-sniffer --store-bodies            # Keep full prompts and responses
+  roo-sniffer --session "bug #42"       # Record into a named session
+  roo-sniffer --rules rules.json        # Rewrite matching requests
+  roo-sniffer --record fixtures/        # Record LLM calls for tests
+  roo-sniffer --replay fixtures/        # Replay them offline
+  roo-sniffer import bug-report.har     # Browse a teammate's capture
+  roo-sniffer view old_requests.log     # Browse yesterday's session
+  roo-sniffer ca export der             # CA certificate for a phone
 
 Setup:
   1. Start the proxy: roo-sniffer
@@ -131,16 +388,215 @@ function openBrowser(url: string): void {
   });
 }
 
+/**
+ * Load a HAR file into a standalone Web UI for offline browsing.
+ */
+function runImport(file: string | undefined, config: SnifferConfig, uiPort: number, noOpen?: boolean): void {
+  if (!file) {
+    console.error('Usage: roo-sniffer import <file.har>');
+    process.exit(1);
+  }
+  requireUiPort('import', uiPort);
+
+  // Imported captures are for inspection, so show everything they contain
+  config.verbose = true;
+  const blobs = config.storeBodies ? new BlobStore(config) : null;
+  if (blobs) {
+    blobs.onError = (message) => console.error(message);
+  }
+  const stats = new StatsTracker(config);
+
+  let result: ReturnType<typeof fromHar>;
+  try {
+    result = fromHar(JSON.parse(fs.readFileSync(file, 'utf8')), config, blobs);
+  } catch (err: any) {
+    console.error(`Could not import ${file}: ${err.message}`);
+    process.exit(1);
+  }
+
+  const webUI = new WebUI(config, uiPort, stats, blobs);
+  webUI.onError = (message) => console.error(message);
+  for (const entry of result.entries) {
+    if (entry.phase === 'complete') {
+      stats.record(entry);
+    }
+    webUI.addRequest(entry);
+  }
+
+  console.log(`📂 Imported ${result.entries.length} requests from ${file}`);
+  if (result.skipped > 0) {
+    console.log(`⚠️  Skipped ${result.skipped} entries that could not be read`);
+  }
+
+  serveStandalone(webUI, uiPort, noOpen);
+}
+
+/**
+ * Open an existing log file in a standalone Web UI. Only summaries are held
+ * in memory, so logs of any size can be paged through.
+ */
+async function runView(file: string | undefined, config: SnifferConfig, uiPort: number, noOpen?: boolean): Promise<void> {
+  if (!file || !fs.existsSync(file)) {
+    console.error(file ? `Log file not found: ${file}` : 'Usage: roo-sniffer view <logfile>');
+    process.exit(1);
+  }
+  requireUiPort('view', uiPort);
+
+  config.logFile = file;
+  // Bodies stored alongside the log are readable even without --store-bodies
+  const bodyDir = config.bodyDir || defaultBodyDir(file);
+  const blobs = config.storeBodies || fs.existsSync(bodyDir) ? new BlobStore({ ...config, bodyDir }) : null;
+  const stats = new StatsTracker(config);
+
+  let store: LogFileStore;
+  try {
+    store = await LogFileStore.load(file, (entry) => {
+      if (entry.phase === 'complete') {
+        stats.record(entry);
+      }
+    });
+  } catch (err: any) {
+    console.error(`Could not read ${file}: ${err.message}`);
+    process.exit(1);
+  }
+
+  const webUI = new WebUI(config, uiPort, stats, blobs);
+  webUI.onError = (message) => console.error(message);
+  webUI.setArchive(store);
+
+  console.log(`📂 Loaded ${store.size} requests from ${file}`);
+  if (store.skippedLines > 0) {
+    console.log(`⚠️  Skipped ${store.skippedLines} lines that were not log entries`);
+  }
+
+  serveStandalone(webUI, uiPort, noOpen);
+}
+
+function printCAInfo(info: CAInfo): void {
+  const daysLeft = Math.floor((new Date(info.validTo).getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+  console.log(`📜 CA certificate: ${info.path}`);
+  console.log(`   Subject:  ${info.subject}`);
+  console.log(`   SHA-256:  ${info.fingerprint256}`);
+  console.log(`   SHA-1:    ${info.fingerprint}`);
+  console.log(`   Serial:   ${info.serialNumber}`);
+  console.log(`   Valid:    ${info.validFrom} to ${info.validTo} (${daysLeft < 0 ? 'expired' : `${daysLeft} days left`})`);
+}
+
+/**
+ * Inspect, export, replace or trust the CA that signs intercepted hosts.
+ */
+function runCA(args: string[], config: SnifferConfig, options: { withKey?: boolean; password?: string }): void {
+  const [subcommand, ...rest] = args;
+  if (!['show', 'export', 'regenerate', 'import', 'trust-info'].includes(subcommand)) {
+    console.error(subcommand ? `Unknown ca command: ${subcommand}` : 'Usage: roo-sniffer ca <show|export|regenerate|import|trust-info>');
+    process.exit(1);
+  }
+  const certs = new CertificateManager(config.certDir);
+  try {
+    switch (subcommand) {
+      case 'show':
+        printCAInfo(certs.getCAInfo());
+        break;
+      case 'export': {
+        const format = (rest[0] || 'pem') as CAExportFormat;
+        if (!(format in CA_EXPORTS)) {
+          throw new Error(`Unknown format: ${format}; use pem, der or p12`);
+        }
+        if (options.withKey && format !== 'p12') {
+          throw new Error('--with-key only works with p12, the one format that keeps the key encrypted');
+        }
+        const file = rest[1] || `roo-sniffer-ca.${CA_EXPORTS[format].extension}`;
+        fs.writeFileSync(file, certs.exportCA(format, options), { mode: options.withKey ? 0o600 : 0o644 });
+        console.log(`📜 Wrote the CA ${options.withKey ? 'certificate and key' : 'certificate'} to ${file}`);
+        break;
+      }
+      case 'regenerate':
+        certs.regenerateCA();
+        printCAInfo(certs.getCAInfo());
+        console.log('');
+        console.log('The previous CA is kept as roo-sniffer-ca.previous.pem. Trust the new one');
+        console.log('(roo-sniffer ca trust-info), remove the old one, and restart a running proxy.');
+        break;
+      case 'import': {
+        const [certFile, keyFile] = rest;
+        if (!certFile) {
+          throw new Error('Usage: roo-sniffer ca import <cert> [key]');
+        }
+        certs.importCA(fs.readFileSync(certFile), fs.readFileSync(keyFile || certFile));
+        printCAInfo(certs.getCAInfo());
+        console.log('');
+        console.log('The previous CA is kept as roo-sniffer-ca.previous.pem. Restart a running proxy to use this one.');
+        break;
+      }
+      case 'trust-info':
+        console.log(`Trust ${certs.getCACertPath()} where your apps run:`);
+        for (const step of trustSteps(certs.getCACertPath())) {
+          console.log('');
+          console.log(`${step.title}:`);
+          for (const command of step.commands) {
+            console.log(`  ${command}`);
+          }
+          if (step.note) {
+            console.log(`  ${step.note}`);
+          }
+        }
+        break;
+    }
+  } catch (err: any) {
+    console.error(err.message);
+    process.exit(1);
+  }
+}
+
+function requireUiPort(command: string, uiPort: number): void {
+  if (uiPort <= 0) {
+    console.error(`${command} needs the Web UI; pass a port with -u`);
+    process.exit(1);
+  }
+}
+
+function serveStandalone(webUI: WebUI, uiPort: number, noOpen?: boolean): void {
+  process.on('SIGINT', () => {
+    webUI.stop();
+    process.exit(0);
+  });
+
+  webUI.start();
+  if (!noOpen) {
+    setTimeout(() => openBrowser(webUIUrl(webUI.getConfig(), uiPort)), 500);
+  }
+}
+
 async function main(): Promise<void> {
   printBanner();
   
   const cliOptions = parseArgs();
-  const { uiPort, noOpen, ...userConfig } = cliOptions;
+  const { uiPort, noOpen, command, commandArgs, withKey, password, ...userConfig } = cliOptions;
   
   const config: SnifferConfig = {
     ...DEFAULT_CONFIG,
     ...userConfig,
   };
+  // The Web UI can launch commands, so it only answers browsers given this
+  config.uiToken ??= randomBytes(16).toString('hex');
+
+  if (command === 'import') {
+    runImport(commandArgs[0], config, uiPort ?? 8081, noOpen);
+    return;
+  }
+  if (command === 'view') {
+    await runView(commandArgs[0], config, uiPort ?? 8081, noOpen);
+    return;
+  }
+  if (command === 'ca') {
+    runCA(commandArgs, config, { withKey, password });
+    return;
+  }
+  if (command !== undefined) {
+    console.error(`Unknown command: ${command}`);
+    printHelp();
+    process.exit(1);
+  }
 
   const proxy = new ProxyServer(config, uiPort && uiPort > 0 ? uiPort : undefined);
 
@@ -162,7 +618,7 @@ async function main(): Promise<void> {
     // Open browser after successful start
     if (uiPort && uiPort > 0 && !noOpen) {
       setTimeout(() => {
-        openBrowser(`http://localhost:${uiPort}`);
+        openBrowser(webUIUrl(config, uiPort));
       }, 500);
     }
   } catch (err) {
@@ -0,0 +1,112 @@
+import { LlmContentPart, LlmMessage, LlmRequestInfo, LlmResponseInfo, StreamedMessage, TokenUsage } from '../types';
+import { asList, asObject, errorText, isObject, JsonObject, jsonText, optionalNumber, optionalString, streamedToMessage, usageNumber } from './common';
+import { LlmDecoder } from './index';
+
+function decodeBlock(value: unknown): LlmContentPart {
+  if (typeof value === 'string') {
+    return { type: 'text', text: value };
+  }
+
+  const block = asObject(value);
+  switch (block.type) {
+    case 'text':
+      return { type: 'text', text: optionalString(block.text) };
+    case 'image':
+    case 'document':
+      return { type: 'image', name: block.type, text: optionalString(asObject(block.source).media_type) };
+    case 'thinking':
+      return { type: 'thinking', text: optionalString(block.thinking) };
+    case 'redacted_thinking':
+      return { type: 'thinking', text: '<redacted>' };
+    case 'tool_use':
+    case 'server_tool_use':
+      return { type: 'tool_use', id: optionalString(block.id), name: optionalString(block.name), input: jsonText(block.input) };
+    case 'tool_result': {
+      const content = Array.isArray(block.content)
+        ? block.content.map(asObject).map(part => optionalString(part.text) ?? `[${part.type}]`).join('\n')
+        : optionalString(block.content);
+      return { type: 'tool_result', id: optionalString(block.tool_use_id), text: content, isError: block.is_error === true };
+    }
+    default:
+      return { type: 'other', name: optionalString(block.type), text: jsonText(value) };
+  }
+}
+
+function decodeContent(content: unknown): LlmContentPart[] {
+  if (Array.isArray(content)) {
+    return content.map(decodeBlock);
+  }
+  return [decodeBlock(content ?? '')];
+}
+
+function decodeUsage(usage: unknown): TokenUsage | undefined {
+  if (!isObject(usage)) {
+    return undefined;
+  }
+  return {
+    inputTokens: usageNumber(usage, 'input_tokens'),
+    outputTokens: usageNumber(usage, 'output_tokens'),
+    cacheReadTokens: usageNumber(usage, 'cache_read_input_tokens'),
+    cacheWriteTokens: usageNumber(usage, 'cache_creation_input_tokens'),
+  };
+}
+
+/**
+ * Anthropic Messages API (`POST /v1/messages`), also used by Bedrock and
+ * Vertex passthroughs and Anthropic-compatible gateways.
+ */
+export const anthropicDecoder: LlmDecoder = {
+  api: 'anthropic-messages',
+
+  matches(path: string, body: JsonObject): boolean {
+    return /\/messages(\?|$)/.test(path) && !/\/threads\//.test(path) && Array.isArray(body.messages);
+  },
+
+  decodeRequest(body: JsonObject): LlmRequestInfo {
+    const system = Array.isArray(body.system)
+      ? body.system.map(block => optionalString(asObject(block).text) ?? '').join('\n\n')
+      : optionalString(body.system);
+
+    const messages: LlmMessage[] = asList(body.messages).map(asObject).map(message => ({
+      role: optionalString(message.role) ?? 'unknown',
+      content: decodeContent(message.content),
+    }));
+
+    return {
+      model: optionalString(body.model),
+      system,
+      messages,
+      tools: asList(body.tools).map(asObject).map(tool => ({
+        name: optionalString(tool.name) ?? '',
+        description: optionalString(tool.description),
+      })),
+      temperature: optionalNumber(body.temperature),
+      maxTokens: optionalNumber(body.max_tokens),
+      stream: body.stream === true,
+    };
+  },
+
+  decodeResponse(body: JsonObject): LlmResponseInfo {
+    if (body.type === 'error') {
+      return { error: errorText(body.error) };
+    }
+    return {
+      model: optionalString(body.model),
+      message: Array.isArray(body.content)
+        ? { role: optionalString(body.role) || 'assistant', content: decodeContent(body.content) }
+        : undefined,
+      stopReason: optionalString(body.stop_reason),
+      usage: decodeUsage(body.usage),
+    };
+  },
+
+  decodeStream(streamed: StreamedMessage): LlmResponseInfo {
+    return {
+      model: streamed.model,
+      message: streamedToMessage(streamed),
+      stopReason: streamed.stopReason,
+      usage: decodeUsage(streamed.usage),
+      error: streamed.error,
+    };
+  },
+};
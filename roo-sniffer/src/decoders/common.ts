@@ -0,0 +1,86 @@
+import { LlmContentPart, LlmMessage, StreamedMessage, TokenUsage } from '../types';
+
+/** A parsed JSON object whose fields haven't been checked yet */
+export type JsonObject = Record<string, unknown>;
+
+export function isObject(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+/**
+ * The value as an object, or an empty one so that its fields read as
+ * undefined.
+ */
+export function asObject(value: unknown): JsonObject {
+  return isObject(value) ? value : {};
+}
+
+export function asList(value: unknown): unknown[] {
+  return Array.isArray(value) ? value : [];
+}
+
+/**
+ * Read a numeric usage field that may be nested (`a.b`) in a provider
+ * response body or flattened (`'a.b'`) by the stream assembler.
+ */
+export function usageNumber(usage: unknown, path: string): number {
+  if (!isObject(usage)) {
+    return 0;
+  }
+  const flattened = usage[path];
+  if (typeof flattened === 'number') {
+    return flattened;
+  }
+
+  let value: unknown = usage;
+  for (const key of path.split('.')) {
+    value = asObject(value)[key];
+  }
+  return typeof value === 'number' ? value : 0;
+}
+
+export function emptyUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheReadTokens: 0, cacheWriteTokens: 0 };
+}
+
+export function jsonText(value: unknown): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  try {
+    // undefined has no JSON form
+    return JSON.stringify(value) ?? String(value);
+  } catch {
+    return String(value);
+  }
+}
+
+export function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' ? value : undefined;
+}
+
+export function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * The message of an error object in a response body, or the whole object
+ * when it has none.
+ */
+export function errorText(error: unknown): string {
+  return optionalString(asObject(error).message) || jsonText(error);
+}
+
+/**
+ * Convert a reassembled stream into the assistant message shape shared by all
+ * decoders.
+ */
+export function streamedToMessage(streamed: StreamedMessage): LlmMessage {
+  const content: LlmContentPart[] = streamed.blocks.map((block) => {
+    if (block.type === 'tool_use') {
+      return { type: 'tool_use', id: block.id, name: block.name, input: block.input };
+    }
+    return { type: block.type, text: block.text || '' };
+  });
+  return { role: 'assistant', content };
+}
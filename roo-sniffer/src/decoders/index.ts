@@ -0,0 +1,116 @@
+import { LlmApi, LlmRequestInfo, LlmResponseInfo, RequestLogEntry, StreamedMessage } from '../types';
+import { anthropicDecoder } from './anthropic';
+import { isObject, JsonObject } from './common';
+import { openaiChatDecoder } from './openai-chat';
+import { openaiResponsesDecoder } from './openai-responses';
+
+/**
+ * A decoder understands one LLM wire format. It is picked by request path and
+ * body shape rather than host, so gateways and self-hosted compatible
+ * endpoints are recognised too.
+ */
+export interface LlmDecoder {
+  api: LlmApi;
+  matches(path: string, body: JsonObject): boolean;
+  decodeRequest(body: JsonObject): LlmRequestInfo;
+  decodeResponse(body: JsonObject): LlmResponseInfo;
+  decodeStream(streamed: StreamedMessage): LlmResponseInfo;
+}
+
+const decoders: LlmDecoder[] = [
+  anthropicDecoder,
+  openaiChatDecoder,
+  openaiResponsesDecoder,
+];
+
+/**
+ * Add a decoder for another wire format. Later registrations are tried first
+ * so they can override the built-in ones.
+ */
+export function registerDecoder(decoder: LlmDecoder): void {
+  decoders.unshift(decoder);
+}
+
+export function providerForHost(host: string): string {
+  const hostname = host.split(':')[0].toLowerCase();
+  if (hostname.includes('openrouter')) return 'openrouter';
+  if (hostname.includes('anthropic')) return 'anthropic';
+  if (hostname.includes('azure')) return 'azure';
+  if (hostname.includes('openai')) return 'openai';
+  if (hostname.includes('amazonaws')) return 'bedrock';
+  if (hostname.includes('googleapis')) return 'google';
+  return hostname;
+}
+
+function parseJson(body: Buffer): unknown {
+  if (body.length === 0) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(body.toString('utf8'));
+  } catch {
+    return undefined;
+  }
+}
+
+function decoderFor(api: LlmApi): LlmDecoder | undefined {
+  return decoders.find(decoder => decoder.api === api);
+}
+
+/**
+ * Recognise an LLM API call from its full request body and attach the
+ * structured view to the entry. Returns true if a decoder matched.
+ */
+export function decodeLlmRequest(entry: RequestLogEntry, body: Buffer): boolean {
+  const json = parseJson(body);
+  if (!isObject(json)) {
+    return false;
+  }
+
+  const path = entry.path.replace(/^https?:\/\/[^/]+/, '');
+  const decoder = decoders.find(candidate => candidate.matches(path, json));
+  if (!decoder) {
+    return false;
+  }
+
+  try {
+    entry.llm = {
+      provider: providerForHost(entry.host),
+      api: decoder.api,
+      request: decoder.decodeRequest(json),
+    };
+    return true;
+  } catch {
+    // A body that looks right but isn't shouldn't break proxying
+    return false;
+  }
+}
+
+/**
+ * Fill in the response side of an LLM exchange, from the reassembled stream
+ * when the response was SSE or from the full JSON body otherwise.
+ */
+export function decodeLlmResponse(entry: RequestLogEntry, body: Buffer | undefined): void {
+  if (!entry.llm) {
+    return;
+  }
+
+  const decoder = decoderFor(entry.llm.api);
+  if (!decoder) {
+    return;
+  }
+
+  try {
+    if (entry.streamedMessage) {
+      entry.llm.response = decoder.decodeStream(entry.streamedMessage);
+      return;
+    }
+
+    const json = body ? parseJson(body) : undefined;
+    if (isObject(json)) {
+      entry.llm.response = decoder.decodeResponse(json);
+    }
+  } catch {
+    // Leave the response undecoded; the raw preview is still there
+  }
+}
@@ -0,0 +1,131 @@
+import { LlmContentPart, LlmMessage, LlmRequestInfo, LlmResponseInfo, StreamedMessage, TokenUsage } from '../types';
+import { asList, asObject, errorText, isObject, JsonObject, jsonText, optionalNumber, optionalString, streamedToMessage, usageNumber } from './common';
+import { LlmDecoder } from './index';
+
+function decodeParts(content: unknown): LlmContentPart[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  return content.map((value): LlmContentPart => {
+    const part = asObject(value);
+    switch (part.type) {
+      case 'text':
+        return { type: 'text', text: optionalString(part.text) };
+      case 'image_url':
+        return { type: 'image', name: 'image_url', text: String(asObject(part.image_url).url || '').substring(0, 80) };
+      case 'input_audio':
+      case 'file':
+        return { type: 'other', name: part.type };
+      default:
+        return { type: 'other', name: optionalString(part.type), text: jsonText(value) };
+    }
+  });
+}
+
+function decodeMessage(message: JsonObject): LlmMessage {
+  const content = decodeParts(message.content);
+
+  const reasoning = message.reasoning ?? message.reasoning_content;
+  if (typeof reasoning === 'string' && reasoning) {
+    content.unshift({ type: 'thinking', text: reasoning });
+  }
+
+  for (const toolCall of asList(message.tool_calls).map(asObject)) {
+    const fn = asObject(toolCall.function);
+    content.push({
+      type: 'tool_use',
+      id: optionalString(toolCall.id),
+      name: optionalString(fn.name),
+      input: optionalString(fn.arguments),
+    });
+  }
+
+  if (message.role === 'tool') {
+    return {
+      role: 'tool',
+      content: [{ type: 'tool_result', id: optionalString(message.tool_call_id), text: content.map(part => part.text || '').join('') }],
+    };
+  }
+
+  return { role: optionalString(message.role) ?? 'unknown', content };
+}
+
+function decodeUsage(usage: unknown): TokenUsage | undefined {
+  if (!isObject(usage)) {
+    return undefined;
+  }
+  // prompt_tokens includes cached tokens; report them separately
+  const cached = usageNumber(usage, 'prompt_tokens_details.cached_tokens');
+  return {
+    inputTokens: Math.max(0, usageNumber(usage, 'prompt_tokens') - cached),
+    outputTokens: usageNumber(usage, 'completion_tokens'),
+    cacheReadTokens: cached,
+    cacheWriteTokens: usageNumber(usage, 'cache_creation_input_tokens'),
+  };
+}
+
+/**
+ * OpenAI Chat Completions (`POST /v1/chat/completions`), which OpenRouter,
+ * Azure OpenAI and most OpenAI-compatible gateways also speak.
+ */
+export const openaiChatDecoder: LlmDecoder = {
+  api: 'openai-chat',
+
+  matches(path: string, body: JsonObject): boolean {
+    return /\/chat\/completions(\?|$)/.test(path) && Array.isArray(body.messages);
+  },
+
+  decodeRequest(body: JsonObject): LlmRequestInfo {
+    const system: string[] = [];
+    const messages: LlmMessage[] = [];
+
+    for (const message of asList(body.messages).map(asObject)) {
+      // System/developer prompts are surfaced separately, like Anthropic's
+      if (message.role === 'system' || message.role === 'developer') {
+        system.push(decodeParts(message.content).map(part => part.text || '').join(''));
+      } else {
+        messages.push(decodeMessage(message));
+      }
+    }
+
+    return {
+      model: optionalString(body.model),
+      system: system.length > 0 ? system.join('\n\n') : undefined,
+      messages,
+      tools: asList(body.tools)
+        .map(tool => asObject(tool).function)
+        .filter(isObject)
+        .map(fn => ({ name: optionalString(fn.name) ?? '', description: optionalString(fn.description) })),
+      temperature: optionalNumber(body.temperature),
+      maxTokens: optionalNumber(body.max_completion_tokens ?? body.max_tokens),
+      stream: body.stream === true,
+    };
+  },
+
+  decodeResponse(body: JsonObject): LlmResponseInfo {
+    if (body.error) {
+      return { error: errorText(body.error) };
+    }
+    const choice = asObject(asList(body.choices)[0]);
+    return {
+      model: optionalString(body.model),
+      message: isObject(choice.message) ? decodeMessage(choice.message) : undefined,
+      stopReason: optionalString(choice.finish_reason),
+      usage: decodeUsage(body.usage),
+    };
+  },
+
+  decodeStream(streamed: StreamedMessage): LlmResponseInfo {
+    return {
+      model: streamed.model,
+      message: streamedToMessage(streamed),
+      stopReason: streamed.stopReason,
+      usage: decodeUsage(streamed.usage),
+      error: streamed.error,
+    };
+  },
+};
@@ -0,0 +1,148 @@
+import { LlmContentPart, LlmMessage, LlmRequestInfo, LlmResponseInfo, StreamedMessage, TokenUsage } from '../types';
+import { asList, asObject, errorText, isObject, JsonObject, jsonText, optionalNumber, optionalString, streamedToMessage, usageNumber } from './common';
+import { LlmDecoder } from './index';
+
+function decodeParts(content: unknown): LlmContentPart[] {
+  if (typeof content === 'string') {
+    return [{ type: 'text', text: content }];
+  }
+  if (!Array.isArray(content)) {
+    return [];
+  }
+
+  return content.map((value): LlmContentPart => {
+    const part = asObject(value);
+    switch (part.type) {
+      case 'input_text':
+      case 'output_text':
+        return { type: 'text', text: optionalString(part.text) };
+      case 'refusal':
+        return { type: 'text', text: optionalString(part.refusal) };
+      case 'input_image':
+      case 'input_file':
+        return { type: 'image', name: part.type };
+      default:
+        return { type: 'other', name: optionalString(part.type), text: jsonText(value) };
+    }
+  });
+}
+
+/**
+ * Responses API input and output are flat item lists; consecutive items are
+ * folded into messages so tool calls sit with the assistant turn they belong to.
+ */
+function decodeItems(items: unknown[]): LlmMessage[] {
+  const messages: LlmMessage[] = [];
+  const append = (role: string, part: LlmContentPart): void => {
+    const last = messages[messages.length - 1];
+    if (last && last.role === role) {
+      last.content.push(part);
+    } else {
+      messages.push({ role, content: [part] });
+    }
+  };
+
+  for (const value of items) {
+    const item = asObject(value);
+    const role = optionalString(item.role);
+    if (item.type === 'function_call') {
+      append('assistant', {
+        type: 'tool_use',
+        id: optionalString(item.call_id),
+        name: optionalString(item.name),
+        input: optionalString(item.arguments),
+      });
+    } else if (item.type === 'function_call_output') {
+      append('tool', { type: 'tool_result', id: optionalString(item.call_id), text: jsonText(item.output) });
+    } else if (item.type === 'reasoning') {
+      const summary = asList(item.summary).map(part => optionalString(asObject(part).text) || '').join('\n');
+      append('assistant', { type: 'thinking', text: summary || '<encrypted>' });
+    } else if (role) {
+      for (const part of decodeParts(item.content)) {
+        append(role, part);
+      }
+    } else if (value) {
+      append('unknown', { type: 'other', name: optionalString(item.type), text: jsonText(value) });
+    }
+  }
+
+  return messages;
+}
+
+function decodeUsage(usage: unknown): TokenUsage | undefined {
+  if (!isObject(usage)) {
+    return undefined;
+  }
+  const cached = usageNumber(usage, 'input_tokens_details.cached_tokens');
+  return {
+    inputTokens: Math.max(0, usageNumber(usage, 'input_tokens') - cached),
+    outputTokens: usageNumber(usage, 'output_tokens'),
+    cacheReadTokens: cached,
+    cacheWriteTokens: 0,
+  };
+}
+
+/**
+ * OpenAI Responses API (`POST /v1/responses`).
+ */
+export const openaiResponsesDecoder: LlmDecoder = {
+  api: 'openai-responses',
+
+  matches(path: string, body: JsonObject): boolean {
+    return /\/responses(\?|$)/.test(path) && body.input !== undefined;
+  },
+
+  decodeRequest(body: JsonObject): LlmRequestInfo {
+    const system: string[] = [];
+    if (typeof body.instructions === 'string') {
+      system.push(body.instructions);
+    }
+
+    const input = typeof body.input === 'string' ? [{ role: 'user', content: body.input }] : asList(body.input);
+    const messages = decodeItems(input).filter((message) => {
+      if (message.role === 'system' || message.role === 'developer') {
+        system.push(message.content.map(part => part.text || '').join(''));
+        return false;
+      }
+      return true;
+    });
+
+    return {
+      model: optionalString(body.model),
+      system: system.length > 0 ? system.join('\n\n') : undefined,
+      messages,
+      tools: asList(body.tools).map(asObject).map(tool => ({
+        name: optionalString(tool.name) || optionalString(tool.type) || '',
+        description: optionalString(tool.description),
+      })),
+      temperature: optionalNumber(body.temperature),
+      maxTokens: optionalNumber(body.max_output_tokens),
+      stream: body.stream === true,
+    };
+  },
+
+  decodeResponse(body: JsonObject): LlmResponseInfo {
+    if (body.error) {
+      return { error: errorText(body.error) };
+    }
+    const output = decodeItems(asList(body.output));
+    return {
+      model: optionalString(body.model),
+      message: output.length > 0
+        ? { role: 'assistant', content: output.flatMap(message => message.content) }
+        : undefined,
+      stopReason: optionalString(asObject(body.incomplete_details).reason) || optionalString(body.status),
+      usage: decodeUsage(body.usage),
+    };
+  },
+
+  decodeStream(streamed: StreamedMessage): LlmResponseInfo {
+    return {
+      model: streamed.model,
+      message: streamedToMessage(streamed),
+      stopReason: streamed.stopReason,
+      usage: decodeUsage(streamed.usage),
+      error: streamed.error,
+    };
+  },
+};
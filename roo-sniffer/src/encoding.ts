@@ -0,0 +1,196 @@
+import * as zlib from 'zlib';
+import { Transform } from 'stream';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+// zstd landed in zlib in Node 22.15 / 23.8; older runtimes pass it through
+const zstd = zlib as unknown as {
+  zstdDecompressSync?: (body: Buffer) => Buffer;
+  createZstdDecompress?: () => Transform;
+};
+
+export interface DecodedBody {
+  body: Buffer;
+  /** Content codings that were removed, in the order they were applied */
+  encoding?: string;
+  error?: string;
+}
+
+/**
+ * Content codings from a `content-encoding` header, in the order they were
+ * applied. `identity` is dropped since it's a no-op.
+ */
+export function contentEncodings(headers: Headers): string[] {
+  const value = headers['content-encoding'];
+  const joined = Array.isArray(value) ? value.join(',') : value || '';
+  return joined
+    .split(',')
+    .map(coding => coding.trim().toLowerCase())
+    .filter(coding => coding && coding !== 'identity');
+}
+
+export function canDecode(coding: string): boolean {
+  switch (coding) {
+    case 'gzip':
+    case 'x-gzip':
+    case 'deflate':
+    case 'br':
+      return true;
+    case 'zstd':
+      return !!zstd.zstdDecompressSync;
+    default:
+      return false;
+  }
+}
+
+// 'deflate' is meant to be zlib-wrapped, but some servers send raw deflate
+function isZlibWrapped(body: Buffer): boolean {
+  return body.length >= 2 && (body[0] & 0x0f) === 8 && ((body[0] << 8) | body[1]) % 31 === 0;
+}
+
+function decodeSync(coding: string, body: Buffer): Buffer {
+  switch (coding) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.gunzipSync(body, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    case 'deflate':
+      return isZlibWrapped(body)
+        ? zlib.inflateSync(body, { finishFlush: zlib.constants.Z_SYNC_FLUSH })
+        : zlib.inflateRawSync(body, { finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    case 'br':
+      return zlib.brotliDecompressSync(body, {
+        finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH,
+      });
+    default:
+      return zstd.zstdDecompressSync!(body);
+  }
+}
+
+/**
+ * Undo the `content-encoding` of a complete body. On an unsupported coding or
+ * corrupt data the original bytes are returned along with the reason.
+ */
+export function decodeBody(body: Buffer, headers: Headers): DecodedBody {
+  const codings = contentEncodings(headers);
+  if (codings.length === 0 || body.length === 0) {
+    return { body };
+  }
+
+  const unsupported = codings.find(coding => !canDecode(coding));
+  if (unsupported) {
+    return { body, error: `Unsupported content-encoding: ${unsupported}` };
+  }
+
+  try {
+    let decoded = body;
+    for (const coding of [...codings].reverse()) {
+      decoded = decodeSync(coding, decoded);
+    }
+    return { body: decoded, encoding: codings.join(', ') };
+  } catch (err) {
+    return { body, error: `Failed to decode ${codings.join(', ')}: ${(err as Error).message}` };
+  }
+}
+
+/**
+ * Streaming counterpart of `decodeBody` for responses, so streamed events
+ * can be parsed as they arrive. Only single codings are streamed; returns
+ * null when the body should be captured as-is.
+ */
+export function createStreamDecoder(headers: Headers): Transform | null {
+  const codings = contentEncodings(headers);
+  if (codings.length !== 1 || !canDecode(codings[0])) {
+    return null;
+  }
+
+  switch (codings[0]) {
+    case 'gzip':
+    case 'x-gzip':
+      return zlib.createGunzip({ finishFlush: zlib.constants.Z_SYNC_FLUSH });
+    case 'deflate':
+      return new LazyInflate();
+    case 'br':
+      return zlib.createBrotliDecompress({ finishFlush: zlib.constants.BROTLI_OPERATION_FLUSH });
+    default:
+      return zstd.createZstdDecompress!();
+  }
+}
+
+/**
+ * Picks zlib or raw inflate once the first bytes show which one the server
+ * actually sent.
+ */
+class LazyInflate extends Transform {
+  private inner: Transform | null = null;
+
+  _transform(chunk: Buffer, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    if (!this.inner) {
+      const options = { finishFlush: zlib.constants.Z_SYNC_FLUSH };
+      this.inner = isZlibWrapped(chunk) ? zlib.createInflate(options) : zlib.createInflateRaw(options);
+      this.inner.on('data', (data: Buffer) => this.push(data));
+      this.inner.on('error', (err) => this.destroy(err));
+    }
+    this.inner.write(chunk, () => callback());
+  }
+
+  _flush(callback: (error?: Error | null) => void): void {
+    if (!this.inner) {
+      callback();
+      return;
+    }
+    this.inner.once('end', () => callback());
+    this.inner.end();
+  }
+}
+
+// Content types that are text regardless of what the bytes look like
+const TEXT_TYPES = /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|x-www-form-urlencoded|x-ndjson|graphql)\b)/i;
+const BINARY_TYPES = /^(image|audio|video|font)\/|^application\/(octet-stream|pdf|zip|gzip|x-protobuf|protobuf|grpc|msgpack|wasm)/i;
+const SNIFF_BYTES = 8192;
+
+/**
+ * Decide whether a (decoded) body should be shown as bytes rather than text,
+ * from its content type when that's conclusive and otherwise by sniffing the
+ * first few KB for NULs and invalid UTF-8.
+ */
+export function isBinaryBody(body: Buffer, contentType: string | undefined): boolean {
+  if (contentType && TEXT_TYPES.test(contentType)) {
+    return false;
+  }
+  if (contentType && BINARY_TYPES.test(contentType)) {
+    return true;
+  }
+
+  const sample = body.subarray(0, SNIFF_BYTES);
+  if (sample.includes(0)) {
+    return true;
+  }
+
+  // Streaming mode tolerates a multi-byte character cut off by the sample
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: true });
+  } catch {
+    return true;
+  }
+
+  let control = 0;
+  for (let i = 0; i < sample.length; i++) {
+    const byte = sample[i];
+    if (byte < 0x20 && byte !== 0x09 && byte !== 0x0a && byte !== 0x0d && byte !== 0x0c && byte !== 0x1b) {
+      control++;
+    }
+  }
+  return sample.length > 0 && control / sample.length > 0.1;
+}
+
+/**
+ * Inline preview of a body within `limit` characters. Binary bodies are
+ * previewed as base64 of their first bytes.
+ */
+export function previewBody(body: Buffer, binary: boolean, limit: number): string {
+  if (binary) {
+    return body.subarray(0, Math.floor(limit / 4) * 3).toString('base64');
+  }
+  const text = body.toString('utf8');
+  return text.length > limit ? text.substring(0, limit) + '...' : text;
+}
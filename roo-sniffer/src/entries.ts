@@ -0,0 +1,67 @@
+import { randomUUID } from 'crypto';
+import { RequestLogEntry, RequestPhase, SnifferConfig } from './types';
+
+type NewEntryFields = Omit<RequestLogEntry, 'id' | 'phase' | 'timestamp'>;
+
+/**
+ * Create a pending entry with a stable id. `startedAt` lets callers stamp the
+ * moment the request began rather than when its body finished arriving.
+ */
+export function createEntry(fields: NewEntryFields, startedAt: Date = new Date()): RequestLogEntry {
+  return {
+    id: randomUUID(),
+    phase: 'pending',
+    timestamp: startedAt.toISOString(),
+    ...fields,
+  };
+}
+
+/**
+ * Whether an entry keeps bodies: watched, and not limited to headers.
+ */
+export function capturesBodies(entry: RequestLogEntry): boolean {
+  return entry.watched && entry.policy !== 'headers';
+}
+
+/**
+ * Whether an entry keeps headers: always under the `headers` policy, with
+ * verbose logging under `full`, and never for metadata only.
+ */
+export function capturesHeaders(entry: RequestLogEntry, config: SnifferConfig): boolean {
+  if (entry.policy === 'headers') {
+    return true;
+  }
+  return config.verbose && entry.policy !== 'metadata' && entry.policy !== 'passthrough';
+}
+
+export function isFinished(entry: RequestLogEntry): boolean {
+  return entry.phase !== 'pending';
+}
+
+/**
+ * Record time-to-first-byte when the response head arrives.
+ */
+export function markResponseStarted(entry: RequestLogEntry): void {
+  if (entry.ttfbMs === undefined) {
+    entry.ttfbMs = Date.now() - Date.parse(entry.timestamp);
+  }
+}
+
+/**
+ * Move an entry into a terminal phase. Returns false if it had already
+ * finished, so callers can avoid logging the same entry twice.
+ */
+export function finishEntry(entry: RequestLogEntry, phase: Exclude<RequestPhase, 'pending'>, error?: string): boolean {
+  if (isFinished(entry)) {
+    return false;
+  }
+
+  const now = new Date();
+  entry.phase = phase;
+  entry.completedAt = now.toISOString();
+  entry.durationMs = now.getTime() - Date.parse(entry.timestamp);
+  if (error) {
+    entry.error = error;
+  }
+  return true;
+}
@@ -0,0 +1,191 @@
+import { EventEmitter } from 'events';
+import * as http from 'http';
+import * as http2 from 'http2';
+import * as net from 'net';
+import { PassThrough } from 'stream';
+import * as tls from 'tls';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/** HTTP/1.1 headers about the connection, which HTTP/2 forbids */
+export const CONNECTION_HEADERS = ['connection', 'keep-alive', 'proxy-connection', 'transfer-encoding', 'upgrade'];
+
+// Upstream sessions nobody has used for this long are closed
+const SESSION_IDLE_MS = 60 * 1000;
+
+/**
+ * What the proxy needs from an upstream request, whichever HTTP version
+ * carries it. `http.ClientRequest` is one.
+ */
+export interface UpstreamRequest {
+  on(event: 'response', listener: (response: UpstreamResponse) => void): this;
+  on(event: 'error', listener: (err: Error) => void): this;
+  write(chunk: Buffer): boolean;
+  end(chunk?: Buffer): this;
+  destroy(): this;
+}
+
+/**
+ * What the proxy needs from an upstream response. `http.IncomingMessage`
+ * is one.
+ */
+export interface UpstreamResponse extends NodeJS.ReadableStream {
+  statusCode?: number;
+  httpVersion: string;
+  headers: http.IncomingHttpHeaders;
+  rawHeaders: string[];
+}
+
+/**
+ * A response from an HTTP/2 upstream, readable like an HTTP/1.1 one.
+ */
+class Http2UpstreamResponse extends PassThrough implements UpstreamResponse {
+  public statusCode: number;
+  public httpVersion = '2.0';
+  public headers: http.IncomingHttpHeaders = {};
+  public rawHeaders: string[] = [];
+
+  constructor(headers: http2.IncomingHttpHeaders & http2.IncomingHttpStatusHeader) {
+    super();
+    this.statusCode = headers[':status'] || 200;
+    for (const [name, value] of Object.entries(headers)) {
+      if (name.startsWith(':') || value === undefined) {
+        continue;
+      }
+      const values = Array.isArray(value) ? value : [String(value)];
+      this.headers[name] = values.length === 1 ? values[0] : values;
+      for (const item of values) {
+        this.rawHeaders.push(name, item);
+      }
+    }
+  }
+}
+
+/**
+ * A request on an upstream HTTP/2 session, driven like an
+ * `http.ClientRequest`: write the body, end it, wait for `response`.
+ */
+class Http2UpstreamRequest extends EventEmitter implements UpstreamRequest {
+  private stream: http2.ClientHttp2Stream;
+
+  constructor(session: http2.ClientHttp2Session, target: URL, method: string, headers: Headers) {
+    super();
+    const h2Headers: http2.OutgoingHttpHeaders = {
+      ':method': method,
+      ':scheme': 'https',
+      ':authority': target.host,
+      ':path': target.pathname + target.search,
+    };
+    for (const [name, value] of Object.entries(headers)) {
+      const lower = name.toLowerCase();
+      if (value === undefined || lower.startsWith(':') || lower === 'host' || CONNECTION_HEADERS.includes(lower)) {
+        continue;
+      }
+      // The one value of TE that HTTP/2 allows
+      if (lower === 'te' && value !== 'trailers') {
+        continue;
+      }
+      h2Headers[lower] = value;
+    }
+
+    this.stream = session.request(h2Headers);
+    this.stream.on('response', (responseHeaders) => {
+      const response = new Http2UpstreamResponse(responseHeaders);
+      this.stream.pipe(response);
+      this.emit('response', response);
+    });
+    this.stream.on('error', (err) => this.emit('error', err));
+  }
+
+  public write(chunk: Buffer): boolean {
+    return this.stream.write(chunk);
+  }
+
+  public end(chunk?: Buffer): this {
+    if (chunk) {
+      this.stream.end(chunk);
+    } else {
+      this.stream.end();
+    }
+    return this;
+  }
+
+  public destroy(): this {
+    this.stream.close(http2.constants.NGHTTP2_CANCEL);
+    return this;
+  }
+}
+
+/**
+ * HTTP/2 sessions to upstreams, one per origin. Whether an origin speaks
+ * h2 is learnt from ALPN on the first connection to it and remembered.
+ */
+export class Http2Sessions {
+  // Resolves to null for origins that only speak HTTP/1.1
+  private sessions: Map<string, Promise<http2.ClientHttp2Session | null>> = new Map();
+
+  /**
+   * A request to the target over HTTP/2, or null when its origin doesn't
+   * offer it. Rejects if the origin can't be reached.
+   */
+  public async request(target: URL, method: string, headers: Headers): Promise<UpstreamRequest | null> {
+    let pending = this.sessions.get(target.origin);
+    if (!pending) {
+      pending = this.connect(target);
+      this.sessions.set(target.origin, pending);
+    }
+    const session = await pending;
+    return session ? new Http2UpstreamRequest(session, target, method, headers) : null;
+  }
+
+  private connect(target: URL): Promise<http2.ClientHttp2Session | null> {
+    const origin = target.origin;
+    const pending = new Promise<http2.ClientHttp2Session | null>((resolve, reject) => {
+      const socket = tls.connect({
+        host: target.hostname,
+        port: Number(target.port) || 443,
+        servername: net.isIP(target.hostname) ? undefined : target.hostname,
+        ALPNProtocols: ['h2', 'http/1.1'],
+        rejectUnauthorized: false, // Allow self-signed certs for interception
+      });
+
+      socket.once('secureConnect', () => {
+        socket.removeAllListeners('error');
+        if (socket.alpnProtocol !== 'h2') {
+          socket.destroy();
+          resolve(null);
+          return;
+        }
+
+        const session = http2.connect(origin, { createConnection: () => socket });
+        const forget = () => {
+          if (this.sessions.get(origin) === pending) {
+            this.sessions.delete(origin);
+          }
+        };
+        session.on('error', forget);
+        session.on('goaway', forget);
+        session.on('close', forget);
+        // New requests get a new session; ones in flight finish on this one
+        session.setTimeout(SESSION_IDLE_MS, () => {
+          forget();
+          session.close();
+        });
+        resolve(session);
+      });
+
+      socket.once('error', (err) => {
+        this.sessions.delete(origin);
+        reject(err);
+      });
+    });
+    return pending;
+  }
+
+  public close(): void {
+    for (const pending of this.sessions.values()) {
+      pending.then(session => session?.destroy(), () => {});
+    }
+    this.sessions.clear();
+  }
+}
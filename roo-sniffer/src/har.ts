@@ -0,0 +1,498 @@
+import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { captureRequestBody, ResponseCapture } from './capture';
+import { createEntry } from './entries';
+import { matchesDomain } from './matcher';
+import { BlobRef, RequestLogEntry, SnifferConfig } from './types';
+
+/*
+ * The subset of HAR 1.2 (http://www.softwareishard.com/blog/har-12-spec/)
+ * that maps onto a RequestLogEntry.
+ */
+
+export interface HarHeader {
+  name: string;
+  value: string;
+}
+
+export interface HarRequest {
+  method: string;
+  url: string;
+  httpVersion: string;
+  cookies: unknown[];
+  headers: HarHeader[];
+  queryString: HarHeader[];
+  postData?: {
+    mimeType: string;
+    text: string;
+    /** Non-standard; request bodies have no encoding field in HAR 1.2 */
+    _encoding?: 'base64';
+  };
+  headersSize: number;
+  bodySize: number;
+}
+
+export interface HarResponse {
+  status: number;
+  statusText: string;
+  httpVersion: string;
+  cookies: unknown[];
+  headers: HarHeader[];
+  content: {
+    size: number;
+    mimeType: string;
+    text?: string;
+    encoding?: 'base64';
+    comment?: string;
+  };
+  redirectURL: string;
+  headersSize: number;
+  bodySize: number;
+  _error?: string;
+}
+
+export interface HarEntry {
+  startedDateTime: string;
+  time: number;
+  request: HarRequest;
+  response: HarResponse;
+  cache: Record<string, never>;
+  timings: { send: number; wait: number; receive: number };
+  /** Entry fields HAR has no place for, so a round trip loses nothing */
+  _rooSniffer?: Partial<RequestLogEntry>;
+}
+
+export interface HarFile {
+  log: {
+    version: string;
+    creator: { name: string; version: string };
+    entries: HarEntry[];
+  };
+}
+
+type Headers = Record<string, string | string[] | undefined>;
+
+// Fields carried in `_rooSniffer`; bodies and headers travel in HAR's own fields
+const EXTRA_FIELDS = [
+  'id', 'phase', 'error', 'watched', 'clientId', 'ttfbMs', 'sseEvents', 'sseEventsTruncated',
+  'webSocketMessages', 'webSocketMessagesTruncated',
+  'streamedMessage', 'llm', 'bodyEncoding', 'responseEncoding', 'decodeError',
+] as const;
+
+/*
+ * `_rooSniffer` comes from whoever wrote the file, so each field is read
+ * back only if it has the shape the proxy would have given it. A reader
+ * returns the value with unknown properties dropped, or undefined if it
+ * doesn't fit.
+ */
+
+type Reader = (value: unknown) => unknown;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+const string: Reader = value => typeof value === 'string' ? value : undefined;
+const number: Reader = value => typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+const boolean: Reader = value => typeof value === 'boolean' ? value : undefined;
+
+function oneOf(...values: string[]): Reader {
+  return value => values.includes(value as string) ? value : undefined;
+}
+
+function listOf(read: Reader): Reader {
+  return (value) => {
+    if (!Array.isArray(value)) {
+      return undefined;
+    }
+    const items = value.map(read);
+    return items.includes(undefined) ? undefined : items;
+  };
+}
+
+function recordOf(read: Reader): Reader {
+  return (value) => {
+    if (!isObject(value)) {
+      return undefined;
+    }
+    const entries = Object.entries(value).map(([key, item]) => [key, read(item)]);
+    return entries.some(([, item]) => item === undefined) ? undefined : Object.fromEntries(entries);
+  };
+}
+
+/**
+ * An object with the given properties; names ending in `?` are optional.
+ */
+function shape(fields: Record<string, Reader>): Reader {
+  return (value) => {
+    if (!isObject(value)) {
+      return undefined;
+    }
+    const result: Record<string, unknown> = {};
+    for (const [field, read] of Object.entries(fields)) {
+      const name = field.replace(/\?$/, '');
+      if (value[name] === undefined) {
+        if (field.endsWith('?')) {
+          continue;
+        }
+        return undefined;
+      }
+      const item = read(value[name]);
+      if (item === undefined) {
+        return undefined;
+      }
+      result[name] = item;
+    }
+    return result;
+  };
+}
+
+const LLM_MESSAGE = shape({
+  role: string,
+  content: listOf(shape({
+    type: oneOf('text', 'image', 'thinking', 'tool_use', 'tool_result', 'other'),
+    'text?': string,
+    'name?': string,
+    'id?': string,
+    'input?': string,
+    'isError?': boolean,
+  })),
+});
+
+const EXTRA_READERS: Record<(typeof EXTRA_FIELDS)[number], Reader> = {
+  // Ids end up in the Web UI's links and handlers
+  id: value => typeof value === 'string' && /^[\w-]+$/.test(value) ? value : undefined,
+  phase: oneOf('pending', 'complete', 'error', 'aborted'),
+  error: string,
+  watched: boolean,
+  clientId: string,
+  ttfbMs: number,
+  sseEvents: listOf(shape({ 'event?': string, data: string, 'id?': string, offsetMs: number })),
+  sseEventsTruncated: boolean,
+  webSocketMessages: listOf(shape({
+    from: oneOf('client', 'server'),
+    type: oneOf('text', 'binary', 'close', 'ping', 'pong'),
+    data: string,
+    size: number,
+    'truncated?': boolean,
+    'compressed?': boolean,
+    'closeCode?': number,
+    offsetMs: number,
+  })),
+  webSocketMessagesTruncated: boolean,
+  streamedMessage: shape({
+    format: oneOf('anthropic', 'openai-chat', 'openai-responses', 'unknown'),
+    'id?': string,
+    'model?': string,
+    blocks: listOf(shape({
+      type: oneOf('text', 'thinking', 'tool_use'),
+      'text?': string,
+      'id?': string,
+      'name?': string,
+      'input?': string,
+    })),
+    text: string,
+    'stopReason?': string,
+    'usage?': recordOf(number),
+    'error?': string,
+  }),
+  llm: shape({
+    provider: string,
+    api: oneOf('anthropic-messages', 'openai-chat', 'openai-responses'),
+    request: shape({
+      'model?': string,
+      'system?': string,
+      messages: listOf(LLM_MESSAGE),
+      tools: listOf(shape({ name: string, 'description?': string })),
+      'temperature?': number,
+      'maxTokens?': number,
+      'stream?': boolean,
+    }),
+    'response?': shape({
+      'model?': string,
+      'message?': LLM_MESSAGE,
+      'stopReason?': string,
+      'usage?': shape({ inputTokens: number, outputTokens: number, cacheReadTokens: number, cacheWriteTokens: number }),
+      'error?': string,
+    }),
+    'costUsd?': number,
+  }),
+  bodyEncoding: string,
+  responseEncoding: string,
+  decodeError: string,
+};
+
+function toHarHeaders(headers: Headers | undefined): HarHeader[] {
+  const result: HarHeader[] = [];
+  for (const [name, value] of Object.entries(headers || {})) {
+    if (value === undefined) {
+      continue;
+    }
+    for (const item of Array.isArray(value) ? value : [value]) {
+      result.push({ name, value: item });
+    }
+  }
+  return result;
+}
+
+function fromHarHeaders(headers: HarHeader[] | undefined): Record<string, string | string[]> {
+  const result: Record<string, string | string[]> = {};
+  for (const { name, value } of headers || []) {
+    const key = name.toLowerCase();
+    // HTTP/2 pseudo-headers from browser exports aren't real headers
+    if (key.startsWith(':')) {
+      continue;
+    }
+    const existing = result[key];
+    result[key] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+  return result;
+}
+
+function headerValue(headers: Headers | undefined, name: string): string | undefined {
+  const value = headers?.[name];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+/**
+ * MITM'd entries only record the path (and host without port); plain HTTP
+ * ones have the full URL.
+ */
+export function entryUrl(entry: RequestLogEntry): string {
+  if (/^https?:\/\//.test(entry.path)) {
+    return entry.path;
+  }
+  return `https://${headerValue(entry.headers, 'host') || entry.host}${entry.path}`;
+}
+
+export async function bodyText(
+  ref: BlobRef | undefined,
+  preview: string | undefined,
+  binary: boolean | undefined,
+  blobs: BlobStore | null
+): Promise<{ text: string; base64: boolean; truncated: boolean } | undefined> {
+  const full = ref && blobs ? await blobs.get(ref.hash) : undefined;
+  if (full) {
+    return binary
+      ? { text: full.toString('base64'), base64: true, truncated: false }
+      : { text: full.toString('utf8'), base64: false, truncated: false };
+  }
+  if (preview !== undefined) {
+    return { text: preview, base64: !!binary, truncated: true };
+  }
+  return undefined;
+}
+
+async function toHarEntry(entry: RequestLogEntry, blobs: BlobStore | null): Promise<HarEntry> {
+  const url = entryUrl(entry);
+  let queryString: HarHeader[] = [];
+  try {
+    queryString = [...new URL(url).searchParams].map(([name, value]) => ({ name, value }));
+  } catch {
+    // Leave it empty for unparseable paths
+  }
+
+  const request: HarRequest = {
+    method: entry.method,
+    url,
+    httpVersion: `HTTP/${entry.httpVersion || '1.1'}`,
+    cookies: [],
+    headers: toHarHeaders(entry.headers),
+    queryString,
+    headersSize: -1,
+    bodySize: entry.requestBody?.size ?? -1,
+  };
+
+  const requestBody = await bodyText(entry.requestBody, entry.bodyPreview, entry.bodyBinary, blobs);
+  if (requestBody) {
+    request.postData = {
+      mimeType: headerValue(entry.headers, 'content-type') || entry.requestBody?.contentType || '',
+      text: requestBody.text,
+    };
+    if (requestBody.base64) {
+      request.postData._encoding = 'base64';
+    }
+  }
+
+  const responseBody = await bodyText(entry.responseBody, entry.responsePreview, entry.responseBinary, blobs);
+  const response: HarResponse = {
+    // HAR uses status 0 for requests that never got a response
+    status: entry.statusCode ?? 0,
+    statusText: '',
+    httpVersion: `HTTP/${entry.upstreamHttpVersion || entry.httpVersion || '1.1'}`,
+    cookies: [],
+    headers: toHarHeaders(entry.responseHeaders),
+    content: {
+      size: entry.responseBody?.size ?? (responseBody ? Buffer.byteLength(responseBody.text) : 0),
+      mimeType: headerValue(entry.responseHeaders, 'content-type') || entry.responseBody?.contentType || '',
+    },
+    redirectURL: headerValue(entry.responseHeaders, 'location') || '',
+    headersSize: -1,
+    bodySize: entry.responseBody?.size ?? -1,
+  };
+  if (responseBody) {
+    response.content.text = responseBody.text;
+    if (responseBody.base64) {
+      response.content.encoding = 'base64';
+    }
+    if (responseBody.truncated) {
+      response.content.comment = 'Preview only; the full body was not stored';
+    }
+  }
+  if (entry.error) {
+    response._error = entry.error;
+  }
+
+  const time = entry.durationMs ?? 0;
+  const wait = Math.min(entry.ttfbMs ?? time, time);
+
+  const extra: Partial<RequestLogEntry> = {};
+  for (const field of EXTRA_FIELDS) {
+    if (entry[field] !== undefined) {
+      (extra as Record<string, unknown>)[field] = entry[field];
+    }
+  }
+
+  return {
+    startedDateTime: entry.timestamp,
+    time,
+    request,
+    response,
+    cache: {},
+    timings: { send: 0, wait, receive: time - wait },
+    _rooSniffer: extra,
+  };
+}
+
+/**
+ * Build a HAR 1.2 document from captured entries. Full bodies are read from
+ * the blob store when available, otherwise previews are used. CONNECT
+ * tunnels aren't HTTP exchanges and are left out.
+ */
+export async function toHar(entries: RequestLogEntry[], blobs: BlobStore | null): Promise<HarFile> {
+  const harEntries: HarEntry[] = [];
+  for (const entry of entries) {
+    if (entry.method !== 'CONNECT') {
+      harEntries.push(await toHarEntry(entry, blobs));
+    }
+  }
+
+  return {
+    log: {
+      version: '1.2',
+      creator: { name: 'roo-sniffer', version: '1.0.0' },
+      entries: harEntries,
+    },
+  };
+}
+
+function decodeHarBody(text: string | undefined, base64: boolean): Buffer {
+  if (!text) {
+    return Buffer.alloc(0);
+  }
+  return Buffer.from(text, base64 ? 'base64' : 'utf8');
+}
+
+/**
+ * HAR bodies are already decompressed, so the coding headers must not be
+ * applied to them again.
+ */
+function withoutContentEncoding(headers: Record<string, string | string[]>): Headers {
+  const { 'content-encoding': _encoding, ...rest } = headers;
+  return rest;
+}
+
+/**
+ * The version part of a HAR `httpVersion`, as node reports it. Browsers
+ * write HTTP/2 as `h2`, `HTTP/2` or `http/2.0`.
+ */
+function fromHarVersion(version: string | undefined): string | undefined {
+  const match = /^(?:h|http\/)(\d)(?:\.(\d))?$/i.exec(version || '');
+  return match ? `${match[1]}.${match[2] || '0'}` : undefined;
+}
+
+function fromHarEntry(
+  harEntry: HarEntry,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): RequestLogEntry {
+  const url = new URL(harEntry.request.url);
+  const extra: unknown = harEntry._rooSniffer;
+  const requestHeaders = fromHarHeaders(harEntry.request.headers);
+  const responseHeaders = fromHarHeaders(harEntry.response.headers);
+
+  // Same shape the proxy records: plain HTTP keeps the absolute URL
+  const entry = createEntry({
+    method: harEntry.request.method.toUpperCase(),
+    host: url.host,
+    path: url.protocol === 'http:' ? url.toString() : url.pathname + url.search,
+    // Captured as watched so bodies are kept; the real flag is set below
+    watched: true,
+    headers: requestHeaders,
+    httpVersion: fromHarVersion(harEntry.request.httpVersion),
+  });
+
+  const requestBody = decodeHarBody(harEntry.request.postData?.text, harEntry.request.postData?._encoding === 'base64');
+  captureRequestBody(entry, requestBody, withoutContentEncoding(requestHeaders), config, blobs);
+
+  if (harEntry.response.status > 0) {
+    entry.ttfbMs = harEntry.timings?.wait;
+    const capture = new ResponseCapture(entry, config, blobs, () => undefined);
+    capture.head(harEntry.response.status, withoutContentEncoding(responseHeaders));
+    capture.write(decodeHarBody(harEntry.response.content?.text, harEntry.response.content?.encoding === 'base64'));
+    capture.end();
+    entry.responseHeaders = responseHeaders;
+    const responseVersion = fromHarVersion(harEntry.response.httpVersion);
+    if (responseVersion !== entry.httpVersion) {
+      entry.upstreamHttpVersion = responseVersion;
+    }
+  }
+
+  const started = Date.parse(harEntry.startedDateTime);
+  const time = Math.max(0, harEntry.time || 0);
+  entry.timestamp = new Date(started).toISOString();
+  entry.completedAt = new Date(started + time).toISOString();
+  entry.durationMs = time;
+  entry.watched = matchesDomain(config.watchDomains, entry.host) && !matchesDomain(config.ignoreDomains, entry.host);
+  entry.phase = harEntry.response.status > 0 ? 'complete' : 'error';
+  if (harEntry.response._error) {
+    entry.error = harEntry.response._error;
+  }
+
+  // Our own exports carry what HAR can't express, e.g. exact stream timings
+  if (isObject(extra)) {
+    for (const field of EXTRA_FIELDS) {
+      const value = extra[field] === undefined ? undefined : EXTRA_READERS[field](extra[field]);
+      if (value !== undefined) {
+        (entry as unknown as Record<string, unknown>)[field] = value;
+      }
+    }
+  }
+  return entry;
+}
+
+/**
+ * Turn a HAR document (ours or a browser's) into log entries. Bodies go
+ * through the same capture path as live traffic, so LLM calls in a foreign
+ * HAR are decoded too. Entries that can't be read are skipped.
+ */
+export function fromHar(
+  har: HarFile,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): { entries: RequestLogEntry[]; skipped: number } {
+  if (!har?.log || !Array.isArray(har.log.entries)) {
+    throw new Error('Not a HAR file: missing log.entries');
+  }
+
+  const entries: RequestLogEntry[] = [];
+  let skipped = 0;
+  for (const harEntry of har.log.entries) {
+    try {
+      entries.push(fromHarEntry(harEntry, config, blobs));
+    } catch {
+      skipped++;
+    }
+  }
+  return { entries, skipped };
+}
@@ -0,0 +1,348 @@
+import Database from 'better-sqlite3';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Redactor } from './redact';
+import { RequestFilter, RequestPage, RequestStore, RequestSummary } from './store';
+import { RequestLogEntry, Session, SnifferConfig } from './types';
+
+/**
+ * Where the history database goes when no file is configured: next to the
+ * log file, e.g. `roo_requests.log` -> `roo_requests.db`.
+ */
+export function defaultHistoryFile(logFile: string): string {
+  const parsed = path.parse(logFile);
+  return path.join(parsed.dir, `${parsed.name}.db`);
+}
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    name TEXT NOT NULL,
+    started_at TEXT NOT NULL,
+    ended_at TEXT
+  );
+
+  CREATE TABLE IF NOT EXISTS entries (
+    seq INTEGER PRIMARY KEY AUTOINCREMENT,
+    id TEXT NOT NULL UNIQUE,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    timestamp TEXT NOT NULL,
+    completed_at TEXT,
+    duration_ms INTEGER,
+    ttfb_ms INTEGER,
+    phase TEXT NOT NULL,
+    error TEXT,
+    method TEXT NOT NULL,
+    host TEXT NOT NULL,
+    path TEXT NOT NULL,
+    watched INTEGER NOT NULL,
+    status INTEGER,
+    client_id TEXT,
+    data TEXT NOT NULL
+  );
+
+  CREATE INDEX IF NOT EXISTS entries_session_seq ON entries(session_id, seq);
+  CREATE INDEX IF NOT EXISTS entries_session_time ON entries(session_id, timestamp);
+  CREATE INDEX IF NOT EXISTS entries_session_host ON entries(session_id, host);
+  CREATE INDEX IF NOT EXISTS entries_session_method ON entries(session_id, method);
+  CREATE INDEX IF NOT EXISTS entries_session_status ON entries(session_id, status);
+  CREATE INDEX IF NOT EXISTS entries_session_watched ON entries(session_id, watched);
+`;
+
+interface EntryRow {
+  id: string;
+  timestamp: string;
+  completed_at: string | null;
+  duration_ms: number | null;
+  ttfb_ms: number | null;
+  phase: RequestLogEntry['phase'];
+  error: string | null;
+  method: string;
+  host: string;
+  path: string;
+  watched: number;
+  status: number | null;
+  client_id: string | null;
+}
+
+interface SessionRow {
+  id: number;
+  name: string;
+  started_at: string;
+  ended_at: string | null;
+  entry_count: number;
+}
+
+function toSummary(row: EntryRow): RequestSummary {
+  const summary: RequestSummary = {
+    summary: true,
+    id: row.id,
+    phase: row.phase,
+    timestamp: row.timestamp,
+    method: row.method,
+    host: row.host,
+    path: row.path,
+    watched: row.watched === 1,
+  };
+  if (row.completed_at !== null) summary.completedAt = row.completed_at;
+  if (row.duration_ms !== null) summary.durationMs = row.duration_ms;
+  if (row.ttfb_ms !== null) summary.ttfbMs = row.ttfb_ms;
+  if (row.error !== null) summary.error = row.error;
+  if (row.status !== null) summary.statusCode = row.status;
+  if (row.client_id !== null) summary.clientId = row.client_id;
+  return summary;
+}
+
+function toSession(row: SessionRow): Session {
+  const session: Session = {
+    id: row.id,
+    name: row.name,
+    startedAt: row.started_at,
+    entryCount: row.entry_count,
+  };
+  if (row.ended_at !== null) {
+    session.endedAt = row.ended_at;
+  }
+  return session;
+}
+
+function defaultSessionName(): string {
+  return `Session ${new Date().toISOString().replace('T', ' ').substring(0, 16)}`;
+}
+
+/**
+ * SQLite-backed history of every entry, grouped into named sessions. New
+ * entries go to the recording session; any session can be browsed. Writes
+ * are synchronous but cheap in WAL mode, so entries are saved as they
+ * change rather than batched and lost on a crash.
+ */
+export class HistoryStore {
+  private db: Database.Database;
+  private recordingId: number | null = null;
+  private file: string;
+  // Entries are saved on every change, so these are prepared once
+  private insertStatement: Database.Statement;
+  private updateStatement: Database.Statement;
+  private redactor: Redactor;
+
+  constructor(config: SnifferConfig) {
+    this.file = config.historyFile || defaultHistoryFile(config.logFile);
+    this.redactor = new Redactor(config);
+    fs.mkdirSync(path.dirname(path.resolve(this.file)), { recursive: true });
+
+    this.db = new Database(this.file);
+    this.db.pragma('journal_mode = WAL');
+    this.db.pragma('synchronous = NORMAL');
+    this.db.pragma('foreign_keys = ON');
+    this.db.exec(SCHEMA);
+    this.recoverInterrupted();
+
+    this.insertStatement = this.db.prepare(`
+      INSERT INTO entries (
+        id, session_id, timestamp, completed_at, duration_ms, ttfb_ms, phase, error,
+        method, host, path, watched, status, client_id, data
+      ) VALUES (
+        @id, @sessionId, @timestamp, @completedAt, @durationMs, @ttfbMs, @phase, @error,
+        @method, @host, @path, @watched, @status, @clientId, @data
+      )
+    `);
+    this.updateStatement = this.db.prepare(`
+      UPDATE entries SET
+        completed_at = @completedAt, duration_ms = @durationMs, ttfb_ms = @ttfbMs, phase = @phase,
+        error = @error, status = @status, data = @data
+      WHERE id = @id
+    `);
+  }
+
+  public getFile(): string {
+    return this.file;
+  }
+
+  /**
+   * A previous run that crashed leaves its session open and its in-flight
+   * requests pending forever.
+   */
+  private recoverInterrupted(): void {
+    this.db.prepare(`
+      UPDATE sessions SET ended_at = COALESCE(
+        (SELECT MAX(COALESCE(completed_at, timestamp)) FROM entries WHERE session_id = sessions.id),
+        started_at
+      ) WHERE ended_at IS NULL
+    `).run();
+    this.db.prepare(`
+      UPDATE entries SET phase = 'aborted', error = 'Sniffer stopped before the response finished'
+      WHERE phase = 'pending'
+    `).run();
+  }
+
+  public getRecordingId(): number | null {
+    return this.recordingId;
+  }
+
+  /**
+   * End the recording session, if any, and start recording a new one.
+   */
+  public startSession(name?: string): Session {
+    this.stopSession();
+    const startedAt = new Date().toISOString();
+    const result = this.db
+      .prepare('INSERT INTO sessions (name, started_at) VALUES (?, ?)')
+      .run(name?.trim() || defaultSessionName(), startedAt);
+    this.recordingId = Number(result.lastInsertRowid);
+    return this.getSession(this.recordingId)!;
+  }
+
+  /**
+   * Stop recording. Entries captured until the next session starts are
+   * only kept in memory.
+   */
+  public stopSession(): void {
+    if (this.recordingId === null) {
+      return;
+    }
+    this.db
+      .prepare('UPDATE sessions SET ended_at = ? WHERE id = ?')
+      .run(new Date().toISOString(), this.recordingId);
+    this.recordingId = null;
+  }
+
+  public listSessions(): Session[] {
+    const rows = this.db.prepare(`
+      SELECT s.*, (SELECT COUNT(*) FROM entries e WHERE e.session_id = s.id) AS entry_count
+      FROM sessions s ORDER BY s.id DESC
+    `).all() as SessionRow[];
+    return rows.map(toSession);
+  }
+
+  public getSession(id: number): Session | undefined {
+    const row = this.db.prepare(`
+      SELECT s.*, (SELECT COUNT(*) FROM entries e WHERE e.session_id = s.id) AS entry_count
+      FROM sessions s WHERE s.id = ?
+    `).get(id) as SessionRow | undefined;
+    return row ? toSession(row) : undefined;
+  }
+
+  public renameSession(id: number, name: string): boolean {
+    return this.db.prepare('UPDATE sessions SET name = ? WHERE id = ?').run(name, id).changes > 0;
+  }
+
+  /**
+   * Delete a session and its entries. Deleting the recording session stops
+   * recording.
+   */
+  public deleteSession(id: number): boolean {
+    if (id === this.recordingId) {
+      this.recordingId = null;
+    }
+    return this.db.prepare('DELETE FROM sessions WHERE id = ?').run(id).changes > 0;
+  }
+
+  /**
+   * Insert or update an entry in the recording session. Entries that
+   * started in an earlier session stay where they are, and ones that were
+   * in flight when recording stopped are still completed.
+   */
+  public save(original: RequestLogEntry): void {
+    const entry = this.redactor.redact(original);
+    const row = {
+      id: entry.id,
+      sessionId: this.recordingId,
+      timestamp: entry.timestamp,
+      completedAt: entry.completedAt ?? null,
+      durationMs: entry.durationMs ?? null,
+      ttfbMs: entry.ttfbMs ?? null,
+      phase: entry.phase,
+      error: entry.error ?? null,
+      method: entry.method,
+      host: entry.host,
+      path: entry.path,
+      watched: entry.watched ? 1 : 0,
+      status: entry.statusCode ?? null,
+      clientId: entry.clientId ?? null,
+      data: JSON.stringify(entry),
+    };
+
+    // Update first: a conflicting insert would still use up a seq number
+    if (this.updateStatement.run(row).changes === 0 && this.recordingId !== null) {
+      this.insertStatement.run(row);
+    }
+  }
+
+  public async get(id: string): Promise<RequestLogEntry | undefined> {
+    const row = this.db.prepare('SELECT phase, error, data FROM entries WHERE id = ?').get(id) as
+      { phase: RequestLogEntry['phase']; error: string | null; data: string } | undefined;
+    if (!row) {
+      return undefined;
+    }
+    // The columns win over the JSON for entries recovered after a crash
+    const entry: RequestLogEntry = { ...JSON.parse(row.data), phase: row.phase };
+    if (row.error !== null) {
+      entry.error = row.error;
+    }
+    return entry;
+  }
+
+  /**
+   * Browse one session through the same interface as an archived log file.
+   */
+  public session(sessionId: number): RequestStore {
+    return {
+      query: (filter, offset, limit) => this.query(sessionId, filter, offset, limit),
+      counts: () => this.counts(sessionId),
+      get: (id) => this.get(id),
+      entries: (filter) => this.entries(sessionId, filter),
+    };
+  }
+
+  private where(sessionId: number, filter: RequestFilter): { sql: string; params: unknown[] } {
+    const clauses = ['session_id = ?'];
+    const params: unknown[] = [sessionId];
+    if (filter.search) {
+      // instr() rather than LIKE so '%' and '_' in the search are literal
+      clauses.push('(instr(lower(host), ?) > 0 OR instr(lower(path), ?) > 0)');
+      params.push(filter.search.toLowerCase(), filter.search.toLowerCase());
+    }
+    if (filter.method) {
+      clauses.push('method = ?');
+      params.push(filter.method);
+    }
+    if (filter.watched) {
+      clauses.push('watched = ?');
+      params.push(filter.watched === 'watched' ? 1 : 0);
+    }
+    return { sql: clauses.join(' AND '), params };
+  }
+
+  private query(sessionId: number, filter: RequestFilter, offset: number, limit: number): RequestPage<RequestSummary> {
+    const where = this.where(sessionId, filter);
+    const total = (this.db.prepare(`SELECT COUNT(*) AS n FROM entries WHERE ${where.sql}`)
+      .get(...where.params) as { n: number }).n;
+    const rows = this.db.prepare(`
+      SELECT id, timestamp, completed_at, duration_ms, ttfb_ms, phase, error,
+             method, host, path, watched, status, client_id
+      FROM entries WHERE ${where.sql}
+      ORDER BY seq DESC LIMIT ? OFFSET ?
+    `).all(...where.params, limit, offset) as EntryRow[];
+
+    return { total, offset, entries: rows.map(toSummary) };
+  }
+
+  private counts(sessionId: number): { total: number; watched: number } {
+    return this.db.prepare(`
+      SELECT COUNT(*) AS total, COALESCE(SUM(watched), 0) AS watched
+      FROM entries WHERE session_id = ?
+    `).get(sessionId) as { total: number; watched: number };
+  }
+
+  private async entries(sessionId: number, filter: RequestFilter): Promise<RequestLogEntry[]> {
+    const where = this.where(sessionId, filter);
+    const rows = this.db.prepare(`SELECT data FROM entries WHERE ${where.sql} ORDER BY seq`)
+      .all(...where.params) as { data: string }[];
+    return rows.map(row => JSON.parse(row.data));
+  }
+
+  public close(): void {
+    this.stopSession();
+    this.db.close();
+  }
+}
@@ -1,17 +1,21 @@
 import * as fs from 'fs';
 import chalk from 'chalk';
+import { Redactor } from './redact';
 import { RequestLogEntry, SnifferConfig } from './types';
 
 export class Logger {
   private logStream: fs.WriteStream;
   private config: SnifferConfig;
+  private redactor: Redactor;
 
   constructor(config: SnifferConfig) {
     this.config = config;
+    this.redactor = new Redactor(config);
     this.logStream = fs.createWriteStream(config.logFile, { flags: 'a' });
   }
 
-  public logRequest(entry: RequestLogEntry): void {
+  public logRequest(original: RequestLogEntry): void {
+    const entry = this.redactor.redact(original);
     const flag = entry.watched ? chalk.yellow('⚠️  ') : '   ';
     const method = this.colorMethod(entry.method);
     const host = entry.watched ? chalk.yellow(entry.host) : chalk.gray(entry.host);
@@ -31,15 +35,31 @@ export class Logger {
     this.logStream.write(JSON.stringify(entry) + '\n');
   }
 
-  public logResponse(entry: RequestLogEntry): void {
-    if (entry.statusCode) {
+  public logResponse(original: RequestLogEntry): void {
+    const entry = this.redactor.redact(original);
+    const duration = entry.durationMs !== undefined ? chalk.gray(` ${entry.durationMs}ms`) : '';
+
+    if (entry.phase === 'error' || entry.phase === 'aborted') {
+      console.log(
+        chalk.gray('   ← ') +
+        chalk.red(entry.phase.toUpperCase()) +
+        chalk.gray(` ${entry.method} ${entry.host}${entry.path}`) +
+        (entry.error ? chalk.gray(`: ${entry.error}`) : '') +
+        duration
+      );
+    } else if (entry.statusCode && entry.method !== 'CONNECT') {
       const statusColor = this.getStatusColor(entry.statusCode);
       console.log(
         chalk.gray('   ← ') + 
         statusColor(`${entry.statusCode}`) +
-        (entry.responsePreview ? chalk.gray(` (${entry.responsePreview.length} bytes)`) : '')
+        (entry.responseSize ? chalk.gray(` (${entry.responseSize} bytes)`) : '') +
+        duration +
+        (entry.llm?.costUsd !== undefined ? chalk.magenta(` $${entry.llm.costUsd.toFixed(4)}`) : '')
       );
     }
+
+    // Write the completed entry so the log carries the response too
+    this.logStream.write(JSON.stringify(entry) + '\n');
   }
 
   private colorMethod(method: string): string {
@@ -75,19 +95,19 @@ export class Logger {
   }
 
   public info(message: string): void {
-    console.log(chalk.blue('ℹ️  ') + message);
+    console.log(chalk.blue('ℹ️  ') + this.redactor.text(message));
   }
 
   public success(message: string): void {
-    console.log(chalk.green('✅ ') + message);
+    console.log(chalk.green('✅ ') + this.redactor.text(message));
   }
 
   public warn(message: string): void {
-    console.log(chalk.yellow('⚠️  ') + message);
+    console.log(chalk.yellow('⚠️  ') + this.redactor.text(message));
   }
 
   public error(message: string): void {
-    console.log(chalk.red('❌ ') + message);
+    console.log(chalk.red('❌ ') + this.redactor.text(message));
   }
 
   public close(): void {
@@ -0,0 +1,205 @@
+import { DomainPolicy, INTERCEPT_POLICIES, RequestMatcher } from './types';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * The parts of a request a matcher looks at.
+ */
+export interface MatchTarget {
+  method: string;
+  /** Hostname without the port */
+  host: string;
+  /** Path including the query string */
+  path: string;
+  headers: Headers;
+}
+
+const compiled: Map<string, RegExp> = new Map();
+
+// Marks a pattern as a regex; paths such as `/v1/messages` are taken as they are
+const REGEX_PREFIX = 're:';
+
+function escapeRegex(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Compile a pattern: `re:` followed by a regex, a glob where `*` matches
+ * anything, or an exact string. Throws on an invalid regex.
+ */
+export function compilePattern(pattern: string, ignoreCase: boolean): RegExp {
+  const key = `${ignoreCase ? 'i' : 's'}:${pattern}`;
+  let regex = compiled.get(key);
+  if (!regex) {
+    if (pattern.startsWith(REGEX_PREFIX)) {
+      regex = new RegExp(pattern.substring(REGEX_PREFIX.length), ignoreCase ? 'i' : '');
+    } else {
+      const source = pattern.split('*').map(escapeRegex).join('.*');
+      regex = new RegExp(`^${source}$`, ignoreCase ? 'i' : '');
+    }
+    compiled.set(key, regex);
+  }
+  return regex;
+}
+
+export function matchesPattern(pattern: string, value: string, ignoreCase = true): boolean {
+  return compilePattern(pattern, ignoreCase).test(value);
+}
+
+/**
+ * Compile a pattern from `watchDomains` or `ignoreDomains`: `/regex/flags`
+ * (no hostname starts with a slash) or `re:regex`, a glob such as
+ * `*.anthropic.com` or `telemetry.*`, `.anthropic.com` for a domain and its
+ * subdomains, a name without dots for hosts with that label (`openai`
+ * matches `api.openai.com`, not `notopenai.com`), or an exact hostname.
+ * Throws on an invalid pattern.
+ */
+export function compileDomainPattern(pattern: string): RegExp {
+  if (!pattern.trim()) {
+    throw new Error('Domain pattern is empty');
+  }
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  if (!literal && (pattern.startsWith(REGEX_PREFIX) || pattern.includes('*'))) {
+    return compilePattern(pattern, true);
+  }
+  const key = `d:${pattern}`;
+  let regex = compiled.get(key);
+  if (!regex) {
+    if (literal) {
+      // The g and y flags make test() resume from the last match
+      regex = new RegExp(literal[1], literal[2].replace(/[gy]/g, ''));
+    } else if (pattern.startsWith('.')) {
+      regex = new RegExp(`(^|\\.)${escapeRegex(pattern.substring(1))}$`, 'i');
+    } else if (!pattern.includes('.')) {
+      regex = new RegExp(`(^|\\.)${escapeRegex(pattern)}(\\.|$)`, 'i');
+    } else {
+      regex = new RegExp(`^${escapeRegex(pattern)}$`, 'i');
+    }
+    compiled.set(key, regex);
+  }
+  return regex;
+}
+
+/**
+ * The hostname of a `Host` header or URL host, without the port.
+ */
+function hostnameOf(host: string): string {
+  const bracketed = /^\[([^\]]+)\](?::\d+)?$/.exec(host);
+  if (bracketed) {
+    return bracketed[1];
+  }
+  // More than one colon is a bare IPv6 address
+  const colon = host.indexOf(':');
+  return colon !== -1 && colon === host.lastIndexOf(':') ? host.substring(0, colon) : host;
+}
+
+/**
+ * Whether a host, with or without its port, matches any of the domain
+ * patterns.
+ */
+export function matchesDomain(patterns: string[], host: string): boolean {
+  const hostname = hostnameOf(host);
+  return patterns.some(pattern => compileDomainPattern(pattern).test(hostname));
+}
+
+/**
+ * Check a list of domain patterns, e.g. from the Web UI. Throws with the
+ * first problem found.
+ */
+export function validateDomainPatterns(patterns: unknown, field: string): string[] {
+  if (!Array.isArray(patterns)) {
+    throw new Error(`${field} must be a list of domain patterns`);
+  }
+  for (const pattern of patterns) {
+    if (typeof pattern !== 'string') {
+      throw new Error(`${field} must only hold strings`);
+    }
+    try {
+      compileDomainPattern(pattern);
+    } catch (err) {
+      throw new Error(`${field}: ${pattern}: ${(err as Error).message}`);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Check a list of domain policies, throwing on the first bad one.
+ */
+export function validateDomainPolicies(policies: unknown, field: string): DomainPolicy[] {
+  if (!Array.isArray(policies)) {
+    throw new Error(`${field} must be a list of { domain, policy }`);
+  }
+  for (const rule of policies) {
+    if (!rule || typeof rule.domain !== 'string') {
+      throw new Error(`${field} must only hold { domain, policy }`);
+    }
+    validateDomainPatterns([rule.domain], field);
+    if (!INTERCEPT_POLICIES.includes(rule.policy)) {
+      throw new Error(`${field}: ${rule.domain}: policy must be one of ${INTERCEPT_POLICIES.join(', ')}`);
+    }
+  }
+  return policies;
+}
+
+function headerValues(headers: Headers, name: string): string[] {
+  const value = headers[name.toLowerCase()];
+  if (value === undefined) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
+
+export function matchesRequest(matcher: RequestMatcher, target: MatchTarget): boolean {
+  if (matcher.method && !matchesPattern(matcher.method, target.method)) {
+    return false;
+  }
+  if (matcher.host && !matchesPattern(matcher.host, target.host)) {
+    return false;
+  }
+  if (matcher.path) {
+    const path = matcher.path.includes('?') ? target.path : target.path.split('?')[0];
+    if (!matchesPattern(matcher.path, path, false)) {
+      return false;
+    }
+  }
+  for (const [name, pattern] of Object.entries(matcher.headers || {})) {
+    if (!headerValues(target.headers, name).some(value => matchesPattern(pattern, value))) {
+      return false;
+    }
+  }
+  return true;
+}
+
+/**
+ * Check a matcher's shape and patterns, e.g. before saving it. Throws with
+ * the first problem found.
+ */
+export function validateMatcher(matcher: unknown): RequestMatcher {
+  if (!matcher || typeof matcher !== 'object' || Array.isArray(matcher)) {
+    throw new Error('match must be an object');
+  }
+  const { host, path, method, headers } = matcher as Record<string, unknown>;
+  for (const [field, value] of Object.entries({ host, path, method })) {
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== 'string') {
+      throw new Error(`match.${field} must be a string`);
+    }
+    compilePattern(value, true);
+  }
+  if (headers !== undefined) {
+    if (!headers || typeof headers !== 'object' || Array.isArray(headers)) {
+      throw new Error('match.headers must map header names to patterns');
+    }
+    for (const [name, value] of Object.entries(headers)) {
+      if (typeof value !== 'string') {
+        throw new Error(`match.headers.${name} must be a string`);
+      }
+      compilePattern(value, true);
+    }
+  }
+  return matcher as RequestMatcher;
+}
+
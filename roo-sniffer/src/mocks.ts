@@ -0,0 +1,356 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { bodyText, entryUrl } from './har';
+import { MatchTarget, matchesRequest, validateMatcher } from './matcher';
+import { Mock, MockEvent, RecordedResponse, RequestLogEntry, SnifferConfig } from './types';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+// Describe the body as it was sent upstream, not as the mock sends it
+const CAPTURED_ONLY_HEADERS = ['content-length', 'content-encoding', 'transfer-encoding', 'connection', 'keep-alive', 'date'];
+
+/**
+ * Where mocks live when no directory is configured: next to the log file,
+ * e.g. `roo_requests.log` -> `roo_requests-mocks/`.
+ */
+export function defaultMocksDir(logFile: string): string {
+  const parsed = path.parse(logFile);
+  return path.join(parsed.dir, `${parsed.name}-mocks`);
+}
+
+function isSafeId(id: string): boolean {
+  return /^[\w.-]+$/.test(id) && !id.startsWith('.');
+}
+
+function slugify(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'mock';
+}
+
+function isDelay(value: unknown): boolean {
+  return value === undefined || (typeof value === 'number' && Number.isFinite(value) && value >= 0);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+}
+
+function isHeaderValue(value: unknown): value is string | string[] {
+  return typeof value === 'string' || (Array.isArray(value) && value.every(v => typeof v === 'string'));
+}
+
+/**
+ * Check a mock loaded from a file or sent by the Web UI. Throws with the
+ * first problem found.
+ */
+export function validateMock(value: unknown, id: string): Mock {
+  if (!isObject(value)) {
+    throw new Error('A mock must be an object');
+  }
+  const mock = value;
+  validateMatcher(mock.match);
+  if (mock.enabled !== undefined && typeof mock.enabled !== 'boolean') {
+    throw new Error('enabled must be true or false');
+  }
+  if (mock.status !== undefined &&
+      !(typeof mock.status === 'number' && Number.isInteger(mock.status) && mock.status >= 100 && mock.status <= 999)) {
+    throw new Error('status must be a number from 100 to 999');
+  }
+  if (mock.headers !== undefined && !(isObject(mock.headers) && Object.values(mock.headers).every(isHeaderValue))) {
+    throw new Error('headers must map header names to strings or lists of strings');
+  }
+  if (mock.bodyBase64 !== undefined && typeof mock.bodyBase64 !== 'string') {
+    throw new Error('bodyBase64 must be a string');
+  }
+  if (mock.events !== undefined) {
+    if (!Array.isArray(mock.events)) {
+      throw new Error('events must be a list');
+    }
+    if (mock.body !== undefined || mock.bodyBase64 !== undefined) {
+      throw new Error('A mock has either events or a body, not both');
+    }
+    mock.events.forEach((event: unknown, i: number) => {
+      if (!isObject(event) || event.data === undefined) {
+        throw new Error(`events[${i}] must have data`);
+      }
+      if (event.event !== undefined && typeof event.event !== 'string') {
+        throw new Error(`events[${i}].event must be a string`);
+      }
+      if (!isDelay(event.delayMs)) {
+        throw new Error(`events[${i}].delayMs must be a non-negative number`);
+      }
+    });
+  }
+  if (!isDelay(mock.delayMs)) {
+    throw new Error('delayMs must be a non-negative number');
+  }
+
+  // Every field was checked above, or is free-form like the body
+  const { id: _id, name, ...rest } = mock;
+  return { id, name: typeof name === 'string' && name ? name : id, ...rest } as Mock;
+}
+
+function formatEvent(event: MockEvent): string {
+  const data = typeof event.data === 'string' ? event.data : JSON.stringify(event.data);
+  const lines = event.event ? [`event: ${event.event}`] : [];
+  for (const line of data.split('\n')) {
+    lines.push(`data: ${line}`);
+  }
+  return lines.join('\n') + '\n\n';
+}
+
+/**
+ * The status, headers and body a mock answers with. Event streams have no
+ * body; their events come from `mockEvents`.
+ */
+export function mockResponse(mock: RecordedResponse): { statusCode: number; headers: Headers; body?: Buffer } {
+  const headers: Headers = Object.fromEntries(
+    Object.entries(mock.headers || {}).map(([name, value]) => [name.toLowerCase(), value])
+  );
+  const statusCode = mock.status ?? 200;
+
+  if (mock.events) {
+    headers['content-type'] = headers['content-type'] || 'text/event-stream';
+    headers['cache-control'] = headers['cache-control'] || 'no-cache';
+    return { statusCode, headers };
+  }
+
+  let body: Buffer;
+  if (mock.bodyBase64 !== undefined) {
+    body = Buffer.from(mock.bodyBase64, 'base64');
+  } else if (typeof mock.body === 'string') {
+    body = Buffer.from(mock.body, 'utf8');
+  } else if (mock.body !== undefined) {
+    body = Buffer.from(JSON.stringify(mock.body));
+    headers['content-type'] = headers['content-type'] || 'application/json';
+  } else {
+    body = Buffer.alloc(0);
+  }
+  headers['content-length'] = String(body.length);
+  return { statusCode, headers, body };
+}
+
+/**
+ * The events of a mocked stream, serialized, with the delay before each.
+ */
+export function mockEvents(mock: RecordedResponse): { delayMs: number; chunk: Buffer }[] {
+  return (mock.events || []).map(event => ({
+    delayMs: event.delayMs ?? 0,
+    chunk: Buffer.from(formatEvent(event)),
+  }));
+}
+
+/**
+ * A captured response in the form mocks answer with. Streams keep their
+ * event timing. Throws when the response body wasn't captured in full.
+ */
+export async function responseFromEntry(
+  entry: RequestLogEntry,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): Promise<RecordedResponse> {
+  if (entry.statusCode === undefined) {
+    throw new Error('This request has no response');
+  }
+
+  const response: RecordedResponse = { status: entry.statusCode };
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(entry.responseHeaders || {})) {
+    if (value !== undefined && !CAPTURED_ONLY_HEADERS.includes(name.toLowerCase())) {
+      headers[name] = value;
+    }
+  }
+  if (Object.keys(headers).length > 0) {
+    response.headers = headers;
+  }
+
+  if (entry.sseEvents && entry.sseEvents.length > 0) {
+    if (entry.sseEventsTruncated) {
+      throw new Error('Too many stream events to replay; only the first ones were captured');
+    }
+    let previous = entry.ttfbMs ?? 0;
+    response.delayMs = previous;
+    response.events = entry.sseEvents.map((event) => {
+      const delayMs = Math.max(0, event.offsetMs - previous);
+      previous = event.offsetMs;
+      return event.event ? { event: event.event, data: event.data, delayMs } : { data: event.data, delayMs };
+    });
+    return response;
+  }
+
+  const body = await bodyText(entry.responseBody, entry.responsePreview, entry.responseBinary, blobs);
+  if (!body) {
+    if (entry.statusCode === 204 || entry.statusCode === 304) {
+      return response;
+    }
+    throw new Error('The response body wasn\'t captured; start with --store-bodies to keep it');
+  }
+  // A preview is only the whole body if it's text short enough not to be cut
+  if (body.truncated && (body.base64 || body.text.length > config.previewLimit)) {
+    throw new Error('Only a preview of the response body was captured; start with --store-bodies to keep all of it');
+  }
+  if (body.base64) {
+    response.bodyBase64 = body.text;
+  } else {
+    try {
+      response.body = JSON.parse(body.text);
+    } catch {
+      response.body = body.text;
+    }
+  }
+  return response;
+}
+
+/**
+ * Build a mock that answers requests like this one the way it was
+ * answered.
+ */
+export async function mockFromEntry(
+  entry: RequestLogEntry,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): Promise<Omit<Mock, 'id'>> {
+  const response = await responseFromEntry(entry, config, blobs);
+
+  // Matchers compare the hostname without the port
+  let hostname = entry.host.split(':')[0];
+  let pathname = entry.path.split('?')[0];
+  try {
+    const url = new URL(entryUrl(entry));
+    hostname = url.hostname;
+    pathname = url.pathname;
+  } catch {
+    // Keep the host and path as logged
+  }
+  return {
+    name: `${entry.method} ${hostname}${pathname}`,
+    match: { method: entry.method, host: hostname, path: pathname },
+    ...response,
+  };
+}
+
+/**
+ * The mocks in the mocks directory, one JSON file each. The directory is
+ * watched, so mocks can be written by hand as well as from the Web UI.
+ */
+export class MockStore {
+  private dir: string;
+  private mocks: Mock[] = [];
+  private loadErrors: string[] = [];
+  private watcher: fs.FSWatcher | null = null;
+  private watching = false;
+  private reloadTimer: NodeJS.Timeout | undefined;
+  public onReload: ((mocks: Mock[], errors: string[]) => void) | null = null;
+
+  constructor(config: SnifferConfig) {
+    this.dir = config.mocksDir || defaultMocksDir(config.logFile);
+    this.load();
+  }
+
+  public getDir(): string {
+    return this.dir;
+  }
+
+  public list(): Mock[] {
+    return this.mocks;
+  }
+
+  /** Files that couldn't be loaded; they are skipped */
+  public getErrors(): string[] {
+    return this.loadErrors;
+  }
+
+  private load(): void {
+    const mocks: Mock[] = [];
+    const errors: string[] = [];
+    const files = fs.existsSync(this.dir) ? fs.readdirSync(this.dir).filter(f => f.endsWith('.json')).sort() : [];
+    for (const file of files) {
+      const id = file.slice(0, -'.json'.length);
+      // Ids end up in the Web UI's handlers and in file paths
+      if (!isSafeId(id)) {
+        errors.push(`${file}: the file name must use only letters, digits, '_', '-' and '.'`);
+        continue;
+      }
+      try {
+        mocks.push(validateMock(JSON.parse(fs.readFileSync(path.join(this.dir, file), 'utf8')), id));
+      } catch (err) {
+        errors.push(`${file}: ${(err as Error).message}`);
+      }
+    }
+    this.mocks = mocks;
+    this.loadErrors = errors;
+  }
+
+  /**
+   * Reload whenever a file in the directory changes. The directory may
+   * only appear once the first mock is saved.
+   */
+  public watch(): void {
+    this.watching = true;
+    if (this.watcher || !fs.existsSync(this.dir)) {
+      return;
+    }
+    this.watcher = fs.watch(this.dir, () => {
+      // Editors fire several events per save
+      clearTimeout(this.reloadTimer);
+      this.reloadTimer = setTimeout(() => {
+        this.load();
+        this.onReload?.(this.mocks, this.loadErrors);
+      }, 100);
+    });
+  }
+
+  /**
+   * Save a mock, replacing the one with the same id or adding a new one
+   * named after it. Throws if it is invalid.
+   */
+  public save(value: unknown, id?: string): Mock {
+    if (id !== undefined && !isSafeId(id)) {
+      throw new Error(`Invalid mock id: ${id}`);
+    }
+    const name = (value as { name?: unknown })?.name;
+    const newId = id ?? this.uniqueId(slugify(typeof name === 'string' ? name : ''));
+    const { id: _id, ...mock } = validateMock(value, newId);
+
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, `${newId}.json`), JSON.stringify(mock, null, 2) + '\n');
+    this.load();
+    if (this.watching) {
+      this.watch();
+    }
+    return { id: newId, ...mock };
+  }
+
+  private uniqueId(base: string): string {
+    let id = base;
+    for (let n = 2; fs.existsSync(path.join(this.dir, `${id}.json`)); n++) {
+      id = `${base}-${n}`;
+    }
+    return id;
+  }
+
+  public remove(id: string): boolean {
+    const file = path.join(this.dir, `${id}.json`);
+    if (!isSafeId(id) || !fs.existsSync(file)) {
+      return false;
+    }
+    fs.unlinkSync(file);
+    this.load();
+    return true;
+  }
+
+  /**
+   * The first enabled mock matching a request, in file name order.
+   */
+  public match(target: MatchTarget): Mock | undefined {
+    return this.mocks.find(mock => mock.enabled !== false && matchesRequest(mock.match, target));
+  }
+
+  public close(): void {
+    clearTimeout(this.reloadTimer);
+    this.watcher?.close();
+    this.watcher = null;
+    this.watching = false;
+  }
+}
@@ -0,0 +1,91 @@
+import { ModelPrice, TokenUsage } from './types';
+
+/**
+ * Built-in list prices in USD per million tokens. A key also prices dated
+ * or numbered snapshots of its model, like `claude-sonnet-4-20250514`, and
+ * the longest matching key wins. Named variants such as `o3-pro` need keys
+ * of their own.
+ */
+export const DEFAULT_PRICES: Record<string, ModelPrice> = {
+  'claude-opus-4-5': { input: 5, output: 25, cacheRead: 0.5, cacheWrite: 6.25 },
+  'claude-opus-4': { input: 15, output: 75, cacheRead: 1.5, cacheWrite: 18.75 },
+  'claude-sonnet-4': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-7-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-3-5-sonnet': { input: 3, output: 15, cacheRead: 0.3, cacheWrite: 3.75 },
+  'claude-haiku-4-5': { input: 1, output: 5, cacheRead: 0.1, cacheWrite: 1.25 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, cacheRead: 0.08, cacheWrite: 1 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, cacheRead: 0.03, cacheWrite: 0.3 },
+  'gpt-5': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-chat': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-codex': { input: 1.25, output: 10, cacheRead: 0.125 },
+  'gpt-5-pro': { input: 15, output: 120 },
+  'gpt-5-mini': { input: 0.25, output: 2, cacheRead: 0.025 },
+  'gpt-5-nano': { input: 0.05, output: 0.4, cacheRead: 0.005 },
+  'gpt-4.1': { input: 2, output: 8, cacheRead: 0.5 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, cacheRead: 0.1 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, cacheRead: 0.025 },
+  'gpt-4o': { input: 2.5, output: 10, cacheRead: 1.25 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, cacheRead: 0.075 },
+  'o1': { input: 15, output: 60, cacheRead: 7.5 },
+  'o1-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'o1-pro': { input: 150, output: 600 },
+  'o3': { input: 2, output: 8, cacheRead: 0.5 },
+  'o3-pro': { input: 20, output: 80 },
+  'o3-mini': { input: 1.1, output: 4.4, cacheRead: 0.55 },
+  'o4-mini': { input: 1.1, output: 4.4, cacheRead: 0.275 },
+};
+
+/**
+ * Strip gateway and region prefixes so `anthropic/claude-sonnet-4` (OpenRouter)
+ * and `us.anthropic.claude-sonnet-4-...` (Bedrock) price like the bare model.
+ */
+export function normalizeModelName(model: string): string {
+  let name = model.toLowerCase().trim();
+  const slash = name.lastIndexOf('/');
+  if (slash !== -1) {
+    name = name.substring(slash + 1);
+  }
+  name = name.replace(/^(us|eu|apac|global)\./, '').replace(/^anthropic\./, '');
+  // OpenRouter variants such as ':thinking' or ':free'
+  name = name.split(':')[0];
+  // OpenRouter spells Claude versions with dots (claude-opus-4.5)
+  if (name.startsWith('claude')) {
+    name = name.replace(/(\d)\.(\d)/g, '$1-$2');
+  }
+  return name;
+}
+
+/**
+ * Whether `name` is the model `key` or a snapshot of it: the key followed by
+ * a version or date (`-4-5`, `-20250514`, `-2024-08-06`) or `-latest`, but
+ * not by a variant name (`-pro`, `-mini`).
+ */
+function isSnapshotOf(name: string, key: string): boolean {
+  if (!name.startsWith(key)) {
+    return false;
+  }
+  const rest = name.substring(key.length);
+  return rest === '' || /^-(\d|latest$)/.test(rest);
+}
+
+export function priceFor(model: string, prices: Record<string, ModelPrice>): ModelPrice | undefined {
+  const name = normalizeModelName(model);
+  let best: string | undefined;
+
+  for (const key of Object.keys(prices)) {
+    const prefix = key.toLowerCase();
+    if (isSnapshotOf(name, prefix) && (!best || prefix.length > best.length)) {
+      best = key;
+    }
+  }
+  return best ? prices[best] : undefined;
+}
+
+export function costOf(usage: TokenUsage, price: ModelPrice): number {
+  const cost =
+    usage.inputTokens * price.input +
+    usage.outputTokens * price.output +
+    usage.cacheReadTokens * (price.cacheRead ?? price.input) +
+    usage.cacheWriteTokens * (price.cacheWrite ?? price.input);
+  return cost / 1_000_000;
+}
@@ -1,148 +1,775 @@
 import * as http from 'http';
+import * as http2 from 'http2';
 import * as https from 'https';
 import * as net from 'net';
 import * as tls from 'tls';
 import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { BreakpointManager } from './breakpoints';
+import { captureRequestBody, ResponseCapture } from './capture';
 import { CertificateManager } from './certs';
+import { capturesBodies, capturesHeaders, createEntry, finishEntry, isFinished, markResponseStarted } from './entries';
+import { CONNECTION_HEADERS, Http2Sessions, UpstreamRequest } from './h2';
+import { HistoryStore } from './history';
 import { Logger } from './logger';
-import { RequestLogEntry, SnifferConfig } from './types';
+import { MatchTarget, matchesDomain } from './matcher';
+import { mockEvents, mockResponse, MockStore } from './mocks';
+import { fingerprint, RecordingStore } from './recordings';
+import { resendRequest } from './resend';
+import { editsResponseBody, IncomingResponse, OutgoingRequest, rewriteRequest, rewriteResponse, RulesEngine } from './rules';
+import { isEventStream } from './sse';
+import { clientHelloServerName } from './sni';
+import { StatsTracker } from './stats';
+import { CertificateInfo, InterceptPolicy, RecordedResponse, RequestLogEntry, RequestPhase, ResendEdit, RewriteRule, SnifferConfig } from './types';
 import { WebUI } from './webui';
+import { isWebSocketUpgrade, WebSocketRecorder } from './websocket';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * An intercepted CONNECT tunnel. Its decrypted socket is handed to the
+ * proxy's own HTTP server, so requests inside it go through the same
+ * handler as plain HTTP.
+ */
+interface Tunnel {
+  hostname: string;
+  port: number;
+  clientId?: string;
+  policy: InterceptPolicy;
+}
+
+// Meant for the proxy, not the upstream. Node's server has already sent any
+// `100 Continue`, and the body is read in full before it's forwarded.
+const PROXY_HEADERS = ['proxy-connection', 'proxy-authorization', 'expect'];
+
+/**
+ * A message's headers with repeated ones kept as arrays, where `headers`
+ * joins them or keeps only the first. HTTP/2 pseudo-headers are left out.
+ */
+function distinctHeaders(message: { rawHeaders: string[] }): Headers {
+  const headers: Headers = {};
+  for (let i = 0; i < message.rawHeaders.length; i += 2) {
+    const name = message.rawHeaders[i].toLowerCase();
+    const value = message.rawHeaders[i + 1];
+    const existing = headers[name];
+    if (name.startsWith(':')) {
+      continue;
+    }
+    headers[name] = existing === undefined ? value : Array.isArray(existing) ? [...existing, value] : [existing, value];
+  }
+  return headers;
+}
+
+/**
+ * Headers for a response to the client. HTTP/2 has no connection-level
+ * headers, and node refuses to send them.
+ */
+function clientHeaders(clientRes: http.ServerResponse, headers: Headers): Headers {
+  if (!(clientRes instanceof http2.Http2ServerResponse)) {
+    return headers;
+  }
+  const allowed = { ...headers };
+  for (const name of Object.keys(allowed)) {
+    if (CONNECTION_HEADERS.includes(name.toLowerCase())) {
+      delete allowed[name];
+    }
+  }
+  return allowed;
+}
+
+/**
+ * Serialize a response head for a raw socket, keeping header case and order.
+ */
+function responseHead(res: http.IncomingMessage): string {
+  const lines = [`HTTP/1.1 ${res.statusCode} ${res.statusMessage}`];
+  for (let i = 0; i < res.rawHeaders.length; i += 2) {
+    lines.push(`${res.rawHeaders[i]}: ${res.rawHeaders[i + 1]}`);
+  }
+  return lines.join('\r\n') + '\r\n\r\n';
+}
 
 export class ProxyServer {
   private config: SnifferConfig;
   private server: http.Server;
   private certManager: CertificateManager;
   private logger: Logger;
+  private stats: StatsTracker;
+  private blobs: BlobStore | null;
+  private history: HistoryStore | null;
+  private rules: RulesEngine;
+  private breakpoints: BreakpointManager;
+  private mocks: MockStore;
+  private recorder: RecordingStore | null;
+  private replayer: RecordingStore | null;
+  private tunnels: WeakMap<net.Socket, Tunnel> = new WeakMap();
+  // Entries for ignored domains; they are handled but never logged
+  private ignored: WeakSet<RequestLogEntry> = new WeakSet();
+  // Keeps upstream connections alive across requests, as the client's were
+  private httpsAgent = new https.Agent({ keepAlive: true });
+  private h2Sessions = new Http2Sessions();
   private webUI: WebUI | null = null;
   private onRequest: ((entry: RequestLogEntry) => void) | null = null;
+  private onUpdate: ((entry: RequestLogEntry) => void) | null = null;
 
   constructor(config: SnifferConfig, uiPort?: number) {
     this.config = config;
     this.certManager = new CertificateManager(config.certDir);
     this.logger = new Logger(config);
+    this.stats = new StatsTracker(config);
+    // Recordings need whole bodies
+    this.blobs = config.storeBodies || config.recordDir ? new BlobStore(config) : null;
+    this.history = config.history ? new HistoryStore(config) : null;
+    this.history?.startSession(config.sessionName);
+    this.rules = new RulesEngine(config.rulesFile);
+    this.breakpoints = new BreakpointManager(config);
+    this.mocks = new MockStore(config);
+    this.recorder = config.recordDir ? new RecordingStore(config.recordDir) : null;
+    this.replayer = config.replayDir ? new RecordingStore(config.replayDir) : null;
     this.server = http.createServer(this.handleRequest.bind(this));
     this.server.on('connect', this.handleConnect.bind(this));
+    this.server.on('upgrade', this.handleUpgrade.bind(this));
     
     if (uiPort) {
-      this.webUI = new WebUI(config, uiPort);
-      this.onRequest = (entry) => this.webUI?.addRequest(entry);
+      this.webUI = new WebUI(config, uiPort, this.stats, this.blobs, this.history);
+      this.webUI.setRules(this.rules);
+      this.webUI.setBreakpoints(this.breakpoints);
+      this.webUI.setMocks(this.mocks);
+      this.webUI.setCertificates(this.certManager);
+      this.webUI.onResend = (entry, edit) => this.resend(entry, edit);
+      this.webUI.onError = (message) => this.logger.error(message);
+    }
+
+    this.certManager.onError = (message) => this.logger.warn(message);
+    if (this.blobs) {
+      this.blobs.onError = (message) => this.logger.error(message);
+    }
+
+    this.rules.onReload = (rules, error) => {
+      if (error) {
+        this.logger.error(`Rules not reloaded: ${error}`);
+      } else {
+        this.logger.info(`Reloaded ${rules.length} rewrite rules from ${this.rules.getFile()}`);
+      }
+    };
+
+    this.mocks.onReload = (mocks, errors) => {
+      for (const error of errors) {
+        this.logger.error(`Mock not loaded: ${error}`);
+      }
+      this.logger.info(`Reloaded ${mocks.length} mocks from ${this.mocks.getDir()}`);
+    };
+
+    this.breakpoints.onPause = (message) => {
+      this.logger.info(`⏸  Paused ${message.stage} of ${message.method} ${message.url} at a breakpoint`);
+      this.webUI?.addPaused(message);
+    };
+    this.breakpoints.onResume = (id, edit, timedOut) => {
+      if (timedOut) {
+        this.logger.warn(`Breakpoint timed out after ${this.config.breakpointTimeoutMs / 1000}s; forwarded unchanged`);
+      }
+      this.webUI?.removePaused(id);
+    };
+
+    this.onRequest = (entry) => {
+      if (this.ignored.has(entry)) {
+        return;
+      }
+      this.saveHistory(entry);
+      this.webUI?.addRequest(entry);
+    };
+    this.onUpdate = (entry) => {
+      if (this.ignored.has(entry)) {
+        return;
+      }
+      this.saveHistory(entry);
+      this.webUI?.updateRequest(entry);
+    };
+  }
+
+  private saveHistory(entry: RequestLogEntry): void {
+    // A busy or full database loses this entry, not the exchange
+    try {
+      this.history?.save(entry);
+    } catch (err) {
+      this.logger.error(`History not saved for ${entry.method} ${entry.host}${entry.path}: ${(err as Error).message}`);
+    }
+  }
+
+  private captureResponse(entry: RequestLogEntry): ResponseCapture {
+    return new ResponseCapture(entry, this.config, this.blobs, (completed) => {
+      this.finish(completed, 'complete');
+    });
+  }
+
+  private finish(entry: RequestLogEntry, phase: Exclude<RequestPhase, 'pending'>, error?: string): void {
+    if (finishEntry(entry, phase, error) && !this.ignored.has(entry)) {
+      if (phase === 'complete') {
+        this.stats.record(entry);
+      }
+      this.logger.logResponse(entry);
+      this.onUpdate?.(entry);
+      this.recorder?.record(entry, this.config, this.blobs).catch((err) => {
+        this.logger.warn(`Not recorded: ${entry.method} ${entry.host}${entry.path}: ${err.message}`);
+      });
+    }
+  }
+
+  /**
+   * Apps launched from the Web UI get proxy credentials naming them, so their
+   * traffic can be attributed. Any username set in HTTP(S)_PROXY works.
+   */
+  private clientIdFrom(headers: http.IncomingHttpHeaders): string | undefined {
+    const auth = headers['proxy-authorization'];
+    const match = auth ? /^Basic\s+(.+)$/i.exec(auth) : null;
+    if (!match) {
+      return undefined;
+    }
+    const username = Buffer.from(match[1], 'base64').toString('utf8').split(':')[0];
+    return username || undefined;
+  }
+
+  private logRequest(entry: RequestLogEntry): void {
+    if (!this.ignored.has(entry)) {
+      this.logger.logRequest(entry);
+    }
+  }
+
+  private isIgnoredDomain(host: string): boolean {
+    return matchesDomain(this.config.ignoreDomains, host);
+  }
+
+  /**
+   * How much of a host's traffic to see: the first domain policy matching
+   * it, else `full` for watched hosts and `metadata` for the rest.
+   */
+  private policyFor(host: string): InterceptPolicy {
+    if (this.isIgnoredDomain(host)) {
+      return 'passthrough';
+    }
+    const rule = this.config.domainPolicies.find(rule => matchesDomain([rule.domain], host));
+    if (rule) {
+      return rule.policy;
+    }
+    return matchesDomain(this.config.watchDomains, host) ? 'full' : 'metadata';
+  }
+
+  /**
+   * Where a request is going: the absolute URL of a plain proxy request, or
+   * the tunnel's host for one arriving through an intercepted CONNECT.
+   */
+  private targetOf(req: http.IncomingMessage): URL {
+    const url = req.url || '/';
+    const tunnel = this.tunnels.get(req.socket);
+    if (tunnel) {
+      return new URL(`https://${tunnel.hostname}:${tunnel.port}${url}`);
+    }
+    if (url.startsWith('http://') || url.startsWith('https://')) {
+      return new URL(url);
+    }
+    return new URL(`http://${req.headers.host || 'unknown'}${url}`);
+  }
+
+  private newEntry(req: http.IncomingMessage, startedAt?: Date): RequestLogEntry {
+    const tunnel = this.tunnels.get(req.socket);
+    const host = req.headers.host || 'unknown';
+    const policy = tunnel ? tunnel.policy : this.policyFor(host);
+    // Intercepted requests log the tunnel's host and the path, as sent
+    const entry = createEntry({
+      method: req.method || 'GET',
+      host: tunnel ? tunnel.hostname : host,
+      path: req.url || '/',
+      watched: policy === 'headers' || policy === 'full',
+      policy,
+      clientId: tunnel ? tunnel.clientId : this.clientIdFrom(req.headers),
+      httpVersion: req.httpVersion,
+    }, startedAt);
+    if (!tunnel && this.isIgnoredDomain(host)) {
+      this.ignored.add(entry);
+    }
+    return entry;
+  }
+
+  private outgoingHeaders(req: http.IncomingMessage): Headers {
+    const headers = distinctHeaders(req);
+    for (const name of PROXY_HEADERS) {
+      delete headers[name];
     }
+    return headers;
   }
 
-  private isWatchedDomain(host: string): boolean {
-    return this.config.watchDomains.some(domain => host.includes(domain));
+  private sendUpstream(target: URL, method: string, headers: Headers): http.ClientRequest {
+    const options: https.RequestOptions = {
+      hostname: target.hostname,
+      port: target.port || (target.protocol === 'https:' ? 443 : 80),
+      path: target.pathname + target.search,
+      method,
+      headers,
+    };
+    if (target.protocol === 'https:') {
+      return https.request({
+        ...options,
+        agent: this.httpsAgent,
+        servername: net.isIP(target.hostname) ? undefined : target.hostname,
+        rejectUnauthorized: false, // Allow self-signed certs for interception
+      });
+    }
+    return http.request(options);
   }
 
-  private async handleRequest(
+  /**
+   * Send a request upstream over HTTP/2 when the client spoke it and the
+   * upstream offers it, otherwise over HTTP/1.1.
+   */
+  private async forward(outgoing: OutgoingRequest, httpVersion: string): Promise<UpstreamRequest> {
+    if (httpVersion === '2.0' && outgoing.url.protocol === 'https:') {
+      const request = await this.h2Sessions.request(outgoing.url, outgoing.method, outgoing.headers);
+      if (request) {
+        return request;
+      }
+    }
+    return this.sendUpstream(outgoing.url, outgoing.method, outgoing.headers);
+  }
+
+  private handleRequest(
     clientReq: http.IncomingMessage,
     clientRes: http.ServerResponse
-  ): Promise<void> {
-    const url = clientReq.url || '/';
-    const host = clientReq.headers.host || 'unknown';
-    const method = clientReq.method || 'GET';
-    const isWatched = this.isWatchedDomain(host);
+  ): void {
+    const startedAt = new Date();
 
     // Collect request body
     const bodyChunks: Buffer[] = [];
     clientReq.on('data', (chunk: Buffer) => bodyChunks.push(chunk));
 
     clientReq.on('end', () => {
-      const body = Buffer.concat(bodyChunks);
-      
-      // Log the request
-      const entry: RequestLogEntry = {
-        timestamp: new Date().toISOString(),
-        method,
-        host,
-        path: url,
-        watched: isWatched,
-      };
+      const entry = this.newEntry(clientReq, startedAt);
+      // Whatever goes wrong fails this exchange, not the proxy
+      this.exchange(clientReq, clientRes, entry, Buffer.concat(bodyChunks)).catch((err: Error) => {
+        this.failExchange(entry, clientRes, err);
+      });
+    });
+  }
 
-      if (isWatched && ['POST', 'PUT', 'PATCH'].includes(method) && body.length > 0) {
-        try {
-          const bodyText = body.toString('utf8');
-          entry.bodyPreview = bodyText.length > 500 
-            ? bodyText.substring(0, 500) + '...' 
-            : bodyText;
-        } catch {
-          entry.bodyPreview = '<binary>';
-        }
-      }
+  /**
+   * Answer a request that has arrived in full: through rules, breakpoints,
+   * mocks and recordings, then upstream, relaying the response.
+   */
+  private async exchange(
+    clientReq: http.IncomingMessage,
+    clientRes: http.ServerResponse,
+    entry: RequestLogEntry,
+    body: Buffer
+  ): Promise<void> {
+    const url = clientReq.url || '/';
+    const method = clientReq.method || 'GET';
 
-      if (this.config.verbose) {
-        entry.headers = clientReq.headers as Record<string, string | string[] | undefined>;
+    // Parse the target URL
+    let targetUrl: URL;
+    try {
+      targetUrl = this.targetOf(clientReq);
+    } catch (e) {
+      this.logRequest(entry);
+      this.onRequest?.(entry);
+      clientRes.writeHead(400, { 'Content-Type': 'text/plain' });
+      clientRes.end('Bad Request');
+      this.finish(entry, 'error', `Invalid URL: ${url}`);
+      return;
+    }
+
+    const outgoing: OutgoingRequest = {
+      method,
+      url: targetUrl,
+      headers: this.outgoingHeaders(clientReq),
+      body,
+    };
+    const target: MatchTarget = {
+      method,
+      host: targetUrl.hostname,
+      path: targetUrl.pathname + targetUrl.search,
+      headers: outgoing.headers,
+    };
+    const rules = this.rules.match(target);
+    if (rules.length > 0) {
+      this.applyRequestRules(entry, rules, outgoing);
+    }
+    const stops = this.breakpoints.match(target);
+
+    let proxyReq: UpstreamRequest | undefined;
+
+    // Client went away before the response finished
+    clientRes.on('close', () => {
+      if (!clientRes.writableFinished) {
+        proxyReq?.destroy();
+        this.breakpoints.resume(entry.id, { action: 'drop' });
+        delete entry.paused;
+        this.finish(entry, 'aborted', 'Client closed the connection');
       }
+    });
 
-      this.logger.logRequest(entry);
+    if (stops.request) {
+      // Listed as paused now; logged once it's sent
+      entry.paused = 'request';
       this.onRequest?.(entry);
-
-      // Parse the target URL
-      let targetUrl: URL;
-      try {
-        if (url.startsWith('http://') || url.startsWith('https://')) {
-          targetUrl = new URL(url);
-        } else {
-          targetUrl = new URL(`http://${host}${url}`);
-        }
-      } catch (e) {
-        clientRes.writeHead(400, { 'Content-Type': 'text/plain' });
-        clientRes.end('Bad Request');
+      const action = await this.breakpoints.pauseRequest(entry.id, outgoing);
+      delete entry.paused;
+      if (action === 'drop') {
+        this.drop(entry, clientRes, 'Request dropped at a breakpoint');
         return;
       }
+    }
+    const mock = this.mocks.match(target);
+    let replayed: RecordedResponse | undefined;
+    let replayMiss: string | undefined;
+    if (!mock && this.replayer && capturesBodies(entry)) {
+      const key = fingerprint(outgoing);
+      try {
+        replayed = this.replayer.next(key);
+      } catch (err) {
+        this.logger.error(`Recording ${key} can't be read: ${(err as Error).message}`);
+      }
+      if (replayed) {
+        entry.replayed = key;
+      } else {
+        replayMiss = `No recording of ${outgoing.method} ${outgoing.url} (fingerprint ${key}) in ${this.replayer.getDir()}`;
+      }
+    }
+    if (mock) {
+      entry.mock = mock.name;
+    } else if (!replayed && outgoing.url.toString() !== targetUrl.toString()) {
+      entry.upstreamUrl = outgoing.url.toString();
+    }
 
-      // Forward the request
-      const options: http.RequestOptions = {
-        hostname: targetUrl.hostname,
-        port: targetUrl.port || 80,
-        path: targetUrl.pathname + targetUrl.search,
-        method,
-        headers: { ...clientReq.headers },
-      };
+    // What's captured is what the upstream is sent
+    captureRequestBody(entry, outgoing.body, outgoing.headers, this.config, this.blobs);
 
-      // Remove proxy-specific headers
-      if (options.headers && typeof options.headers === 'object' && !Array.isArray(options.headers)) {
-        delete (options.headers as Record<string, unknown>)['proxy-connection'];
-      }
+    if (capturesHeaders(entry, this.config)) {
+      entry.headers = outgoing.headers;
+    }
 
-      const proxyReq = http.request(options, (proxyRes) => {
-        // Collect response for logging
-        const responseChunks: Buffer[] = [];
-        
-        proxyRes.on('data', (chunk: Buffer) => {
-          responseChunks.push(chunk);
-          clientRes.write(chunk);
-        });
+    this.logRequest(entry);
+    if (stops.request) {
+      this.onUpdate?.(entry);
+    } else {
+      this.onRequest?.(entry);
+    }
 
-        proxyRes.on('end', () => {
-          const responseBody = Buffer.concat(responseChunks);
-          
-          if (isWatched && this.config.verbose) {
-            try {
-              entry.responsePreview = responseBody.toString('utf8').substring(0, 500);
-            } catch {
-              entry.responsePreview = '<binary>';
+    if (mock) {
+      this.serveMock(entry, mock, clientRes);
+      return;
+    }
+    if (replayed) {
+      this.serveMock(entry, replayed, clientRes, this.config.replaySpeed);
+      return;
+    }
+    if (replayMiss && this.config.replayMisses === 'fail') {
+      this.logger.error(replayMiss);
+      clientRes.writeHead(502, { 'Content-Type': 'application/json' });
+      clientRes.end(JSON.stringify({ error: { type: 'replay_miss', message: replayMiss } }));
+      this.finish(entry, 'error', replayMiss);
+      return;
+    }
+    if (replayMiss) {
+      this.logger.warn(`${replayMiss}; sending it upstream`);
+    }
+    if (this.recorder && capturesBodies(entry)) {
+      this.recorder.track(entry.id, outgoing);
+    }
+
+    const upstreamError = (err: Error) => this.failExchange(entry, clientRes, err);
+    try {
+      proxyReq = await this.forward(outgoing, clientReq.httpVersion);
+    } catch (err) {
+      upstreamError(err as Error);
+      return;
+    }
+    if (isFinished(entry)) {
+      // The client left while the upstream connection was set up
+      proxyReq.destroy();
+      return;
+    }
+
+    proxyReq.on('response', (proxyRes) => {
+      markResponseStarted(entry);
+      if (proxyRes.httpVersion !== entry.httpVersion) {
+        entry.upstreamHttpVersion = proxyRes.httpVersion;
+      }
+      const response: IncomingResponse = { statusCode: proxyRes.statusCode || 200, headers: distinctHeaders(proxyRes) };
+      const responseRules = rules.filter(rule => rule.response);
+
+      // Breakpoints and body edits need the whole body; streams are only re-headed
+      if (stops.response || (editsResponseBody(responseRules) && !isEventStream(proxyRes.headers))) {
+        const chunks: Buffer[] = [];
+        proxyRes.on('data', (chunk: Buffer) => chunks.push(chunk));
+        proxyRes.on('end', async () => {
+          try {
+            response.body = Buffer.concat(chunks);
+            if (responseRules.length > 0) {
+              this.applyResponseRules(entry, responseRules, response);
+            }
+            if (stops.response) {
+              entry.paused = 'response';
+              this.onUpdate?.(entry);
+              const action = await this.breakpoints.pauseResponse(entry.id, outgoing, response);
+              delete entry.paused;
+              if (action === 'drop') {
+                this.drop(entry, clientRes, 'Response dropped at a breakpoint');
+                return;
+              }
             }
+            const capture = this.captureResponse(entry);
+            capture.head(response.statusCode, response.headers);
+            capture.write(response.body);
+            capture.end();
+            clientRes.writeHead(response.statusCode, clientHeaders(clientRes, response.headers));
+            clientRes.end(response.body);
+          } catch (err) {
+            this.failExchange(entry, clientRes, err as Error);
           }
-          
-          entry.statusCode = proxyRes.statusCode;
-          this.logger.logResponse(entry);
-          clientRes.end();
         });
+        return;
+      }
+
+      if (responseRules.length > 0) {
+        this.applyResponseRules(entry, responseRules, response);
+      }
+
+      // Collect response for logging
+      const capture = this.captureResponse(entry);
+      capture.head(response.statusCode, response.headers);
 
-        clientRes.writeHead(proxyRes.statusCode || 200, proxyRes.headers);
+      proxyRes.on('data', (chunk: Buffer) => {
+        capture.write(chunk);
+        clientRes.write(chunk);
       });
 
+      proxyRes.on('end', () => {
+        capture.end();
+        clientRes.end();
+      });
+
+      clientRes.writeHead(response.statusCode, clientHeaders(clientRes, response.headers));
+    });
+
+    proxyReq.on('error', upstreamError);
+
+    if (outgoing.body.length > 0) {
+      proxyReq.write(outgoing.body);
+    }
+    proxyReq.end();
+  }
+
+  /**
+   * Answer a request that couldn't be sent or relayed with a 502.
+   */
+  private failExchange(entry: RequestLogEntry, clientRes: http.ServerResponse, err: Error): void {
+    this.logger.error(`Proxy request error: ${err.message}`);
+    if (!clientRes.headersSent) {
+      clientRes.writeHead(502, { 'Content-Type': 'text/plain' });
+    }
+    if (!clientRes.writableEnded) {
+      clientRes.end('Bad Gateway');
+    }
+    this.finish(entry, 'error', err.message);
+  }
+
+  /**
+   * Send a captured request again, with any edits, as a new entry linked to
+   * the original. Resolves once the response has been captured; rules,
+   * mocks and breakpoints don't apply.
+   */
+  public async resend(original: RequestLogEntry, edit: ResendEdit = {}): Promise<RequestLogEntry> {
+    const outgoing = await resendRequest(original, edit, this.config, this.blobs);
+    const { url } = outgoing;
+    // Logged like the proxy logs intercepted (path only) and plain (full URL) requests
+    const entry = createEntry({
+      method: outgoing.method,
+      host: url.protocol === 'https:' ? url.hostname : url.host,
+      path: url.protocol === 'https:' ? url.pathname + url.search : url.toString(),
+      watched: true,
+      clientId: original.clientId,
+    });
+    entry.replayOf = original.id;
+
+    captureRequestBody(entry, outgoing.body, outgoing.headers, this.config, this.blobs);
+    if (this.config.verbose) {
+      entry.headers = outgoing.headers;
+    }
+    this.logRequest(entry);
+    this.onRequest?.(entry);
+
+    await new Promise<void>((resolve) => {
+      const proxyReq = this.sendUpstream(url, outgoing.method, outgoing.headers);
+      proxyReq.on('response', (proxyRes) => {
+        const capture = new ResponseCapture(entry, this.config, this.blobs, (completed) => {
+          this.finish(completed, 'complete');
+          resolve();
+        });
+        capture.head(proxyRes.statusCode || 200, distinctHeaders(proxyRes));
+        proxyRes.on('data', (chunk: Buffer) => capture.write(chunk));
+        proxyRes.on('end', () => capture.end());
+        proxyRes.on('error', (err) => {
+          this.finish(entry, 'error', err.message);
+          resolve();
+        });
+      });
       proxyReq.on('error', (err) => {
-        this.logger.error(`Proxy request error: ${err.message}`);
-        clientRes.writeHead(502, { 'Content-Type': 'text/plain' });
-        clientRes.end('Bad Gateway');
+        this.logger.error(`Replay error: ${err.message}`);
+        this.finish(entry, 'error', err.message);
+        resolve();
       });
+      proxyReq.end(outgoing.body);
+    });
+    return entry;
+  }
+
+  /**
+   * Answer from a mock or recording instead of the upstream, keeping its
+   * delays, sped up by `speed` (0 drops them). The response is captured
+   * like a real one.
+   */
+  private serveMock(entry: RequestLogEntry, mock: RecordedResponse, clientRes: http.ServerResponse, speed = 1): void {
+    const response = mockResponse(mock);
+    const events = mockEvents(mock);
+    const delay = (ms: number) => speed > 0 ? ms / speed : 0;
+
+    setTimeout(() => {
+      if (clientRes.destroyed) {
+        return;
+      }
+      const capture = this.captureResponse(entry);
+      capture.head(response.statusCode, response.headers);
+      clientRes.writeHead(response.statusCode, clientHeaders(clientRes, response.headers));
+      if (response.body) {
+        capture.write(response.body);
+        capture.end();
+        clientRes.end(response.body);
+        return;
+      }
+
+      const sendNext = (index: number): void => {
+        if (clientRes.destroyed) {
+          return;
+        }
+        if (index === events.length) {
+          capture.end();
+          clientRes.end();
+          return;
+        }
+        setTimeout(() => {
+          capture.write(events[index].chunk);
+          clientRes.write(events[index].chunk);
+          sendNext(index + 1);
+        }, delay(events[index].delayMs));
+      };
+      sendNext(0);
+    }, delay(mock.delayMs ?? 0));
+  }
+
+  /**
+   * Answer for a request or response dropped at a breakpoint, unless the
+   * client already left.
+   */
+  private drop(entry: RequestLogEntry, clientRes: http.ServerResponse, reason: string): void {
+    if (!clientRes.headersSent && !clientRes.destroyed) {
+      clientRes.writeHead(502, { 'Content-Type': 'text/plain' });
+      clientRes.end(reason);
+    }
+    this.finish(entry, 'aborted', reason);
+  }
+
+  private applyRequestRules(entry: RequestLogEntry, rules: RewriteRule[], outgoing: OutgoingRequest): void {
+    const errors = rewriteRequest(rules, outgoing);
+    entry.rules = rules.map(rule => rule.name);
+    for (const error of errors) {
+      this.logger.warn(`Rules on ${entry.method} ${entry.host}${entry.path}: ${error}`);
+    }
+  }
+
+  private applyResponseRules(entry: RequestLogEntry, rules: RewriteRule[], response: IncomingResponse): void {
+    for (const error of rewriteResponse(rules, response)) {
+      this.logger.warn(`Rules on ${entry.method} ${entry.host}${entry.path}: ${error}`);
+    }
+  }
+
+  /**
+   * Relay protocol upgrades (e.g. WebSockets) once the upstream agrees to
+   * them. The upgraded stream is passed through untouched; the messages of
+   * watched WebSockets are recorded on the entry as they go by.
+   */
+  private handleUpgrade(clientReq: http.IncomingMessage, clientSocket: net.Socket, head: Buffer): void {
+    const entry = this.newEntry(clientReq);
+    if (capturesHeaders(entry, this.config)) {
+      entry.headers = this.outgoingHeaders(clientReq);
+    }
+    this.logRequest(entry);
+    this.onRequest?.(entry);
+
+    let target: URL;
+    try {
+      target = this.targetOf(clientReq);
+    } catch {
+      clientSocket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+      this.finish(entry, 'error', `Invalid URL: ${clientReq.url}`);
+      return;
+    }
 
-      if (body.length > 0) {
-        proxyReq.write(body);
+    const proxyReq = this.sendUpstream(target, entry.method, this.outgoingHeaders(clientReq));
+
+    proxyReq.on('upgrade', (proxyRes, proxySocket, proxyHead) => {
+      entry.statusCode = proxyRes.statusCode;
+      if (capturesHeaders(entry, this.config)) {
+        entry.responseHeaders = proxyRes.headers;
+      }
+
+      const recorder = capturesBodies(entry) && isWebSocketUpgrade(proxyRes.statusCode, proxyRes.headers)
+        ? new WebSocketRecorder(entry)
+        : null;
+      if (recorder) {
+        recorder.onMessage = (message) => this.webUI?.addWebSocketMessage(entry, message);
+        recorder.fromServer(proxyHead);
+        recorder.fromClient(head);
+        proxySocket.on('data', (chunk: Buffer) => recorder.fromServer(chunk));
+        clientSocket.on('data', (chunk: Buffer) => recorder.fromClient(chunk));
+      }
+
+      clientSocket.write(responseHead(proxyRes));
+      if (proxyHead.length > 0) {
+        clientSocket.write(proxyHead);
       }
-      proxyReq.end();
+      if (head.length > 0) {
+        proxySocket.write(head);
+      }
+      proxySocket.pipe(clientSocket);
+      clientSocket.pipe(proxySocket);
+
+      // The exchange lasts as long as the upgraded connection
+      const close = () => {
+        const recorded = recorder ? recorder.end() : Promise.resolve();
+        recorded.then(() => this.finish(entry, 'complete'));
+      };
+      proxySocket.on('close', close);
+      clientSocket.on('close', close);
+      proxySocket.on('error', () => clientSocket.destroy());
+      clientSocket.on('error', () => proxySocket.destroy());
     });
+
+    // The upstream declined the upgrade and answered normally
+    proxyReq.on('response', (proxyRes) => {
+      const capture = this.captureResponse(entry);
+      capture.head(proxyRes.statusCode || 200, proxyRes.headers);
+      clientSocket.write(responseHead(proxyRes));
+      proxyRes.on('data', (chunk: Buffer) => capture.write(chunk));
+      proxyRes.on('end', () => capture.end());
+      proxyRes.pipe(clientSocket);
+    });
+
+    proxyReq.on('error', (err) => {
+      this.logger.error(`Upgrade request error: ${err.message}`);
+      clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      this.finish(entry, 'error', err.message);
+    });
+
+    clientSocket.on('error', () => proxyReq.destroy());
+    proxyReq.end();
   }
 
   private handleConnect(
@@ -150,45 +777,73 @@ export class ProxyServer {
     clientSocket: net.Socket,
     head: Buffer
   ): void {
-    const [hostname, portStr] = (req.url || '').split(':');
-    const port = parseInt(portStr, 10) || 443;
-    const isWatched = this.isWatchedDomain(hostname);
+    // host:port, or [v6 address]:port
+    const target = /^\[([^\]]+)\](?::(\d+))?$|^([^:]*)(?::(\d+))?$/.exec(req.url || '') || [];
+    const hostname = target[1] ?? target[3] ?? '';
+    const port = parseInt(target[2] ?? target[4], 10) || 443;
+    const policy = this.policyFor(hostname);
 
     // Log CONNECT request
-    const entry: RequestLogEntry = {
-      timestamp: new Date().toISOString(),
+    const entry = createEntry({
       method: 'CONNECT',
       host: hostname,
       path: `:${port}`,
-      watched: isWatched,
-    };
-    this.logger.logRequest(entry);
+      watched: policy === 'headers' || policy === 'full',
+      policy,
+      clientId: this.clientIdFrom(req.headers),
+    });
+    if (this.isIgnoredDomain(hostname)) {
+      this.ignored.add(entry);
+    }
+    this.logRequest(entry);
     this.onRequest?.(entry);
 
-    if (isWatched) {
+    if (entry.watched) {
       // MITM: Intercept HTTPS traffic for watched domains
-      this.interceptHttps(hostname, port, clientSocket, head);
+      this.interceptHttps(entry, hostname, port, clientSocket, head);
     } else {
       // Tunnel: Just pass through for non-watched domains
-      this.tunnelHttps(hostname, port, clientSocket, head);
+      this.tunnelHttps(entry, hostname, port, clientSocket, head);
     }
   }
 
   private tunnelHttps(
+    connectEntry: RequestLogEntry,
     hostname: string,
     port: number,
     clientSocket: net.Socket,
     head: Buffer
   ): void {
+    // Under `metadata` the entry lasts as long as the tunnel
+    const metadata = connectEntry.policy === 'metadata';
     const serverSocket = net.connect(port, hostname, () => {
       clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+      connectEntry.statusCode = 200;
+      if (metadata) {
+        this.readServerName(connectEntry, clientSocket, head);
+      } else {
+        this.finish(connectEntry, 'complete');
+      }
       serverSocket.write(head);
       serverSocket.pipe(clientSocket);
       clientSocket.pipe(serverSocket);
     });
 
+    const countBytes = () => {
+      if (metadata) {
+        connectEntry.bytesSent = serverSocket.bytesWritten;
+        connectEntry.bytesReceived = serverSocket.bytesRead;
+      }
+    };
+    serverSocket.on('close', () => {
+      countBytes();
+      this.finish(connectEntry, 'complete');
+    });
+
     serverSocket.on('error', (err) => {
       this.logger.error(`Tunnel error to ${hostname}:${port}: ${err.message}`);
+      countBytes();
+      this.finish(connectEntry, 'error', err.message);
       clientSocket.end();
     });
 
@@ -198,165 +853,128 @@ export class ProxyServer {
     });
   }
 
+  /**
+   * Record the server name from the ClientHello the client sends through a
+   * tunnel. The bytes are only looked at; they're forwarded as they are.
+   */
+  private readServerName(connectEntry: RequestLogEntry, clientSocket: net.Socket, head: Buffer): void {
+    let received = head;
+    const read = (): boolean => {
+      const name = clientHelloServerName(received);
+      if (name === undefined) {
+        return false;
+      }
+      if (name) {
+        connectEntry.sni = name;
+        this.onUpdate?.(connectEntry);
+      }
+      return true;
+    };
+    if (read()) {
+      return;
+    }
+    const onData = (chunk: Buffer) => {
+      received = Buffer.concat([received, chunk]);
+      if (read()) {
+        clientSocket.off('data', onData);
+      }
+    };
+    clientSocket.on('data', onData);
+  }
+
   private interceptHttps(
+    connectEntry: RequestLogEntry,
     hostname: string,
     port: number,
     clientSocket: net.Socket,
     head: Buffer
   ): void {
-    // Get certificate for this host
-    const certInfo = this.certManager.getCertificateForHost(hostname);
+    // Answer the CONNECT once the certificate is ready; the client's hello waits in the socket
+    const ignoreReset = () => {};
+    clientSocket.on('error', ignoreReset);
+    this.certManager.getCertificateForHost(hostname).then((certInfo) => {
+      clientSocket.off('error', ignoreReset);
+      if (clientSocket.destroyed) {
+        this.finish(connectEntry, 'aborted', 'Client closed the connection');
+        return;
+      }
+      this.upgradeToTls(connectEntry, hostname, port, clientSocket, head, certInfo);
+    }, (err: Error) => {
+      this.logger.error(`Could not issue a certificate for ${hostname}: ${err.message}`);
+      clientSocket.end('HTTP/1.1 502 Bad Gateway\r\n\r\n');
+      this.finish(connectEntry, 'error', err.message);
+    });
+  }
 
+  private upgradeToTls(
+    connectEntry: RequestLogEntry,
+    hostname: string,
+    port: number,
+    clientSocket: net.Socket,
+    head: Buffer,
+    certInfo: CertificateInfo
+  ): void {
     // Tell client the connection is established
     clientSocket.write('HTTP/1.1 200 Connection Established\r\n\r\n');
+    if (head.length > 0) {
+      clientSocket.unshift(head);
+    }
 
-    // Upgrade client connection to TLS
-    const tlsSocket = new tls.TLSSocket(clientSocket, {
-      isServer: true,
+    // Upgrade client connection to TLS, offering HTTP/2 as the upstream might.
+    // A TLS server, unlike a bare TLSSocket, hands over sockets in the state
+    // node's HTTP/2 server expects.
+    const tlsServer = tls.createServer({
       key: certInfo.key,
       cert: certInfo.cert,
+      ALPNProtocols: ['h2', 'http/1.1'],
     });
-
-    // Create a connection to the actual server
-    const serverConnection = tls.connect({
-      host: hostname,
-      port: port,
-      servername: hostname,
-      rejectUnauthorized: false, // Allow self-signed certs for interception
-    }, () => {
+    const tunnel: Tunnel = { hostname, port, clientId: connectEntry.clientId, policy: connectEntry.policy || 'full' };
+    const onError = (err: Error) => {
       if (this.config.verbose) {
-        this.logger.info(`TLS tunnel established to ${hostname}:${port}`);
+        this.logger.error(`TLS client socket error: ${err.message}`);
       }
-    });
-
-    // Buffer for parsing HTTP requests from client
-    let clientBuffer = Buffer.alloc(0);
-
-    tlsSocket.on('data', (chunk: Buffer) => {
-      clientBuffer = Buffer.concat([clientBuffer, chunk]);
-
-      // Try to parse and log HTTP request
-      const requestStr = clientBuffer.toString('utf8');
-      const headerEnd = requestStr.indexOf('\r\n\r\n');
-
-      if (headerEnd !== -1) {
-        const headerPart = requestStr.substring(0, headerEnd);
-        const lines = headerPart.split('\r\n');
-
-        if (lines.length > 0) {
-          const requestLine = lines[0].split(' ');
-          const method = requestLine[0] || 'UNKNOWN';
-          const path = requestLine[1] || '/';
-
-          // Extract headers
-          const headers: Record<string, string> = {};
-          for (let i = 1; i < lines.length; i++) {
-            const colonIdx = lines[i].indexOf(':');
-            if (colonIdx !== -1) {
-              const key = lines[i].substring(0, colonIdx).trim().toLowerCase();
-              const value = lines[i].substring(colonIdx + 1).trim();
-              headers[key] = value;
-            }
-          }
-
-          // Calculate body length
-          const contentLength = parseInt(headers['content-length'] || '0', 10);
-          const bodyStart = headerEnd + 4;
-          const currentBodyLength = clientBuffer.length - bodyStart;
-
-          // Only process if we have the complete request (including body)
-          if (currentBodyLength >= contentLength) {
-            const body = clientBuffer.slice(bodyStart, bodyStart + contentLength);
-
-            // Log the intercepted request
-            const entry: RequestLogEntry = {
-              timestamp: new Date().toISOString(),
-              method,
-              host: hostname,
-              path,
-              watched: true,
-            };
-
-            if (['POST', 'PUT', 'PATCH'].includes(method) && body.length > 0) {
-              try {
-                const bodyText = body.toString('utf8');
-                entry.bodyPreview = bodyText.length > 500
-                  ? bodyText.substring(0, 500) + '...'
-                  : bodyText;
-              } catch {
-                entry.bodyPreview = '<binary>';
-              }
-            }
-
-            if (this.config.verbose) {
-              entry.headers = headers;
-            }
-
-            this.logger.logRequest(entry);
-            this.onRequest?.(entry);
+      this.finish(connectEntry, 'error', err.message);
+    };
 
-            // Remove processed request from buffer
-            clientBuffer = clientBuffer.slice(bodyStart + contentLength);
-          }
-        }
+    tlsServer.once('secureConnection', (tlsSocket: tls.TLSSocket) => {
+      tlsSocket.on('error', onError);
+      // Set on sockets a TLS server accepts, though not in node's typings
+      connectEntry.sni = (tlsSocket as tls.TLSSocket & { servername?: string | false }).servername || undefined;
+      connectEntry.statusCode = 200;
+      this.finish(connectEntry, 'complete');
+      if (this.config.verbose) {
+        this.logger.info(`TLS tunnel established to ${hostname}:${port} (${tlsSocket.alpnProtocol || 'http/1.1'})`);
       }
 
-      // Forward all data to server regardless of parsing
-      serverConnection.write(chunk);
-    });
-
-    // Forward server responses back to client
-    let serverBuffer = Buffer.alloc(0);
-
-    serverConnection.on('data', (chunk: Buffer) => {
-      serverBuffer = Buffer.concat([serverBuffer, chunk]);
-
-      // Try to parse HTTP response for logging
-      const responseStr = serverBuffer.toString('utf8');
-      const headerEnd = responseStr.indexOf('\r\n\r\n');
-
-      if (headerEnd !== -1) {
-        const headerPart = responseStr.substring(0, headerEnd);
-        const lines = headerPart.split('\r\n');
-
-        if (lines.length > 0 && this.config.verbose) {
-          const statusLine = lines[0].split(' ');
-          const statusCode = parseInt(statusLine[1], 10);
-
-          if (!isNaN(statusCode)) {
-            this.logger.info(`← ${statusCode} ${statusLine.slice(2).join(' ')}`);
-          }
-        }
-
-        serverBuffer = Buffer.alloc(0); // Reset after logging
+      // Serve the decrypted stream like any other client connection
+      if (tlsSocket.alpnProtocol === 'h2') {
+        this.serveHttp2(tlsSocket, tunnel);
+      } else {
+        this.tunnels.set(tlsSocket, tunnel);
+        this.server.emit('connection', tlsSocket);
       }
-
-      // Forward all data to client
-      tlsSocket.write(chunk);
     });
+    tlsServer.once('tlsClientError', onError);
+    tlsServer.emit('connection', clientSocket);
+  }
 
-    // Handle errors and cleanup
-    tlsSocket.on('error', (err) => {
-      if (this.config.verbose) {
-        this.logger.error(`TLS client socket error: ${err.message}`);
-      }
-      serverConnection.end();
+  /**
+   * Serve an intercepted HTTP/2 connection. Each stream is handled as a
+   * request of its own, through node's HTTP/1-compatible API.
+   */
+  private serveHttp2(tlsSocket: tls.TLSSocket, tunnel: Tunnel): void {
+    const server = http2.createServer();
+    server.on('request', (req, res) => {
+      this.tunnels.set(req.socket, tunnel);
+      // The compatibility API mirrors the parts of these the proxy uses
+      this.handleRequest(req as unknown as http.IncomingMessage, res as unknown as http.ServerResponse);
     });
-
-    serverConnection.on('error', (err) => {
+    server.on('sessionError', (err) => {
       if (this.config.verbose) {
-        this.logger.error(`TLS server connection error to ${hostname}: ${err.message}`);
+        this.logger.error(`HTTP/2 client session error: ${err.message}`);
       }
-      tlsSocket.end();
-    });
-
-    tlsSocket.on('end', () => {
-      serverConnection.end();
-    });
-
-    serverConnection.on('end', () => {
-      tlsSocket.end();
     });
+    server.emit('connection', tlsSocket);
   }
 
   public start(): Promise<void> {
@@ -375,7 +993,41 @@ export class ProxyServer {
       this.server.listen(this.config.port, () => {
         this.logger.success(`Roo Sniffer proxy listening on port ${this.config.port}`);
         this.logger.info(`Watching domains: ${this.config.watchDomains.join(', ')}`);
+        if (this.config.ignoreDomains.length > 0) {
+          this.logger.info(`Ignoring domains: ${this.config.ignoreDomains.join(', ')}`);
+        }
+        if (this.config.domainPolicies.length > 0) {
+          this.logger.info(`Domain policies: ${this.config.domainPolicies.map(rule => `${rule.domain}=${rule.policy}`).join(', ')}`);
+        }
         this.logger.info(`Log file: ${this.config.logFile}`);
+        if (this.blobs) {
+          this.logger.info(`Full bodies: ${this.blobs.getDir()}`);
+        }
+        if (this.history) {
+          this.logger.info(`History: ${this.history.getFile()}`);
+        }
+        if (this.rules.getFile()) {
+          this.logger.info(`Rewrite rules: ${this.rules.getFile()} (${this.rules.getRules().length} loaded)`);
+          const error = this.rules.getError();
+          if (error) {
+            this.logger.error(`Rules not loaded: ${error}`);
+          }
+          this.rules.watch();
+        }
+        if (this.mocks.list().length > 0 || this.mocks.getErrors().length > 0) {
+          this.logger.info(`Mocks: ${this.mocks.getDir()} (${this.mocks.list().length} loaded)`);
+          for (const error of this.mocks.getErrors()) {
+            this.logger.error(`Mock not loaded: ${error}`);
+          }
+        }
+        this.mocks.watch();
+        if (this.recorder) {
+          this.logger.info(`Recording watched exchanges to ${this.recorder.getDir()}`);
+        }
+        if (this.replayer) {
+          const misses = this.config.replayMisses === 'fail' ? 'fail' : 'go upstream';
+          this.logger.info(`Replaying ${this.replayer.count()} recordings from ${this.replayer.getDir()} (misses ${misses})`);
+        }
         this.logger.info(`CA certificate: ${this.certManager.getCACertPath()}`);
         this.logger.info('');
         this.logger.info('To use this proxy, set these environment variables:');
@@ -397,7 +1049,13 @@ export class ProxyServer {
 
   public stop(): void {
     this.server.close();
+    this.breakpoints.resumeAll();
+    this.rules.close();
+    this.mocks.close();
+    this.httpsAgent.destroy();
+    this.h2Sessions.close();
     this.webUI?.stop();
+    this.history?.close();
     this.logger.close();
   }
 }
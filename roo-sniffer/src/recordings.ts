@@ -0,0 +1,131 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { decodeBody } from './encoding';
+import { responseFromEntry } from './mocks';
+import { OutgoingRequest } from './rules';
+import { RecordedResponse, Recording, RequestLogEntry, SnifferConfig } from './types';
+
+/**
+ * The body as fingerprinted and written to recordings: decompressed, and
+ * parsed when it is JSON.
+ */
+function requestBody(request: OutgoingRequest): unknown {
+  if (request.body.length === 0) {
+    return undefined;
+  }
+  const text = decodeBody(request.body, request.headers).body.toString('utf8');
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
+
+function sortKeys(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(sortKeys);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.keys(value).sort().map(key => [key, sortKeys((value as Record<string, unknown>)[key])])
+    );
+  }
+  return value;
+}
+
+/**
+ * Identify a request by its method, host, path, query and body. Headers,
+ * the port, query parameter order, JSON key order and compression don't
+ * count, so the same call made again finds its recording.
+ */
+export function fingerprint(request: OutgoingRequest): string {
+  const url = new URL(request.url.toString());
+  url.searchParams.sort();
+  const hash = createHash('sha256').update(`${request.method.toUpperCase()} ${url.hostname}${url.pathname}${url.search}\n`);
+  const body = requestBody(request);
+  if (body !== undefined) {
+    hash.update(JSON.stringify(sortKeys(body)));
+  }
+  return hash.digest('hex').substring(0, 24);
+}
+
+/**
+ * A directory of recordings, one JSON file per request fingerprint. Files
+ * are read when needed, so recordings made while replaying from the same
+ * directory are found straight away.
+ */
+export class RecordingStore {
+  private dir: string;
+  // Responses replayed so far per fingerprint, so repeated calls get the
+  // responses that followed each other when recording
+  private served: Map<string, number> = new Map();
+  private tracked: Map<string, { fingerprint: string; request: Recording['request'] }> = new Map();
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  public getDir(): string {
+    return this.dir;
+  }
+
+  public count(): number {
+    return fs.existsSync(this.dir) ? fs.readdirSync(this.dir).filter(f => f.endsWith('.json')).length : 0;
+  }
+
+  private read(fingerprint: string): Recording | undefined {
+    const file = path.join(this.dir, `${fingerprint}.json`);
+    if (!fs.existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, 'utf8'));
+  }
+
+  /**
+   * The next recorded response for a fingerprint. Once all have been
+   * served, the last one is served again.
+   */
+  public next(fingerprint: string): RecordedResponse | undefined {
+    const recording = this.read(fingerprint);
+    if (!recording || recording.responses.length === 0) {
+      return undefined;
+    }
+    const index = this.served.get(fingerprint) ?? 0;
+    this.served.set(fingerprint, index + 1);
+    return recording.responses[Math.min(index, recording.responses.length - 1)];
+  }
+
+  /**
+   * Remember what was sent for an entry, so its response can be recorded
+   * once it completes.
+   */
+  public track(entryId: string, request: OutgoingRequest): void {
+    const body = requestBody(request);
+    this.tracked.set(entryId, {
+      fingerprint: fingerprint(request),
+      request: { method: request.method, url: request.url.toString(), ...(body !== undefined ? { body } : {}) },
+    });
+  }
+
+  /**
+   * Add a finished entry's response to its recording. Only tracked entries
+   * that completed are recorded; returns the fingerprint if it was.
+   */
+  public async record(entry: RequestLogEntry, config: SnifferConfig, blobs: BlobStore | null): Promise<string | undefined> {
+    const tracked = this.tracked.get(entry.id);
+    this.tracked.delete(entry.id);
+    if (!tracked || entry.phase !== 'complete') {
+      return undefined;
+    }
+
+    const response = await responseFromEntry(entry, config, blobs);
+    const recording: Recording = this.read(tracked.fingerprint) ?? { ...tracked, responses: [] };
+    recording.responses.push(response);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(path.join(this.dir, `${tracked.fingerprint}.json`), JSON.stringify(recording, null, 2) + '\n');
+    return tracked.fingerprint;
+  }
+}
@@ -0,0 +1,145 @@
+import { SnifferConfig } from './types';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+export const REDACTED = '[REDACTED]';
+
+// Headers whose values are secret whatever they look like
+const SECRET_HEADERS = [
+  'authorization', 'proxy-authorization', 'x-api-key', 'api-key', 'x-goog-api-key',
+  'x-amz-security-token', 'cookie', 'set-cookie',
+];
+
+/*
+ * Secrets recognised anywhere in text. When a pattern has a capture group
+ * only the group is masked, so `Bearer` or `X-Amz-Signature=` stays readable.
+ */
+const BUILT_IN_PATTERNS: RegExp[] = [
+  /\bBearer\s+([\w.~+/-]{12,}=*)/gi,
+  /\b(sk-[\w-]{16,})/g,
+  /\b((?:AKIA|ASIA)[0-9A-Z]{16})\b/g,
+  /\b(?:X-Amz-Signature|X-Amz-Credential|X-Amz-Security-Token|Signature|Credential)=([^\s&,"]+)/gi,
+];
+
+/**
+ * Compile a user-defined secret pattern: a regex source, or `/regex/flags`.
+ * Throws on an invalid regex.
+ */
+export function compileRedactPattern(pattern: string): RegExp {
+  const literal = /^\/(.+)\/([a-z]*)$/.exec(pattern);
+  const [source, flags] = literal ? [literal[1], literal[2]] : [pattern, ''];
+  return new RegExp(source, flags.includes('g') ? flags : flags + 'g');
+}
+
+/**
+ * Whether a value has masked parts, e.g. the headers of an entry read back
+ * from history or the log file, which are saved masked.
+ */
+export function isMasked(value: unknown): boolean {
+  return (JSON.stringify(value) ?? '').includes(REDACTED);
+}
+
+/**
+ * Loopback addresses, IPv4-mapped ones included. Secrets are only ever
+ * revealed to Web UI viewers on the same machine.
+ */
+export function isLoopback(address: string | undefined): boolean {
+  return !!address && /^(::ffff:)?127\.|^::1$/.test(address);
+}
+
+/**
+ * Masks secrets before anything leaves the process: console output, the log
+ * file, history and the Web UI. Captured entries themselves keep the real
+ * values, so replays still authenticate.
+ */
+export class Redactor {
+  private enabled: boolean;
+  private patterns: RegExp[];
+
+  constructor(config: SnifferConfig) {
+    this.enabled = config.redact;
+    this.patterns = [...BUILT_IN_PATTERNS, ...(config.redactPatterns || []).map(compileRedactPattern)];
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled;
+  }
+
+  public text(text: string): string {
+    if (!this.enabled) {
+      return text;
+    }
+    let result = text;
+    for (const pattern of this.patterns) {
+      result = result.replace(pattern, (match: string, group: unknown) => {
+        if (typeof group !== 'string' || !group) {
+          return REDACTED;
+        }
+        const at = match.lastIndexOf(group);
+        return match.slice(0, at) + REDACTED + match.slice(at + group.length);
+      });
+    }
+    return result;
+  }
+
+  /** Mask a header value, keeping an auth scheme and cookie names */
+  private header(name: string, value: string): string {
+    const lower = name.toLowerCase();
+    if (lower === 'cookie') {
+      return value.split(/;\s*/).map(pair => pair.includes('=') ? `${pair.split('=')[0]}=${REDACTED}` : pair).join('; ');
+    }
+    if (lower === 'set-cookie') {
+      const [pair, ...attributes] = value.split(';');
+      return [`${pair.split('=')[0]}=${REDACTED}`, ...attributes].join(';');
+    }
+    const scheme = /^([A-Za-z][\w-]*\s+)\S/.exec(value);
+    return scheme ? scheme[1] + REDACTED : REDACTED;
+  }
+
+  private walk(value: unknown, key?: string): unknown {
+    if (typeof value === 'string') {
+      return key && SECRET_HEADERS.includes(key.toLowerCase()) ? this.header(key, value) : this.text(value);
+    }
+    if (Array.isArray(value)) {
+      return value.map(item => this.walk(item, key));
+    }
+    if (value && typeof value === 'object') {
+      const object = value as Record<string, unknown>;
+      // HAR lists headers as { name, value } pairs
+      const pairName = typeof object.name === 'string' && typeof object.value === 'string' ? object.name : undefined;
+      return Object.fromEntries(Object.entries(object).map(([name, item]) =>
+        [name, this.walk(item, name === 'value' && pairName ? pairName : name)]
+      ));
+    }
+    return value;
+  }
+
+  /**
+   * A copy of any value, e.g. an entry or a HAR file, with secret headers
+   * and anything matching a secret pattern masked.
+   */
+  public redact<T>(value: T): T {
+    return this.enabled ? this.walk(value) as T : value;
+  }
+
+  /**
+   * Headers edited in the Web UI with their masked values put back, so a
+   * message edited by someone who can't see its secrets still carries them.
+   * A value is only put back if it was left exactly as shown.
+   */
+  public restoreHeaders<T extends Headers>(edited: T, original: Headers | undefined): T {
+    const restored: Headers = { ...edited };
+    for (const [name, value] of Object.entries(edited)) {
+      if (value === undefined || !isMasked(value)) {
+        continue;
+      }
+      const originalName = Object.keys(original || {}).find(other => other.toLowerCase() === name.toLowerCase());
+      const originalValue = originalName ? original![originalName] : undefined;
+      if (originalValue !== undefined &&
+          JSON.stringify(this.walk(originalValue, name)) === JSON.stringify(value)) {
+        restored[name] = originalValue;
+      }
+    }
+    return restored as T;
+  }
+}
@@ -0,0 +1,133 @@
+import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { bodyText, entryUrl } from './har';
+import { isMasked } from './redact';
+import { OutgoingRequest } from './rules';
+import { RequestLogEntry, ResendDraft, ResendEdit, SnifferConfig } from './types';
+
+// Recomputed for the request as re-sent; bodies are stored decompressed
+const RECOMPUTED_HEADERS = ['host', 'content-length', 'transfer-encoding', 'content-encoding', 'connection', 'keep-alive'];
+
+/**
+ * A captured request as it will be re-sent, for editing. The URL is the one
+ * the upstream was sent, after any rewrite rules.
+ */
+export async function resendDraft(
+  entry: RequestLogEntry,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): Promise<ResendDraft> {
+  const headers: Record<string, string | string[]> = {};
+  for (const [name, value] of Object.entries(entry.headers || {})) {
+    if (value !== undefined && !RECOMPUTED_HEADERS.includes(name.toLowerCase())) {
+      headers[name] = value;
+    }
+  }
+
+  const draft: ResendDraft = {
+    method: entry.method,
+    url: entry.upstreamUrl || entryUrl(entry),
+    headers,
+    body: '',
+  };
+  const body = await bodyText(entry.requestBody, entry.bodyPreview, entry.bodyBinary, blobs);
+  if (body) {
+    draft.body = body.text;
+    if (body.base64) {
+      draft.bodyBinary = true;
+    }
+    // A preview is only the whole body if it's text short enough not to be cut
+    if (body.truncated && (body.base64 || body.text.length > config.previewLimit)) {
+      draft.truncated = true;
+    }
+  }
+  return draft;
+}
+
+/**
+ * Build the request to re-send, applying any edits. Throws when the edits
+ * are invalid or the captured body is incomplete and wasn't replaced.
+ */
+export async function resendRequest(
+  entry: RequestLogEntry,
+  edit: ResendEdit,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): Promise<OutgoingRequest> {
+  const draft = await resendDraft(entry, config, blobs);
+  const url = edit.url ?? draft.url;
+  if (!URL.canParse(url) || !/^https?:$/.test(new URL(url).protocol)) {
+    throw new Error(`Not an http(s) URL: ${url}`);
+  }
+
+  let body: Buffer;
+  if (edit.body !== undefined && !draft.bodyBinary) {
+    body = Buffer.from(edit.body, 'utf8');
+  } else if (draft.truncated) {
+    throw new Error('Only a preview of the request body was captured; edit the body or start with --store-bodies');
+  } else {
+    body = Buffer.from(draft.body, draft.bodyBinary ? 'base64' : 'utf8');
+  }
+
+  const headers: Record<string, string | string[] | undefined> = {};
+  for (const [name, value] of Object.entries(edit.headers ?? draft.headers)) {
+    if (!RECOMPUTED_HEADERS.includes(name.toLowerCase())) {
+      headers[name.toLowerCase()] = value;
+    }
+  }
+  // Masked values are still there when the entry came from history or the log
+  if (isMasked(url) || isMasked(headers)) {
+    throw new Error('This request was saved with its secrets masked; replace the [REDACTED] values with Edit & Replay, or start with --no-redact to save them');
+  }
+  const target = new URL(url);
+  headers.host = target.host;
+  if (body.length > 0) {
+    headers['content-length'] = String(body.length);
+  }
+
+  return {
+    method: (edit.method || draft.method).toUpperCase(),
+    url: target,
+    headers,
+    body,
+  };
+}
+
+/**
+ * A response as shown in a diff: headers as `name: value` lines and the
+ * body as text, with JSON pretty-printed and streams as their events.
+ */
+export async function responseForDiff(
+  entry: RequestLogEntry,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): Promise<{ id: string; statusCode?: number; headers: string[]; body: string; truncated: boolean }> {
+  const headers = Object.entries(entry.responseHeaders || {})
+    .flatMap(([name, value]) => (Array.isArray(value) ? value : [value]).map(v => `${name}: ${v}`))
+    .sort();
+  const side = { id: entry.id, statusCode: entry.statusCode, headers, body: '', truncated: false };
+
+  if (entry.sseEvents && entry.sseEvents.length > 0) {
+    side.body = entry.sseEvents
+      .map(event => (event.event ? `event: ${event.event}\n` : '') + `data: ${event.data}`)
+      .join('\n');
+    side.truncated = !!entry.sseEventsTruncated;
+    return side;
+  }
+
+  const body = await bodyText(entry.responseBody, entry.responsePreview, entry.responseBinary, blobs);
+  if (!body) {
+    return side;
+  }
+  if (body.base64) {
+    side.body = `(binary body, ${entry.responseBody?.size ?? 'unknown'} bytes)`;
+  } else {
+    try {
+      side.body = JSON.stringify(JSON.parse(body.text), null, 2);
+    } catch {
+      side.body = body.text;
+    }
+  }
+  side.truncated = body.truncated && (body.base64 || body.text.length > config.previewLimit);
+  return side;
+}
@@ -0,0 +1,392 @@
+import * as fs from 'fs';
+import { URL } from 'url';
+import { decodeBody } from './encoding';
+import { MatchTarget, matchesRequest, validateMatcher } from './matcher';
+import { BodyEdit, MessageRewrite, RewriteRule } from './types';
+
+type Headers = Record<string, string | string[] | undefined>;
+
+type PathSegment = { key: string } | { index: number } | { wildcard: true };
+
+/**
+ * Parse a JSONPath-style location: `$`, then any of `.name`, `['name']`,
+ * `[0]`, `[-1]` (from the end), `.*` and `[*]`.
+ */
+export function parseJsonPath(path: string): PathSegment[] {
+  if (!path.startsWith('$')) {
+    throw new Error(`JSON path must start with $: ${path}`);
+  }
+  const segments: PathSegment[] = [];
+  const pattern = /\.([^.[\]]+)|\[(-?\d+|\*)\]|\[(['"])(.*?)\3\]/y;
+  pattern.lastIndex = 1;
+  while (pattern.lastIndex < path.length) {
+    const start = pattern.lastIndex;
+    const match = pattern.exec(path);
+    if (!match) {
+      throw new Error(`Invalid JSON path at "${path.substring(start)}": ${path}`);
+    }
+    const [, name, bracket, , quoted] = match;
+    if (name === '*' || bracket === '*') {
+      segments.push({ wildcard: true });
+    } else if (name !== undefined) {
+      segments.push({ key: name });
+    } else if (bracket !== undefined) {
+      segments.push({ index: parseInt(bracket, 10) });
+    } else {
+      segments.push({ key: quoted });
+    }
+  }
+  return segments;
+}
+
+function keysAt(container: unknown, segment: PathSegment): (string | number)[] {
+  if (Array.isArray(container)) {
+    if ('wildcard' in segment) {
+      return container.map((_, i) => i);
+    }
+    if ('index' in segment) {
+      const index = segment.index < 0 ? container.length + segment.index : segment.index;
+      return index >= 0 && index < container.length ? [index] : [];
+    }
+    return [];
+  }
+  if (container && typeof container === 'object') {
+    if ('wildcard' in segment) {
+      return Object.keys(container);
+    }
+    if ('key' in segment) {
+      return [segment.key];
+    }
+  }
+  return [];
+}
+
+function replaceStrings(value: unknown, pattern: RegExp, replacement: string): unknown {
+  if (typeof value === 'string') {
+    return value.replace(pattern, replacement);
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => replaceStrings(item, pattern, replacement));
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, replaceStrings(item, pattern, replacement)])
+    );
+  }
+  return value;
+}
+
+function editAt(container: any, segments: PathSegment[], edit: BodyEdit): void {
+  const [segment, ...rest] = segments;
+  const keys = keysAt(container, segment);
+
+  if (rest.length > 0) {
+    for (const key of keys) {
+      // `set` creates missing objects along the way, like `mkdir -p`
+      if (container[key] === undefined && edit.op === 'set' && !Array.isArray(container)) {
+        container[key] = {};
+      }
+      editAt(container[key], rest, edit);
+    }
+    return;
+  }
+
+  // Backwards so removing array items doesn't shift the ones still to go
+  for (const key of [...keys].reverse()) {
+    if (edit.op === 'set') {
+      container[key] = structuredClone(edit.value);
+    } else if (edit.op === 'remove') {
+      if (Array.isArray(container)) {
+        container.splice(key as number, 1);
+      } else {
+        delete container[key];
+      }
+    } else if (container[key] !== undefined) {
+      container[key] = replaceStrings(container[key], new RegExp(edit.pattern!, 'g'), edit.replacement ?? '');
+    }
+  }
+}
+
+/**
+ * Apply edits to a parsed JSON value, returning the edited value. The root
+ * itself can be replaced with `set` on `$`.
+ */
+export function applyBodyEdits(value: unknown, edits: BodyEdit[]): unknown {
+  const holder = { $: value };
+  for (const edit of edits) {
+    editAt(holder, [{ key: '$' }, ...parseJsonPath(edit.path)], edit);
+  }
+  return holder.$;
+}
+
+function validateEdits(edits: unknown, where: string): BodyEdit[] {
+  if (!Array.isArray(edits)) {
+    throw new Error(`${where}.body must be a list of edits`);
+  }
+  edits.forEach((edit, i) => {
+    if (!edit || typeof edit !== 'object' || !['set', 'remove', 'replace'].includes(edit.op)) {
+      throw new Error(`${where}.body[${i}].op must be set, remove or replace`);
+    }
+    if (typeof edit.path !== 'string') {
+      throw new Error(`${where}.body[${i}].path must be a string`);
+    }
+    parseJsonPath(edit.path);
+    if (edit.op === 'replace') {
+      if (typeof edit.pattern !== 'string') {
+        throw new Error(`${where}.body[${i}].pattern is required for replace`);
+      }
+      new RegExp(edit.pattern);
+    }
+  });
+  return edits;
+}
+
+function validateRewrite(rewrite: any, where: string): void {
+  if (!rewrite || typeof rewrite !== 'object') {
+    throw new Error(`${where} must be an object`);
+  }
+  if (rewrite.setHeaders !== undefined &&
+      (!rewrite.setHeaders || typeof rewrite.setHeaders !== 'object' || Object.values(rewrite.setHeaders).some(v => typeof v !== 'string'))) {
+    throw new Error(`${where}.setHeaders must map header names to strings`);
+  }
+  if (rewrite.removeHeaders !== undefined &&
+      (!Array.isArray(rewrite.removeHeaders) || rewrite.removeHeaders.some((v: unknown) => typeof v !== 'string'))) {
+    throw new Error(`${where}.removeHeaders must be a list of header names`);
+  }
+  if (rewrite.body !== undefined) {
+    validateEdits(rewrite.body, where);
+  }
+}
+
+/**
+ * Check rules loaded from a file or sent by the Web UI. Accepts a list or
+ * `{ "rules": [...] }`. Throws naming the first bad rule.
+ */
+export function validateRules(value: unknown): RewriteRule[] {
+  const rules = Array.isArray(value) ? value : (value as { rules?: unknown })?.rules;
+  if (!Array.isArray(rules)) {
+    throw new Error('Expected a list of rules or { "rules": [...] }');
+  }
+
+  return rules.map((rule, i) => {
+    const label = `rule ${i + 1}${typeof rule?.name === 'string' ? ` (${rule.name})` : ''}`;
+    try {
+      if (!rule || typeof rule !== 'object') {
+        throw new Error('must be an object');
+      }
+      validateMatcher(rule.match);
+      if (rule.request !== undefined) {
+        validateRewrite(rule.request, 'request');
+        const url = rule.request.url;
+        if (url !== undefined && (typeof url !== 'string' || (!url.startsWith('/') && !URL.canParse(url)))) {
+          throw new Error('request.url must be an absolute URL or a path');
+        }
+      }
+      if (rule.response !== undefined) {
+        validateRewrite(rule.response, 'response');
+        if (rule.response.status !== undefined && !Number.isInteger(rule.response.status)) {
+          throw new Error('response.status must be an integer');
+        }
+      }
+    } catch (err) {
+      throw new Error(`Invalid ${label}: ${(err as Error).message}`);
+    }
+    const { name, ...rest } = rule;
+    return { name: typeof name === 'string' && name ? name : `Rule ${i + 1}`, ...rest };
+  });
+}
+
+function rewriteHeaders(headers: Headers, rewrite: MessageRewrite): void {
+  for (const name of rewrite.removeHeaders || []) {
+    delete headers[name.toLowerCase()];
+  }
+  for (const [name, value] of Object.entries(rewrite.setHeaders || {})) {
+    headers[name.toLowerCase()] = value;
+  }
+}
+
+/**
+ * Apply body edits from the rules that have them. The body is decoded and
+ * sent back uncompressed with a fresh content-length. Returns an error
+ * message when the body can't be edited, in which case it is left as is.
+ */
+function rewriteBody(message: { headers: Headers; body: Buffer }, edits: BodyEdit[]): string | undefined {
+  if (edits.length === 0) {
+    return undefined;
+  }
+
+  const decoded = decodeBody(message.body, message.headers);
+  if (decoded.error) {
+    return decoded.error;
+  }
+  let json: unknown;
+  try {
+    json = JSON.parse(decoded.body.toString('utf8'));
+  } catch {
+    return 'Body is not JSON; body edits skipped';
+  }
+
+  message.body = Buffer.from(JSON.stringify(applyBodyEdits(json, edits)));
+  delete message.headers['content-encoding'];
+  delete message.headers['transfer-encoding'];
+  message.headers['content-length'] = String(message.body.length);
+  return undefined;
+}
+
+/**
+ * A request about to be sent upstream; rules edit it in place.
+ */
+export interface OutgoingRequest {
+  method: string;
+  url: URL;
+  headers: Headers;
+  body: Buffer;
+}
+
+/**
+ * A response about to be sent to the client. `body` is absent while the
+ * response streams, in which case only the status and headers change.
+ */
+export interface IncomingResponse {
+  statusCode: number;
+  headers: Headers;
+  body?: Buffer;
+}
+
+export function rewriteRequest(rules: RewriteRule[], request: OutgoingRequest): string[] {
+  const errors: string[] = [];
+  for (const rule of rules) {
+    if (!rule.request) {
+      continue;
+    }
+    if (rule.request.url) {
+      request.url = new URL(rule.request.url, request.url);
+      request.headers.host = request.url.host;
+    }
+    rewriteHeaders(request.headers, rule.request);
+  }
+
+  const error = rewriteBody(request, rules.flatMap(rule => rule.request?.body || []));
+  if (error) {
+    errors.push(`request: ${error}`);
+  }
+  return errors;
+}
+
+export function rewriteResponse(rules: RewriteRule[], response: IncomingResponse): string[] {
+  const errors: string[] = [];
+  for (const rule of rules) {
+    if (!rule.response) {
+      continue;
+    }
+    if (rule.response.status !== undefined) {
+      response.statusCode = rule.response.status;
+    }
+    rewriteHeaders(response.headers, rule.response);
+  }
+
+  const edits = rules.flatMap(rule => rule.response?.body || []);
+  if (response.body) {
+    const error = rewriteBody(response as Required<IncomingResponse>, edits);
+    if (error) {
+      errors.push(`response: ${error}`);
+    }
+  }
+  return errors;
+}
+
+/**
+ * Whether the response has to be buffered so its body can be edited.
+ */
+export function editsResponseBody(rules: RewriteRule[]): boolean {
+  return rules.some(rule => (rule.response?.body?.length ?? 0) > 0);
+}
+
+/**
+ * Holds the active rewrite rules. Rules come from the `--rules` file, which
+ * is watched and reloaded when it changes, or from the Web UI, which saves
+ * them back to the file. Without a file they only live in memory.
+ */
+export class RulesEngine {
+  private file: string | undefined;
+  private rules: RewriteRule[] = [];
+  private loadError: string | undefined;
+  private watching = false;
+  public onReload: ((rules: RewriteRule[], error?: string) => void) | null = null;
+
+  constructor(file?: string) {
+    this.file = file;
+    this.load();
+  }
+
+  public getFile(): string | undefined {
+    return this.file;
+  }
+
+  public getRules(): RewriteRule[] {
+    return this.rules;
+  }
+
+  /** Why the file couldn't be loaded; the previous rules stay active */
+  public getError(): string | undefined {
+    return this.loadError;
+  }
+
+  private load(): void {
+    if (!this.file || !fs.existsSync(this.file)) {
+      return;
+    }
+    try {
+      this.rules = validateRules(JSON.parse(fs.readFileSync(this.file, 'utf8')));
+      this.loadError = undefined;
+    } catch (err) {
+      this.loadError = `${this.file}: ${(err as Error).message}`;
+    }
+  }
+
+  /**
+   * Reload the file whenever it changes. Polled, since editors often
+   * replace the file rather than write to it.
+   */
+  public watch(): void {
+    if (!this.file || this.watching) {
+      return;
+    }
+    this.watching = true;
+    fs.watchFile(this.file, { interval: 1000 }, (current, previous) => {
+      if (current.mtimeMs === previous.mtimeMs) {
+        return;
+      }
+      this.load();
+      this.onReload?.(this.rules, this.loadError);
+    });
+  }
+
+  /**
+   * Replace the rules, saving them to the file if there is one. Throws if
+   * they are invalid.
+   */
+  public setRules(value: unknown): RewriteRule[] {
+    const rules = validateRules(value);
+    if (this.file) {
+      fs.writeFileSync(this.file, JSON.stringify({ rules }, null, 2) + '\n');
+    }
+    this.rules = rules;
+    this.loadError = undefined;
+    return rules;
+  }
+
+  /**
+   * Enabled rules matching a request, in file order.
+   */
+  public match(target: MatchTarget): RewriteRule[] {
+    return this.rules.filter(rule => rule.enabled !== false && matchesRequest(rule.match, target));
+  }
+
+  public close(): void {
+    if (this.file && this.watching) {
+      fs.unwatchFile(this.file);
+      this.watching = false;
+    }
+  }
+}
@@ -0,0 +1,76 @@
+// A ClientHello is a few KB at most; stop looking after this much
+const MAX_HELLO_BYTES = 64 * 1024;
+
+/**
+ * The server name in a TLS ClientHello, read from the first bytes a client
+ * sends through a tunnel. Returns undefined while more bytes are needed,
+ * and null when they aren't a ClientHello or it names no server.
+ */
+export function clientHelloServerName(data: Buffer): string | null | undefined {
+  // The handshake message may be split across records
+  const fragments: Buffer[] = [];
+  let offset = 0;
+  for (;;) {
+    if (data.length < offset + 5) {
+      return data.length < MAX_HELLO_BYTES ? undefined : null;
+    }
+    if (data[offset] !== 0x16) {
+      return null;
+    }
+    const end = offset + 5 + data.readUInt16BE(offset + 3);
+    if (data.length < end) {
+      return data.length < MAX_HELLO_BYTES ? undefined : null;
+    }
+    fragments.push(data.subarray(offset + 5, end));
+    offset = end;
+
+    const handshake = Buffer.concat(fragments);
+    if (handshake.length >= 4) {
+      if (handshake[0] !== 0x01) {
+        return null;
+      }
+      const length = handshake.readUIntBE(1, 3);
+      if (handshake.length >= 4 + length) {
+        return serverNameExtension(handshake.subarray(4, 4 + length));
+      }
+    }
+  }
+}
+
+/**
+ * Find the `server_name` extension in the body of a ClientHello.
+ */
+function serverNameExtension(hello: Buffer): string | null {
+  try {
+    // Version and random, then the variable-length session id, cipher
+    // suites and compression methods
+    let offset = 2 + 32;
+    offset += 1 + hello[offset];
+    offset += 2 + hello.readUInt16BE(offset);
+    offset += 1 + hello[offset];
+
+    const extensionsEnd = Math.min(offset + 2 + hello.readUInt16BE(offset), hello.length);
+    offset += 2;
+    while (offset + 4 <= extensionsEnd) {
+      const type = hello.readUInt16BE(offset);
+      const size = hello.readUInt16BE(offset + 2);
+      offset += 4;
+      if (type === 0x0000) {
+        // A list of names; only host names (type 0) are defined
+        let name = offset + 2;
+        while (name + 3 <= offset + size) {
+          const nameLength = hello.readUInt16BE(name + 1);
+          if (hello[name] === 0) {
+            return hello.toString('ascii', name + 3, name + 3 + nameLength);
+          }
+          name += 3 + nameLength;
+        }
+        return null;
+      }
+      offset += size;
+    }
+  } catch {
+    // Truncated or malformed; treat it as naming no server
+  }
+  return null;
+}
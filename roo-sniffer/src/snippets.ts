@@ -0,0 +1,481 @@
+import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { providerForHost } from './decoders';
+import { isMasked } from './redact';
+import { resendDraft } from './resend';
+import { LlmApi, RequestLogEntry, ResendDraft, SnifferConfig, SnippetFormat } from './types';
+
+export const SNIPPET_FORMATS: SnippetFormat[] = ['curl', 'fetch', 'python', 'sdk-python', 'sdk-typescript'];
+
+// Headers carrying the API key
+const KEY_HEADERS = ['authorization', 'x-api-key', 'api-key', 'x-goog-api-key'];
+
+// Left out of snippets; the HTTP client negotiates these itself
+const CLIENT_HEADERS = ['accept-encoding'];
+
+// Set by the SDKs themselves, so left out of SDK calls
+const SDK_HEADERS = ['authorization', 'x-api-key', 'api-key', 'content-type', 'accept', 'accept-encoding', 'user-agent', 'anthropic-version'];
+
+const KEY_ENV_VARS: Record<string, string> = {
+  anthropic: 'ANTHROPIC_API_KEY',
+  openai: 'OPENAI_API_KEY',
+  openrouter: 'OPENROUTER_API_KEY',
+  azure: 'AZURE_OPENAI_API_KEY',
+  google: 'GEMINI_API_KEY',
+};
+
+interface Sdk {
+  pythonImport: string;
+  pythonClient: string;
+  typescriptImport: string;
+  typescriptClient: string;
+  /** Method called on the client, e.g. `messages.create` */
+  call: string;
+  /** Path the SDK appends to its base URL */
+  path: string;
+  defaultBaseUrl: string;
+  keyEnvVar: string;
+}
+
+const SDKS: Record<LlmApi, Sdk> = {
+  'anthropic-messages': {
+    pythonImport: 'import anthropic',
+    pythonClient: 'anthropic.Anthropic',
+    typescriptImport: "import Anthropic from '@anthropic-ai/sdk';",
+    typescriptClient: 'Anthropic',
+    call: 'messages.create',
+    path: '/v1/messages',
+    defaultBaseUrl: 'https://api.anthropic.com',
+    keyEnvVar: 'ANTHROPIC_API_KEY',
+  },
+  'openai-chat': {
+    pythonImport: 'from openai import OpenAI',
+    pythonClient: 'OpenAI',
+    typescriptImport: "import OpenAI from 'openai';",
+    typescriptClient: 'OpenAI',
+    call: 'chat.completions.create',
+    path: '/chat/completions',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    keyEnvVar: 'OPENAI_API_KEY',
+  },
+  'openai-responses': {
+    pythonImport: 'from openai import OpenAI',
+    pythonClient: 'OpenAI',
+    typescriptImport: "import OpenAI from 'openai';",
+    typescriptClient: 'OpenAI',
+    call: 'responses.create',
+    path: '/responses',
+    defaultBaseUrl: 'https://api.openai.com/v1',
+    keyEnvVar: 'OPENAI_API_KEY',
+  },
+};
+
+/** A header value, or an environment variable standing in for a redacted key */
+type Value = string | { prefix: string; envVar: string };
+
+interface SnippetRequest {
+  method: string;
+  url: string;
+  headers: [string, Value][];
+  body?: { text: string; json?: unknown; base64?: boolean };
+  stream: boolean;
+}
+
+function parseJson(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Replace a key with an environment variable, keeping a `Bearer ` style scheme */
+function redactKey(value: string, envVar: string): Value {
+  const scheme = /^(\w+ )\S+$/.exec(value);
+  return { prefix: scheme ? scheme[1] : '', envVar };
+}
+
+function snippetRequest(entry: RequestLogEntry, draft: ResendDraft, redact: boolean): SnippetRequest {
+  const envVar = KEY_ENV_VARS[providerForHost(entry.host)] || (entry.llm ? SDKS[entry.llm.api].keyEnvVar : 'API_KEY');
+  const headers: [string, Value][] = [];
+  for (const [name, value] of Object.entries(draft.headers)) {
+    const lower = name.toLowerCase();
+    if (CLIENT_HEADERS.includes(lower)) {
+      continue;
+    }
+    for (const single of Array.isArray(value) ? value : [value]) {
+      // A key saved masked, e.g. in history, can only come from the environment
+      const fromEnv = (redact || isMasked(single)) && KEY_HEADERS.includes(lower);
+      headers.push([name, fromEnv ? redactKey(single, envVar) : single]);
+    }
+  }
+
+  const request: SnippetRequest = {
+    method: draft.method.toUpperCase(),
+    url: draft.url,
+    headers,
+    stream: entry.llm?.request.stream === true || (entry.sseEvents?.length ?? 0) > 0,
+  };
+  if (draft.body) {
+    request.body = draft.bodyBinary
+      ? { text: draft.body, base64: true }
+      : { text: draft.body, json: parseJson(draft.body) };
+  }
+  return request;
+}
+
+function shellQuote(text: string): string {
+  return `'${text.replace(/'/g, `'\\''`)}'`;
+}
+
+/** A JSON value as a JavaScript literal, with bare keys where possible */
+function jsLiteral(value: unknown, indent = ''): string {
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    const inner = indent + '  ';
+    return `[\n${value.map(item => inner + jsLiteral(item, inner)).join(',\n')},\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const inner = indent + '  ';
+    const lines = entries.map(([key, item]) =>
+      `${inner}${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${jsLiteral(item, inner)}`
+    );
+    return `{\n${lines.join(',\n')},\n${indent}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+/** A JSON value as a Python literal */
+function pythonLiteral(value: unknown, indent = ''): string {
+  if (value === null || value === undefined) {
+    return 'None';
+  }
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return '[]';
+    }
+    const inner = indent + '    ';
+    return `[\n${value.map(item => inner + pythonLiteral(item, inner)).join(',\n')},\n${indent}]`;
+  }
+  if (typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) {
+      return '{}';
+    }
+    const inner = indent + '    ';
+    const lines = entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${pythonLiteral(item, inner)}`);
+    return `{\n${lines.join(',\n')},\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+function curlValue(name: string, value: Value): string {
+  // Double quotes so the shell expands the variable
+  return typeof value === 'string'
+    ? shellQuote(`${name}: ${value}`)
+    : `"${name}: ${value.prefix}$${value.envVar}"`;
+}
+
+function toCurl(request: SnippetRequest): string {
+  const args: string[] = [];
+  if (request.stream) {
+    args.push('-N');
+  }
+  if (request.method === 'HEAD') {
+    args.push('--head');
+  } else if (request.method !== (request.body ? 'POST' : 'GET')) {
+    args.push(`-X ${request.method}`);
+  }
+  args.push(shellQuote(request.url));
+  for (const [name, value] of request.headers) {
+    args.push(`-H ${curlValue(name, value)}`);
+  }
+
+  let prefix = '';
+  if (request.body?.base64) {
+    prefix = `echo ${shellQuote(request.body.text)} | base64 -d | `;
+    args.push('--data-binary @-');
+  } else if (request.body) {
+    args.push(`--data-raw ${shellQuote(request.body.text)}`);
+  }
+  return `${prefix}curl ${args.join(' \\\n  ')}\n`;
+}
+
+function jsValue(value: Value): string {
+  return typeof value === 'string'
+    ? JSON.stringify(value)
+    : value.prefix ? `\`${value.prefix}\${process.env.${value.envVar}}\`` : `process.env.${value.envVar}`;
+}
+
+function toFetch(request: SnippetRequest): string {
+  const lines = [`const response = await fetch(${JSON.stringify(request.url)}, {`];
+  lines.push(`  method: ${JSON.stringify(request.method)},`);
+  if (request.headers.length > 0) {
+    lines.push('  headers: {');
+    for (const [name, value] of joinRepeated(request.headers)) {
+      lines.push(`    ${JSON.stringify(name)}: ${jsValue(value)},`);
+    }
+    lines.push('  },');
+  }
+  if (request.body?.base64) {
+    lines.push(`  body: Buffer.from(${JSON.stringify(request.body.text)}, 'base64'),`);
+  } else if (request.body?.json !== undefined) {
+    lines.push(`  body: JSON.stringify(${jsLiteral(request.body.json, '  ')}),`);
+  } else if (request.body) {
+    lines.push(`  body: ${JSON.stringify(request.body.text)},`);
+  }
+  lines.push('});');
+  lines.push('console.log(response.status);');
+  if (request.stream) {
+    lines.push('for await (const chunk of response.body) {');
+    lines.push('  process.stdout.write(chunk);');
+    lines.push('}');
+  } else {
+    lines.push('console.log(await response.text());');
+  }
+  return lines.join('\n') + '\n';
+}
+
+function pythonValue(value: Value): string {
+  return typeof value === 'string'
+    ? JSON.stringify(value)
+    : value.prefix ? `f"${value.prefix}{os.environ['${value.envVar}']}"` : `os.environ["${value.envVar}"]`;
+}
+
+function toPython(request: SnippetRequest): string {
+  const imports = ['requests'];
+  if (request.headers.some(([, value]) => typeof value !== 'string')) {
+    imports.unshift('os');
+  }
+  if (request.body?.base64) {
+    imports.unshift('base64');
+  }
+
+  const method = request.method.toLowerCase();
+  const known = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options'].includes(method);
+  const lines = [...imports.map(name => `import ${name}`), ''];
+  lines.push(known ? `response = requests.${method}(` : `response = requests.request(`);
+  if (!known) {
+    lines.push(`    ${JSON.stringify(request.method)},`);
+  }
+  lines.push(`    ${JSON.stringify(request.url)},`);
+  if (request.headers.length > 0) {
+    lines.push('    headers={');
+    for (const [name, value] of joinRepeated(request.headers)) {
+      lines.push(`        ${JSON.stringify(name)}: ${pythonValue(value)},`);
+    }
+    lines.push('    },');
+  }
+  if (request.body?.base64) {
+    lines.push(`    data=base64.b64decode(${JSON.stringify(request.body.text)}),`);
+  } else if (request.body?.json !== undefined) {
+    lines.push(`    json=${pythonLiteral(request.body.json, '    ')},`);
+  } else if (request.body) {
+    lines.push(`    data=${JSON.stringify(request.body.text)},`);
+  }
+  if (request.stream) {
+    lines.push('    stream=True,');
+  }
+  lines.push(')');
+  lines.push('print(response.status_code)');
+  if (request.stream) {
+    lines.push('for line in response.iter_lines():');
+    lines.push('    print(line.decode())');
+  } else {
+    lines.push('print(response.text)');
+  }
+  return lines.join('\n') + '\n';
+}
+
+/** Repeated headers as one comma-separated value, for clients taking a map */
+function joinRepeated(headers: [string, Value][]): [string, Value][] {
+  const joined: [string, Value][] = [];
+  for (const [name, value] of headers) {
+    const previous = joined.find(([other]) => other.toLowerCase() === name.toLowerCase());
+    if (previous && typeof previous[1] === 'string' && typeof value === 'string') {
+      previous[1] = `${previous[1]}, ${value}`;
+    } else if (!previous) {
+      joined.push([name, value]);
+    }
+  }
+  return joined;
+}
+
+interface SdkCall {
+  sdk: Sdk;
+  baseUrl?: string;
+  /** Client option and value for the key, unless the SDK reads it from its environment variable */
+  key?: { option: 'apiKey' | 'authToken'; value: string };
+  keyEnvVar: string;
+  params: Record<string, unknown>;
+  headers: [string, string][];
+  stream: boolean;
+}
+
+/**
+ * How an SDK would make this call, or a reason it can't: the endpoint
+ * must be the SDK's own path, with no query string, and the body JSON.
+ */
+function sdkCall(entry: RequestLogEntry, draft: ResendDraft, redact: boolean): SdkCall | string {
+  const sdk = entry.llm ? SDKS[entry.llm.api] : undefined;
+  if (!sdk) {
+    return 'SDK snippets are only available for recognised Anthropic and OpenAI requests';
+  }
+  const params = parseJson(draft.body);
+  if (!params || typeof params !== 'object' || Array.isArray(params) || draft.method.toUpperCase() !== 'POST') {
+    return 'SDK snippets need a JSON request body';
+  }
+  const url = new URL(draft.url);
+  if (url.search || !url.pathname.endsWith(sdk.path)) {
+    return `The SDK can't call ${draft.url}; it only sends to <base URL>${sdk.path}`;
+  }
+  const baseUrl = url.origin + url.pathname.slice(0, -sdk.path.length);
+
+  const call: SdkCall = {
+    sdk,
+    baseUrl: baseUrl === sdk.defaultBaseUrl ? undefined : baseUrl,
+    keyEnvVar: sdk.keyEnvVar,
+    params: params as Record<string, unknown>,
+    headers: [],
+    stream: (params as Record<string, unknown>).stream === true,
+  };
+
+  const headers = new Map(Object.entries(draft.headers).map(([name, value]) =>
+    [name.toLowerCase(), Array.isArray(value) ? value.join(', ') : value]
+  ));
+  const bearer = /^Bearer (\S+)$/i.exec(headers.get('authorization') || '')?.[1];
+  const apiKey = headers.get('x-api-key') || headers.get('api-key') || (entry.llm?.api !== 'anthropic-messages' ? bearer : undefined);
+  // A key saved masked leaves the SDK to read it from the environment
+  if (!apiKey && bearer) {
+    // Anthropic sends OAuth tokens as a bearer token instead of an API key
+    call.keyEnvVar = 'ANTHROPIC_AUTH_TOKEN';
+    call.key = redact || isMasked(bearer) ? undefined : { option: 'authToken', value: bearer };
+  } else if (apiKey && !redact && !isMasked(apiKey)) {
+    call.key = { option: 'apiKey', value: apiKey };
+  }
+
+  for (const [name, value] of headers) {
+    if (!SDK_HEADERS.includes(name) && !name.startsWith('x-stainless-') && value !== undefined) {
+      call.headers.push([name, value]);
+    }
+  }
+  return call;
+}
+
+function snakeCase(name: string): string {
+  return name.replace(/[A-Z]/g, letter => `_${letter.toLowerCase()}`);
+}
+
+function toSdkPython(call: SdkCall): string {
+  const options: string[] = [];
+  if (call.key) {
+    options.push(`${snakeCase(call.key.option)}=${JSON.stringify(call.key.value)}`);
+  }
+  if (call.baseUrl) {
+    options.push(`base_url=${JSON.stringify(call.baseUrl)}`);
+  }
+  const lines = [call.sdk.pythonImport, ''];
+  if (!call.key) {
+    lines.push(`# Reads ${call.keyEnvVar} from the environment`);
+  }
+  lines.push(`client = ${call.sdk.pythonClient}(${options.join(', ')})`, '');
+
+  const result = call.stream ? 'stream' : 'response';
+  lines.push(`${result} = client.${call.sdk.call}(`);
+  const extra: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(call.params)) {
+    if (/^[A-Za-z_]\w*$/.test(key)) {
+      lines.push(`    ${key}=${pythonLiteral(value, '    ')},`);
+    } else {
+      extra[key] = value;
+    }
+  }
+  if (Object.keys(extra).length > 0) {
+    lines.push(`    extra_body=${pythonLiteral(extra, '    ')},`);
+  }
+  if (call.headers.length > 0) {
+    lines.push(`    extra_headers=${pythonLiteral(Object.fromEntries(call.headers), '    ')},`);
+  }
+  lines.push(')');
+  if (call.stream) {
+    lines.push('for event in stream:', '    print(event)');
+  } else {
+    lines.push('print(response)');
+  }
+  return lines.join('\n') + '\n';
+}
+
+function toSdkTypescript(call: SdkCall): string {
+  const options: Record<string, string> = {};
+  if (call.key) {
+    options[call.key.option] = call.key.value;
+  }
+  if (call.baseUrl) {
+    options.baseURL = call.baseUrl;
+  }
+  const lines = [call.sdk.typescriptImport, ''];
+  if (!call.key) {
+    lines.push(`// Reads ${call.keyEnvVar} from the environment`);
+  }
+  const clientOptions = Object.keys(options).length > 0 ? jsLiteral(options) : '';
+  lines.push(`const client = new ${call.sdk.typescriptClient}(${clientOptions});`, '');
+
+  const result = call.stream ? 'stream' : 'response';
+  const requestOptions = call.headers.length > 0 ? `, ${jsLiteral({ headers: Object.fromEntries(call.headers) })}` : '';
+  lines.push(`const ${result} = await client.${call.sdk.call}(${jsLiteral(call.params)}${requestOptions});`);
+  if (call.stream) {
+    lines.push('for await (const event of stream) {', '  console.log(event);', '}');
+  } else {
+    lines.push('console.log(response);');
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Code that sends a captured request again, as it went upstream. With
+ * `redact`, the API key is read from an environment variable instead of
+ * being written out. Throws when the format doesn't apply to the request
+ * or its body wasn't captured in full.
+ */
+export async function buildSnippet(
+  entry: RequestLogEntry,
+  format: SnippetFormat,
+  redact: boolean,
+  config: SnifferConfig,
+  blobs: BlobStore | null
+): Promise<string> {
+  if (entry.method === 'CONNECT') {
+    throw new Error('CONNECT tunnels have no request to copy');
+  }
+  const draft = await resendDraft(entry, config, blobs);
+  if (draft.truncated) {
+    throw new Error('Only a preview of the request body was captured; start with --store-bodies to keep all of it');
+  }
+
+  if (format === 'sdk-python' || format === 'sdk-typescript') {
+    const call = sdkCall(entry, draft, redact);
+    if (typeof call === 'string') {
+      throw new Error(call);
+    }
+    return format === 'sdk-python' ? toSdkPython(call) : toSdkTypescript(call);
+  }
+
+  const request = snippetRequest(entry, draft, redact);
+  switch (format) {
+    case 'curl':
+      return toCurl(request);
+    case 'fetch':
+      return toFetch(request);
+    case 'python':
+      return toPython(request);
+  }
+}
@@ -0,0 +1,343 @@
+import { StringDecoder } from 'string_decoder';
+import { asList, asObject, errorText, isObject, JsonObject, optionalString } from './decoders/common';
+import { SseEventRecord, StreamedContentBlock, StreamedMessage } from './types';
+
+export function isEventStream(headers: Record<string, string | string[] | undefined>): boolean {
+  const contentType = headers['content-type'];
+  const value = Array.isArray(contentType) ? contentType[0] : contentType;
+  return !!value && value.toLowerCase().includes('text/event-stream');
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format. Bytes can be fed in
+ * arbitrary slices; an event is emitted each time a blank line terminates one.
+ */
+export class SseParser {
+  private decoder = new StringDecoder('utf8');
+  private partial = '';
+  private skipLineFeed = false;
+  private eventName: string | undefined;
+  private eventId: string | undefined;
+  private dataLines: string[] = [];
+  private onEvent: (event: Omit<SseEventRecord, 'offsetMs'>) => void;
+
+  constructor(onEvent: (event: Omit<SseEventRecord, 'offsetMs'>) => void) {
+    this.onEvent = onEvent;
+  }
+
+  public feed(chunk: Buffer): void {
+    this.consume(this.decoder.write(chunk));
+  }
+
+  public end(): void {
+    this.consume(this.decoder.end());
+    if (this.partial) {
+      this.processLine(this.partial);
+      this.partial = '';
+    }
+    this.dispatch();
+  }
+
+  private consume(text: string): void {
+    if (!text) {
+      return;
+    }
+
+    // A chunk ending in '\r' may have split a '\r\n' pair
+    if (this.skipLineFeed && text.startsWith('\n')) {
+      text = text.substring(1);
+    }
+    this.skipLineFeed = text.endsWith('\r');
+
+    const lines = (this.partial + text).split(/\r\n|\r|\n/);
+    // The last element is an unterminated line (or '' after a newline)
+    this.partial = lines.pop() || '';
+
+    for (const line of lines) {
+      this.processLine(line);
+    }
+  }
+
+  private processLine(line: string): void {
+    if (line === '') {
+      this.dispatch();
+      return;
+    }
+
+    // Comment lines (e.g. OpenRouter keep-alives) carry no data
+    if (line.startsWith(':')) {
+      return;
+    }
+
+    const colonIdx = line.indexOf(':');
+    const field = colonIdx === -1 ? line : line.substring(0, colonIdx);
+    let value = colonIdx === -1 ? '' : line.substring(colonIdx + 1);
+    if (value.startsWith(' ')) {
+      value = value.substring(1);
+    }
+
+    switch (field) {
+      case 'event':
+        this.eventName = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        this.eventId = value;
+        break;
+      default:
+        // 'retry' and unknown fields don't affect what we record
+        break;
+    }
+  }
+
+  private dispatch(): void {
+    if (this.dataLines.length > 0 || this.eventName) {
+      this.onEvent({
+        event: this.eventName,
+        data: this.dataLines.join('\n'),
+        id: this.eventId,
+      });
+    }
+    this.eventName = undefined;
+    this.dataLines = [];
+  }
+}
+
+/**
+ * Rebuilds the final assistant message from streamed events. Understands the
+ * Anthropic Messages stream, OpenAI Chat Completions chunks (also used by
+ * OpenRouter) and the OpenAI Responses API stream.
+ */
+export class StreamAssembler {
+  private message: StreamedMessage = { format: 'unknown', blocks: [], text: '' };
+  // Anthropic and Responses events address blocks by index / item id
+  private blocksByKey: Map<string, StreamedContentBlock> = new Map();
+
+  public push(event: Omit<SseEventRecord, 'offsetMs'>): void {
+    if (!event.data || event.data === '[DONE]') {
+      return;
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(event.data);
+    } catch {
+      return;
+    }
+    if (!isObject(payload)) {
+      return;
+    }
+
+    const type = optionalString(payload.type) ?? event.event ?? '';
+
+    if (type.startsWith('response.')) {
+      this.pushResponses(type, payload);
+    } else if (Array.isArray(payload.choices) || payload.object === 'chat.completion.chunk') {
+      this.pushChatChunk(payload);
+    } else if (type) {
+      this.pushAnthropic(type, payload);
+    }
+  }
+
+  public result(): StreamedMessage | undefined {
+    if (this.message.format === 'unknown') {
+      return undefined;
+    }
+
+    this.message.text = this.message.blocks
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+    return this.message;
+  }
+
+  private block(key: string, init: StreamedContentBlock): StreamedContentBlock {
+    let block = this.blocksByKey.get(key);
+    if (!block) {
+      block = init;
+      this.blocksByKey.set(key, block);
+      this.message.blocks.push(block);
+    }
+    return block;
+  }
+
+  private mergeUsage(usage: unknown): void {
+    if (!isObject(usage)) {
+      return;
+    }
+
+    const merged = this.message.usage || {};
+    for (const [key, value] of Object.entries(usage)) {
+      if (typeof value === 'number') {
+        merged[key] = value;
+      } else if (isObject(value)) {
+        // Flatten nested details like prompt_tokens_details.cached_tokens
+        for (const [subKey, subValue] of Object.entries(value)) {
+          if (typeof subValue === 'number') {
+            merged[`${key}.${subKey}`] = subValue;
+          }
+        }
+      }
+    }
+    this.message.usage = merged;
+  }
+
+  private pushAnthropic(type: string, payload: JsonObject): void {
+    switch (type) {
+      case 'message_start': {
+        this.message.format = 'anthropic';
+        const message = asObject(payload.message);
+        this.message.id = optionalString(message.id);
+        this.message.model = optionalString(message.model);
+        this.mergeUsage(message.usage);
+        break;
+      }
+      case 'content_block_start': {
+        this.message.format = 'anthropic';
+        const contentBlock = asObject(payload.content_block);
+        const blockType = contentBlock.type === 'tool_use' || contentBlock.type === 'server_tool_use'
+          ? 'tool_use'
+          : contentBlock.type === 'thinking' || contentBlock.type === 'redacted_thinking' ? 'thinking' : 'text';
+        const block = this.block(String(payload.index), { type: blockType });
+        if (blockType === 'tool_use') {
+          block.id = optionalString(contentBlock.id);
+          block.name = optionalString(contentBlock.name);
+          block.input = '';
+        } else if (blockType === 'thinking') {
+          block.text = optionalString(contentBlock.thinking) || '';
+        } else {
+          block.text = optionalString(contentBlock.text) || '';
+        }
+        break;
+      }
+      case 'content_block_delta': {
+        const delta = asObject(payload.delta);
+        const block = this.block(String(payload.index), {
+          type: delta.type === 'input_json_delta' ? 'tool_use' : delta.type === 'thinking_delta' ? 'thinking' : 'text',
+        });
+        if (delta.type === 'text_delta') {
+          block.text = (block.text || '') + (optionalString(delta.text) || '');
+        } else if (delta.type === 'input_json_delta') {
+          block.input = (block.input || '') + (optionalString(delta.partial_json) || '');
+        } else if (delta.type === 'thinking_delta') {
+          block.text = (block.text || '') + (optionalString(delta.thinking) || '');
+        }
+        break;
+      }
+      case 'message_delta': {
+        const stopReason = optionalString(asObject(payload.delta).stop_reason);
+        if (stopReason) {
+          this.message.stopReason = stopReason;
+        }
+        this.mergeUsage(payload.usage);
+        break;
+      }
+      case 'error':
+        this.message.format = this.message.format === 'unknown' ? 'anthropic' : this.message.format;
+        this.message.error = errorText(payload.error);
+        break;
+      default:
+        break;
+    }
+  }
+
+  private pushChatChunk(payload: JsonObject): void {
+    this.message.format = 'openai-chat';
+    this.message.id = this.message.id || optionalString(payload.id);
+    this.message.model = this.message.model || optionalString(payload.model);
+    this.mergeUsage(payload.usage);
+
+    if (payload.error) {
+      this.message.error = errorText(payload.error);
+    }
+
+    for (const choice of asList(payload.choices).map(asObject)) {
+      // Only the first choice is reassembled; n > 1 is rare for agents
+      if ((choice.index ?? 0) !== 0) {
+        continue;
+      }
+
+      const delta = asObject(choice.delta);
+      const reasoning = delta.reasoning ?? delta.reasoning_content;
+      if (typeof reasoning === 'string' && reasoning) {
+        const block = this.block('reasoning', { type: 'thinking', text: '' });
+        block.text += reasoning;
+      }
+      if (typeof delta.content === 'string' && delta.content) {
+        const block = this.block('content', { type: 'text', text: '' });
+        block.text += delta.content;
+      }
+      for (const toolCall of asList(delta.tool_calls).map(asObject)) {
+        const fn = asObject(toolCall.function);
+        const block = this.block(`tool:${toolCall.index ?? 0}`, { type: 'tool_use', input: '' });
+        block.id = block.id || optionalString(toolCall.id);
+        block.name = block.name || optionalString(fn.name);
+        block.input = (block.input || '') + (optionalString(fn.arguments) || '');
+      }
+      const finishReason = optionalString(choice.finish_reason);
+      if (finishReason) {
+        this.message.stopReason = finishReason;
+      }
+    }
+  }
+
+  private pushResponses(type: string, payload: JsonObject): void {
+    this.message.format = 'openai-responses';
+
+    switch (type) {
+      case 'response.created':
+      case 'response.in_progress': {
+        const response = asObject(payload.response);
+        this.message.id = optionalString(response.id);
+        this.message.model = optionalString(response.model);
+        break;
+      }
+      case 'response.output_item.added': {
+        const item = asObject(payload.item);
+        if (item.type === 'function_call') {
+          const block = this.block(String(item.id), { type: 'tool_use', input: '' });
+          block.id = optionalString(item.call_id) || optionalString(item.id);
+          block.name = optionalString(item.name);
+        } else if (item.type === 'reasoning') {
+          this.block(String(item.id), { type: 'thinking', text: '' });
+        }
+        break;
+      }
+      case 'response.output_text.delta': {
+        const block = this.block(`${payload.item_id}:${payload.content_index ?? 0}`, { type: 'text', text: '' });
+        block.text += optionalString(payload.delta) || '';
+        break;
+      }
+      case 'response.reasoning_summary_text.delta':
+      case 'response.reasoning_text.delta': {
+        const block = this.block(String(payload.item_id), { type: 'thinking', text: '' });
+        block.text = (block.text || '') + (optionalString(payload.delta) || '');
+        break;
+      }
+      case 'response.function_call_arguments.delta': {
+        const block = this.block(String(payload.item_id), { type: 'tool_use', input: '' });
+        block.input = (block.input || '') + (optionalString(payload.delta) || '');
+        break;
+      }
+      case 'response.completed':
+      case 'response.incomplete':
+      case 'response.failed': {
+        const response = asObject(payload.response);
+        this.message.model = optionalString(response.model) || this.message.model;
+        this.message.stopReason = optionalString(asObject(response.incomplete_details).reason) || optionalString(response.status);
+        this.mergeUsage(response.usage);
+        if (response.error) {
+          this.message.error = errorText(response.error);
+        }
+        break;
+      }
+      case 'error':
+        this.message.error = errorText(payload);
+        break;
+      default:
+        break;
+    }
+  }
+}
@@ -0,0 +1,146 @@
+import { costOf, DEFAULT_PRICES, priceFor } from './pricing';
+import { ModelPrice, RequestLogEntry, SnifferConfig } from './types';
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+  costUsd: number;
+  /** Requests whose model had no price, so their cost isn't included */
+  unpricedRequests: number;
+}
+
+export interface UsageBucket extends UsageTotals {
+  /** Start of the minute, in epoch milliseconds */
+  time: number;
+}
+
+export interface UsageStats {
+  since: string;
+  totals: UsageTotals;
+  byModel: Record<string, UsageTotals>;
+  byHost: Record<string, UsageTotals>;
+  byClient: Record<string, UsageTotals>;
+  timeSeries: UsageBucket[];
+}
+
+const BUCKET_MS = 60 * 1000;
+// One day of per-minute buckets
+const MAX_BUCKETS = 24 * 60;
+
+function emptyTotals(): UsageTotals {
+  return {
+    requests: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheReadTokens: 0,
+    cacheWriteTokens: 0,
+    costUsd: 0,
+    unpricedRequests: 0,
+  };
+}
+
+/**
+ * Aggregates token usage and cost of completed LLM calls per model, host and
+ * launching client, plus a per-minute time series for the dashboard.
+ */
+export class StatsTracker {
+  private config: SnifferConfig;
+  private since = new Date();
+  private totals: UsageTotals = emptyTotals();
+  private byModel: Map<string, UsageTotals> = new Map();
+  private byHost: Map<string, UsageTotals> = new Map();
+  private byClient: Map<string, UsageTotals> = new Map();
+  private buckets: UsageBucket[] = [];
+
+  constructor(config: SnifferConfig) {
+    this.config = config;
+  }
+
+  private prices(): Record<string, ModelPrice> {
+    return { ...DEFAULT_PRICES, ...(this.config.prices || {}) };
+  }
+
+  /**
+   * Price a finished entry and fold it into the aggregates. Sets
+   * `entry.llm.costUsd` when the model has a known price.
+   */
+  public record(entry: RequestLogEntry): void {
+    const usage = entry.llm?.response?.usage;
+    if (!entry.llm || !usage) {
+      return;
+    }
+
+    const model = entry.llm.response?.model || entry.llm.request.model || 'unknown';
+    const price = priceFor(model, this.prices());
+    if (price) {
+      entry.llm.costUsd = costOf(usage, price);
+    }
+
+    const time = Math.floor(Date.parse(entry.completedAt || entry.timestamp) / BUCKET_MS) * BUCKET_MS;
+    const targets = [
+      this.totals,
+      this.group(this.byModel, model),
+      this.group(this.byHost, entry.host),
+      this.group(this.byClient, entry.clientId || 'unattributed'),
+      this.bucket(time),
+    ];
+
+    for (const totals of targets) {
+      totals.requests++;
+      totals.inputTokens += usage.inputTokens;
+      totals.outputTokens += usage.outputTokens;
+      totals.cacheReadTokens += usage.cacheReadTokens;
+      totals.cacheWriteTokens += usage.cacheWriteTokens;
+      if (entry.llm.costUsd !== undefined) {
+        totals.costUsd += entry.llm.costUsd;
+      } else {
+        totals.unpricedRequests++;
+      }
+    }
+  }
+
+  private group(map: Map<string, UsageTotals>, key: string): UsageTotals {
+    let totals = map.get(key);
+    if (!totals) {
+      totals = emptyTotals();
+      map.set(key, totals);
+    }
+    return totals;
+  }
+
+  private bucket(time: number): UsageBucket {
+    let bucket = this.buckets.find(candidate => candidate.time === time);
+    if (!bucket) {
+      bucket = { time, ...emptyTotals() };
+      this.buckets.push(bucket);
+      this.buckets.sort((a, b) => a.time - b.time);
+      if (this.buckets.length > MAX_BUCKETS) {
+        this.buckets.shift();
+      }
+    }
+    return bucket;
+  }
+
+  public snapshot(): UsageStats {
+    return {
+      since: this.since.toISOString(),
+      totals: this.totals,
+      byModel: Object.fromEntries(this.byModel),
+      byHost: Object.fromEntries(this.byHost),
+      byClient: Object.fromEntries(this.byClient),
+      timeSeries: this.buckets,
+    };
+  }
+
+  public reset(): void {
+    this.since = new Date();
+    this.totals = emptyTotals();
+    this.byModel.clear();
+    this.byHost.clear();
+    this.byClient.clear();
+    this.buckets = [];
+  }
+}
@@ -0,0 +1,278 @@
+import * as fs from 'fs';
+import { RequestLogEntry, RequestPhase } from './types';
+
+/**
+ * The request list filters, shared by the UI list, HAR export and paging.
+ */
+export interface RequestFilter {
+  /** Substring of host or path, case-insensitive */
+  search?: string;
+  method?: string;
+  watched?: 'watched' | 'other';
+}
+
+/**
+ * The fields the request list needs. Full entries are fetched by id when a
+ * request is opened.
+ */
+export type RequestSummary = Pick<
+  RequestLogEntry,
+  'id' | 'phase' | 'timestamp' | 'completedAt' | 'durationMs' | 'ttfbMs' | 'error' |
+  'method' | 'host' | 'path' | 'watched' | 'statusCode' | 'clientId'
+> & { summary: true };
+
+export interface RequestPage<T = RequestLogEntry | RequestSummary> {
+  /** Matching requests in total, across all pages */
+  total: number;
+  offset: number;
+  /** Newest first */
+  entries: T[];
+}
+
+/**
+ * A browsable collection of entries: a log file opened for viewing or a
+ * session in the history database.
+ */
+export interface RequestStore {
+  query(filter: RequestFilter, offset: number, limit: number): RequestPage;
+  counts(): { total: number; watched: number };
+  get(id: string): Promise<RequestLogEntry | undefined>;
+  /** Full entries matching a filter, oldest first */
+  entries(filter: RequestFilter): Promise<RequestLogEntry[]>;
+}
+
+export function filterFromParams(params: URLSearchParams): RequestFilter {
+  const watched = params.get('watched');
+  return {
+    search: params.get('search') || undefined,
+    method: params.get('method') || undefined,
+    watched: watched === 'watched' || watched === 'other' ? watched : undefined,
+  };
+}
+
+export function matchesFilter(entry: RequestLogEntry | RequestSummary, filter: RequestFilter): boolean {
+  const search = filter.search?.toLowerCase();
+  if (search && !entry.host.toLowerCase().includes(search) && !entry.path.toLowerCase().includes(search)) return false;
+  if (filter.method && entry.method !== filter.method) return false;
+  if (filter.watched === 'watched' && !entry.watched) return false;
+  if (filter.watched === 'other' && entry.watched) return false;
+  return true;
+}
+
+/**
+ * Page through entries kept oldest first, returning the newest first.
+ */
+export function pageOf<T extends RequestLogEntry | RequestSummary>(
+  entries: T[],
+  filter: RequestFilter,
+  offset: number,
+  limit: number
+): RequestPage<T> {
+  const matching = entries.filter(entry => matchesFilter(entry, filter));
+  const end = Math.max(0, matching.length - offset);
+  return {
+    total: matching.length,
+    offset,
+    entries: matching.slice(Math.max(0, end - limit), end).reverse(),
+  };
+}
+
+function summarize(entry: RequestLogEntry): RequestSummary {
+  return {
+    summary: true,
+    id: entry.id,
+    phase: entry.phase,
+    timestamp: entry.timestamp,
+    completedAt: entry.completedAt,
+    durationMs: entry.durationMs,
+    ttfbMs: entry.ttfbMs,
+    error: entry.error,
+    method: entry.method,
+    host: entry.host,
+    path: entry.path,
+    watched: entry.watched,
+    statusCode: entry.statusCode,
+    clientId: entry.clientId,
+  };
+}
+
+const PHASES: RequestPhase[] = ['pending', 'complete', 'error', 'aborted'];
+// Ids end up in the Web UI's links and handlers
+const ENTRY_ID = /^[\w-]+$/;
+const NUMBER_FIELDS = ['durationMs', 'ttfbMs', 'bytesSent', 'bytesReceived', 'statusCode', 'responseSize'] as const;
+const STRING_FIELDS = ['timestamp', 'completedAt', 'error', 'host', 'path', 'clientId'] as const;
+
+/**
+ * A log line comes from whoever wrote the file, so the fields the request
+ * list and detail panel show are checked: a bad id or phase is replaced
+ * and other fields of the wrong type are dropped.
+ */
+function repairEntry(entry: Record<string, unknown>, lineNumber: number): RequestLogEntry {
+  for (const field of NUMBER_FIELDS) {
+    if (entry[field] !== undefined && !(typeof entry[field] === 'number' && Number.isFinite(entry[field]))) {
+      delete entry[field];
+    }
+  }
+  for (const field of STRING_FIELDS) {
+    if (entry[field] !== undefined && typeof entry[field] !== 'string') {
+      delete entry[field];
+    }
+  }
+  if (typeof entry.id !== 'string' || !ENTRY_ID.test(entry.id)) {
+    entry.id = `line-${lineNumber}`;
+  }
+  if (entry.replayOf !== undefined && (typeof entry.replayOf !== 'string' || !ENTRY_ID.test(entry.replayOf))) {
+    delete entry.replayOf;
+  }
+  if (!PHASES.includes(entry.phase as RequestPhase)) {
+    entry.phase = entry.statusCode ? 'complete' : 'pending';
+  }
+  entry.host ??= '';
+  entry.path ??= '';
+  entry.timestamp ??= '';
+  return entry as unknown as RequestLogEntry;
+}
+
+interface LineLocation {
+  offset: number;
+  length: number;
+}
+
+/**
+ * Read-only view of a JSON-lines log written by the Logger. Only a summary
+ * and the byte range of each entry's latest line are kept in memory, so
+ * logs far larger than the live buffer can be browsed.
+ *
+ * Each request is usually logged twice (when sent and when answered); the
+ * later line wins. Lines from before entries had ids get a synthetic one.
+ */
+export class LogFileStore implements RequestStore {
+  private file: string;
+  private summaries: RequestSummary[] = [];
+  private byId: Map<string, { summary: RequestSummary; location: LineLocation }> = new Map();
+  private skipped = 0;
+
+  private constructor(file: string) {
+    this.file = file;
+  }
+
+  /**
+   * Index a log file. `onEntry` sees every parsed line in order, e.g. to
+   * rebuild usage stats.
+   */
+  public static async load(file: string, onEntry?: (entry: RequestLogEntry) => void): Promise<LogFileStore> {
+    const store = new LogFileStore(file);
+    await store.index(onEntry);
+    return store;
+  }
+
+  public get size(): number {
+    return this.summaries.length;
+  }
+
+  /** Lines that weren't valid JSON entries, e.g. a half-written last line */
+  public get skippedLines(): number {
+    return this.skipped;
+  }
+
+  private async index(onEntry?: (entry: RequestLogEntry) => void): Promise<void> {
+    let offset = 0;
+    let lineNumber = 0;
+    let partial: Buffer = Buffer.alloc(0);
+
+    const handleLine = (line: Buffer, lineOffset: number) => {
+      lineNumber++;
+      const entry = this.parseLine(line, lineNumber);
+      if (!entry) {
+        return;
+      }
+
+      const location = { offset: lineOffset, length: line.length };
+      const summary = summarize(entry);
+      const existing = this.byId.get(entry.id);
+      if (existing) {
+        // Update in place so the list keeps the order requests were sent in
+        Object.assign(existing.summary, summary);
+        existing.location = location;
+      } else {
+        this.byId.set(entry.id, { summary, location });
+        this.summaries.push(summary);
+      }
+      onEntry?.(entry);
+    };
+
+    for await (const chunk of fs.createReadStream(this.file)) {
+      const data: Buffer = partial.length > 0 ? Buffer.concat([partial, chunk as Buffer]) : chunk as Buffer;
+      const dataOffset = offset - partial.length;
+      let start = 0;
+      let newline: number;
+      while ((newline = data.indexOf(0x0a, start)) !== -1) {
+        handleLine(data.subarray(start, newline), dataOffset + start);
+        start = newline + 1;
+      }
+      partial = data.subarray(start);
+      offset += (chunk as Buffer).length;
+    }
+    if (partial.length > 0) {
+      handleLine(partial, offset - partial.length);
+    }
+  }
+
+  private parseLine(line: Buffer, lineNumber: number): RequestLogEntry | undefined {
+    if (line.length === 0) {
+      return undefined;
+    }
+    try {
+      const entry: unknown = JSON.parse(line.toString('utf8'));
+      if (!entry || typeof entry !== 'object' || Array.isArray(entry) || typeof (entry as Record<string, unknown>).method !== 'string') {
+        throw new Error('not an entry');
+      }
+      return repairEntry(entry as Record<string, unknown>, lineNumber);
+    } catch {
+      this.skipped++;
+      return undefined;
+    }
+  }
+
+  public query(filter: RequestFilter, offset: number, limit: number): RequestPage<RequestSummary> {
+    return pageOf(this.summaries, filter, offset, limit);
+  }
+
+  public counts(): { total: number; watched: number } {
+    return {
+      total: this.summaries.length,
+      watched: this.summaries.filter(summary => summary.watched).length,
+    };
+  }
+
+  public async entries(filter: RequestFilter): Promise<RequestLogEntry[]> {
+    const entries: RequestLogEntry[] = [];
+    for (const summary of this.summaries) {
+      if (matchesFilter(summary, filter)) {
+        const entry = await this.get(summary.id);
+        if (entry) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries;
+  }
+
+  public async get(id: string): Promise<RequestLogEntry | undefined> {
+    const found = this.byId.get(id);
+    if (!found) {
+      return undefined;
+    }
+
+    const handle = await fs.promises.open(this.file, 'r');
+    try {
+      const buffer = Buffer.alloc(found.location.length);
+      await handle.read(buffer, 0, buffer.length, found.location.offset);
+      // The id and phase come from the index
+      const entry = repairEntry(JSON.parse(buffer.toString('utf8')), 0);
+      return { ...entry, id, phase: found.summary.phase };
+    } finally {
+      await handle.close();
+    }
+  }
+}
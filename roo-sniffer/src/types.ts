@@ -3,21 +3,462 @@ import { IncomingMessage, ServerResponse } from 'http';
 export interface SnifferConfig {
   port: number;
   logFile: string;
+  /** Domain patterns to intercept and capture in full; see `compileDomainPattern` */
   watchDomains: string[];
+  /** Domain patterns left out of the log entirely, even when watched */
+  ignoreDomains: string[];
+  /**
+   * How much of each domain's traffic is seen; the first match wins. Other
+   * hosts get `full` when watched and `metadata` otherwise.
+   */
+  domainPolicies: DomainPolicy[];
   verbose: boolean;
   certDir: string;
+  /** Per-model prices merged over the built-in table */
+  prices?: Record<string, ModelPrice>;
+  /** Characters of each body kept inline on the entry (0 disables previews) */
+  previewLimit: number;
+  /** Write complete bodies of watched requests to the blob directory */
+  storeBodies: boolean;
+  /** Blob directory; defaults to `<log name>-bodies` next to the log file */
+  bodyDir?: string;
+  /** Persist every entry to the SQLite history database */
+  history: boolean;
+  /** History database; defaults to `<log name>.db` next to the log file */
+  historyFile?: string;
+  /** Name of the session started at launch */
+  sessionName?: string;
+  /** JSON file of rewrite rules, reloaded when it changes */
+  rulesFile?: string;
+  /** How long a request waits at a breakpoint before it is forwarded as is */
+  breakpointTimeoutMs: number;
+  /** Directory of mock responses; defaults to `<log name>-mocks` next to the log file */
+  mocksDir?: string;
+  /** Record watched exchanges into this directory */
+  recordDir?: string;
+  /** Answer watched requests from the recordings in this directory */
+  replayDir?: string;
+  /** Replay timing: 1 as recorded, 2 twice as fast, 0 without delays */
+  replaySpeed: number;
+  /** Whether a request missing from the recordings fails or goes upstream */
+  replayMisses: 'fail' | 'passthrough';
+  /** Mask secrets in console output, the log file, history and the Web UI */
+  redact: boolean;
+  /** Regexes of further secrets to mask, besides the built-in ones */
+  redactPatterns?: string[];
+  /** Address the Web UI listens on */
+  uiHost: string;
+  /** Token the Web UI requires; a random one is made for each run */
+  uiToken?: string;
+  /** Apps the Web UI can launch; VSCode, Chrome and Cursor when unset */
+  launchProfiles?: LaunchProfile[];
 }
 
+/**
+ * An app the Web UI may launch.
+ */
+export interface LaunchProfile {
+  name: string;
+  command: string;
+}
+
+/**
+ * How much of a host's traffic the proxy sees. `passthrough` tunnels it and
+ * logs only the CONNECT; `metadata` also records the SNI, bytes and duration
+ * of the tunnel; `headers` intercepts it and logs requests without bodies;
+ * `full` logs bodies too. Plain HTTP is forwarded either way, with headers
+ * and bodies kept as for intercepted traffic.
+ */
+export type InterceptPolicy = 'passthrough' | 'metadata' | 'headers' | 'full';
+
+export const INTERCEPT_POLICIES: InterceptPolicy[] = ['passthrough', 'metadata', 'headers', 'full'];
+
+export interface DomainPolicy {
+  /** Domain pattern, as in `watchDomains` */
+  domain: string;
+  policy: InterceptPolicy;
+}
+
+/**
+ * USD per million tokens.
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
+
+export type RequestPhase = 'pending' | 'complete' | 'error' | 'aborted';
+
 export interface RequestLogEntry {
+  id: string;
+  phase: RequestPhase;
   timestamp: string;
+  completedAt?: string;
+  durationMs?: number;
+  ttfbMs?: number;
+  error?: string;
   method: string;
   host: string;
   path: string;
   watched: boolean;
+  /** Policy of the host when the request arrived */
+  policy?: InterceptPolicy;
+  /** Server name the client asked for in its TLS ClientHello */
+  sni?: string;
+  /** Bytes the client sent through a tunnel, and received from it */
+  bytesSent?: number;
+  bytesReceived?: number;
+  /** HTTP version the client spoke, e.g. `1.1` or `2.0` */
+  httpVersion?: string;
+  /** HTTP version of the upstream's response, when it differs from the client's */
+  upstreamHttpVersion?: string;
+  /** Base64 of the first bytes when `bodyBinary` is set */
   bodyPreview?: string;
+  bodyBinary?: boolean;
+  /** content-encoding removed from the request body before capture */
+  bodyEncoding?: string;
+  requestBody?: BlobRef;
   headers?: Record<string, string | string[] | undefined>;
   statusCode?: number;
+  responseHeaders?: Record<string, string | string[] | undefined>;
   responsePreview?: string;
+  responseBinary?: boolean;
+  responseEncoding?: string;
+  /** Bytes of the response body, after decompression */
+  responseSize?: number;
+  responseBody?: BlobRef;
+  /** Why a body couldn't be decompressed; it was captured as sent */
+  decodeError?: string;
+  sseEvents?: SseEventRecord[];
+  sseEventsTruncated?: boolean;
+  /** Messages of a WebSocket, filled in while it is open */
+  webSocketMessages?: WebSocketMessageRecord[];
+  webSocketMessagesTruncated?: boolean;
+  streamedMessage?: StreamedMessage;
+  llm?: LlmExchange;
+  /** Who sent the request, from the proxy credentials given to launched apps */
+  clientId?: string;
+  /** Names of the rewrite rules applied; headers and bodies are as rewritten */
+  rules?: string[];
+  /** Where the request was sent when a rule rewrote its URL */
+  upstreamUrl?: string;
+  /** Set while the exchange is held at a breakpoint */
+  paused?: 'request' | 'response';
+  /** Name of the mock that answered instead of the upstream */
+  mock?: string;
+  /** Fingerprint of the recording that answered instead of the upstream */
+  replayed?: string;
+  /** Id of the captured request this one re-sent from the Web UI */
+  replayOf?: string;
+}
+
+/**
+ * Reference to a full body in the content-addressed blob store.
+ */
+export interface BlobRef {
+  hash: string;
+  size: number;
+  contentType?: string;
+}
+
+/**
+ * A named recording in the history database. Entries belong to the session
+ * that was recording when they were captured.
+ */
+export interface Session {
+  id: number;
+  name: string;
+  startedAt: string;
+  /** Unset while the session is still recording */
+  endedAt?: string;
+  entryCount: number;
+}
+
+/**
+ * Selects requests for rules and other per-request features. Every field
+ * that is set must match. Patterns are exact strings, globs with `*`, or a
+ * regex after `re:`, e.g. `re:^/v1/(chat/)?completions$`. All but path
+ * patterns ignore case.
+ */
+export interface RequestMatcher {
+  /** Hostname without the port */
+  host?: string;
+  /** Matched without the query string unless the pattern contains `?` */
+  path?: string;
+  method?: string;
+  /** Header name to value pattern; `*` only requires the header */
+  headers?: Record<string, string>;
+}
+
+/**
+ * One edit to a JSON body. Paths are JSONPath-style: `$.model`,
+ * `$.messages[0].content`, `$.messages[-1]`, `$.tools[*].description`.
+ */
+export interface BodyEdit {
+  op: 'set' | 'remove' | 'replace';
+  path: string;
+  /** New value for `set` */
+  value?: unknown;
+  /** Regex for `replace`, applied to every string under the path */
+  pattern?: string;
+  replacement?: string;
+}
+
+export interface MessageRewrite {
+  setHeaders?: Record<string, string>;
+  removeHeaders?: string[];
+  body?: BodyEdit[];
+}
+
+export interface RewriteRule {
+  name: string;
+  /** Defaults to true */
+  enabled?: boolean;
+  match: RequestMatcher;
+  /** `url` is an absolute URL or a path to send the request to instead */
+  request?: MessageRewrite & { url?: string };
+  response?: MessageRewrite & { status?: number };
+}
+
+/**
+ * Holds matching requests, their responses or both until they are resumed
+ * from the Web UI.
+ */
+export interface Breakpoint {
+  id: string;
+  match: RequestMatcher;
+  request: boolean;
+  response: boolean;
+  /** Defaults to true */
+  enabled?: boolean;
+}
+
+/**
+ * A request or response held at a breakpoint, as shown for editing. Bodies
+ * are decoded; binary ones are base64 and can't be edited.
+ */
+export interface PausedMessage {
+  /** Id of the entry being held */
+  id: string;
+  stage: 'request' | 'response';
+  method: string;
+  url: string;
+  statusCode?: number;
+  headers: Record<string, string | string[] | undefined>;
+  body: string;
+  bodyBinary?: boolean;
+  pausedAt: string;
+  /** When it will be forwarded unchanged */
+  expiresAt: string;
+}
+
+/**
+ * How to resume a paused message. Fields left out are sent as they were.
+ */
+export interface PausedEdit {
+  action: 'forward' | 'drop';
+  method?: string;
+  url?: string;
+  statusCode?: number;
+  headers?: Record<string, string | string[]>;
+  body?: string;
+}
+
+/**
+ * A captured request as it would be re-sent from the Web UI. Bodies are
+ * decoded; binary ones are base64 and can't be edited.
+ */
+export interface ResendDraft {
+  method: string;
+  url: string;
+  headers: Record<string, string | string[]>;
+  body: string;
+  bodyBinary?: boolean;
+  /** Only a preview of the body was captured, so it must be edited to re-send */
+  truncated?: boolean;
+}
+
+/**
+ * Changes to a captured request re-sent from the Web UI. Fields left out
+ * are sent as captured.
+ */
+export interface ResendEdit {
+  method?: string;
+  url?: string;
+  headers?: Record<string, string | string[]>;
+  body?: string;
+}
+
+/** Languages a captured request can be copied as from the Web UI */
+export type SnippetFormat = 'curl' | 'fetch' | 'python' | 'sdk-python' | 'sdk-typescript';
+
+/**
+ * One event of a mocked event stream. `data` that isn't a string is sent
+ * as JSON.
+ */
+export interface MockEvent {
+  event?: string;
+  data: unknown;
+  /** Wait before sending it, after the previous event */
+  delayMs?: number;
+}
+
+/**
+ * A canned response served instead of contacting the upstream. Each mock
+ * is a JSON file in the mocks directory, named by its id.
+ */
+export interface Mock {
+  id: string;
+  name: string;
+  /** Defaults to true */
+  enabled?: boolean;
+  match: RequestMatcher;
+  /** Defaults to 200 */
+  status?: number;
+  headers?: Record<string, string | string[]>;
+  /** Text, or any other JSON value sent as JSON */
+  body?: unknown;
+  /** Binary body, used instead of `body` */
+  bodyBase64?: string;
+  /** Sent as `text/event-stream`, one event at a time */
+  events?: MockEvent[];
+  /** Wait before sending the response head */
+  delayMs?: number;
+}
+
+/**
+ * A response as mocks and recordings answer with it.
+ */
+export type RecordedResponse = Omit<Mock, 'id' | 'name' | 'enabled' | 'match'>;
+
+/**
+ * Responses recorded for one request fingerprint, in the order they were
+ * received. Replay serves them in the same order.
+ */
+export interface Recording {
+  fingerprint: string;
+  /** What was sent, for people reading the file */
+  request: {
+    method: string;
+    url: string;
+    body?: unknown;
+  };
+  responses: RecordedResponse[];
+}
+
+export interface SseEventRecord {
+  event?: string;
+  data: string;
+  id?: string;
+  /** Milliseconds since the request started */
+  offsetMs: number;
+}
+
+/**
+ * One WebSocket message, reassembled from its frames. Control frames are
+ * recorded as messages of their own.
+ */
+export interface WebSocketMessageRecord {
+  /** Who sent it: the client, or the upstream server */
+  from: 'client' | 'server';
+  type: 'text' | 'binary' | 'close' | 'ping' | 'pong';
+  /** Text as sent, base64 for binary payloads; the reason of a close */
+  data: string;
+  /** Payload bytes, after decompression */
+  size: number;
+  /** `data` holds only the start of the payload */
+  truncated?: boolean;
+  /** Sent compressed with permessage-deflate */
+  compressed?: boolean;
+  /** Status code of a close */
+  closeCode?: number;
+  /** Milliseconds since the request started */
+  offsetMs: number;
+}
+
+export type StreamFormat = 'anthropic' | 'openai-chat' | 'openai-responses' | 'unknown';
+
+export interface StreamedContentBlock {
+  type: 'text' | 'thinking' | 'tool_use';
+  text?: string;
+  id?: string;
+  name?: string;
+  /** Tool input as streamed (JSON text, possibly partial) */
+  input?: string;
+}
+
+export interface StreamedMessage {
+  format: StreamFormat;
+  id?: string;
+  model?: string;
+  blocks: StreamedContentBlock[];
+  text: string;
+  stopReason?: string;
+  usage?: Record<string, number>;
+  error?: string;
+}
+
+export type LlmApi = 'anthropic-messages' | 'openai-chat' | 'openai-responses';
+
+export interface LlmContentPart {
+  type: 'text' | 'image' | 'thinking' | 'tool_use' | 'tool_result' | 'other';
+  text?: string;
+  /** Tool name for tool_use, or the original part type for 'other' */
+  name?: string;
+  /** Tool call id for tool_use and tool_result */
+  id?: string;
+  /** Tool arguments as JSON text */
+  input?: string;
+  isError?: boolean;
+}
+
+export interface LlmMessage {
+  role: string;
+  content: LlmContentPart[];
+}
+
+export interface LlmTool {
+  name: string;
+  description?: string;
+}
+
+export interface LlmRequestInfo {
+  model?: string;
+  system?: string;
+  messages: LlmMessage[];
+  tools: LlmTool[];
+  temperature?: number;
+  maxTokens?: number;
+  stream?: boolean;
+}
+
+/**
+ * Token counts normalised across providers. `inputTokens` excludes tokens
+ * read from or written to the prompt cache, which are counted separately.
+ */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheWriteTokens: number;
+}
+
+export interface LlmResponseInfo {
+  model?: string;
+  message?: LlmMessage;
+  stopReason?: string;
+  usage?: TokenUsage;
+  error?: string;
+}
+
+export interface LlmExchange {
+  provider: string;
+  api: LlmApi;
+  request: LlmRequestInfo;
+  response?: LlmResponseInfo;
+  costUsd?: number;
 }
 
 export interface CertificateInfo {
@@ -25,6 +466,25 @@ export interface CertificateInfo {
   cert: string;
 }
 
+/** Files the CA certificate can be exported as */
+export type CAExportFormat = 'pem' | 'der' | 'p12';
+
+/**
+ * The CA that signs intercepted hosts' certificates, as shown by
+ * `roo-sniffer ca show` and the Web UI.
+ */
+export interface CAInfo {
+  path: string;
+  subject: string;
+  serialNumber: string;
+  /** SHA-256 fingerprint, colon-separated hex */
+  fingerprint256: string;
+  /** SHA-1 fingerprint, as some trust stores show it */
+  fingerprint: string;
+  validFrom: string;
+  validTo: string;
+}
+
 export interface ProxyRequest extends IncomingMessage {
   body?: Buffer;
 }
@@ -39,10 +499,20 @@ export const DEFAULT_CONFIG: SnifferConfig = {
   watchDomains: [
     'anthropic',
     'openai',
-    'api.roo',
+    '.roocode.com',
     'amazonaws',
     'azure',
   ],
+  ignoreDomains: [],
+  domainPolicies: [],
   verbose: true,  // Enable by default to capture headers and response bodies
   certDir: '.roo-sniffer-certs',
+  previewLimit: 500,
+  storeBodies: false,
+  history: true,
+  breakpointTimeoutMs: 5 * 60 * 1000,
+  replaySpeed: 1,
+  replayMisses: 'fail',
+  redact: true,
+  uiHost: '127.0.0.1',
 };
@@ -0,0 +1,328 @@
+import * as zlib from 'zlib';
+import { RequestLogEntry, WebSocketMessageRecord } from './types';
+
+// A busy realtime session sends many messages a second; keep the log bounded
+const MAX_MESSAGES = 5000;
+// Characters of each message kept on the entry
+const MAX_MESSAGE_CHARS = 16 * 1024;
+// Frames larger than this aren't decoded; the rest of that direction is skipped
+const MAX_FRAME_BYTES = 64 * 1024 * 1024;
+
+// What permessage-deflate strips from the end of each compressed message
+const DEFLATE_TAIL = Buffer.from([0x00, 0x00, 0xff, 0xff]);
+
+const OPCODES: Record<number, WebSocketMessageRecord['type']> = {
+  0x1: 'text',
+  0x2: 'binary',
+  0x8: 'close',
+  0x9: 'ping',
+  0xa: 'pong',
+};
+
+type Headers = Record<string, string | string[] | undefined>;
+
+/**
+ * Whether an upgrade response accepted a WebSocket.
+ */
+export function isWebSocketUpgrade(statusCode: number | undefined, headers: Headers): boolean {
+  const upgrade = headers['upgrade'];
+  return statusCode === 101 && typeof upgrade === 'string' && upgrade.toLowerCase() === 'websocket';
+}
+
+interface Frame {
+  fin: boolean;
+  compressed: boolean;
+  opcode: number;
+  payload: Buffer;
+}
+
+/**
+ * Where a frame's payload starts and how long it is, or null until enough
+ * of its header has arrived to tell.
+ */
+function frameHeader(data: Buffer): { offset: number; length: number } | null {
+  if (data.length < 2) {
+    return null;
+  }
+  const masked = (data[1] & 0x80) !== 0;
+  let length = data[1] & 0x7f;
+  let offset = 2;
+  if (length === 126) {
+    if (data.length < 4) {
+      return null;
+    }
+    length = data.readUInt16BE(2);
+    offset = 4;
+  } else if (length === 127) {
+    if (data.length < 10) {
+      return null;
+    }
+    length = Number(data.readBigUInt64BE(2));
+    offset = 10;
+  }
+  return { offset: offset + (masked ? 4 : 0), length };
+}
+
+/**
+ * Incremental parser for one direction of a WebSocket. Bytes can be fed in
+ * arbitrary slices; masked (client) frames are unmasked.
+ */
+class FrameParser {
+  private chunks: Buffer[] = [];
+  private buffered = 0;
+  // Bytes needed before the next frame can be parsed
+  private needed = 2;
+  private stopped = false;
+  private onFrame: (frame: Frame) => void;
+  private onOversized: () => void;
+
+  constructor(onFrame: (frame: Frame) => void, onOversized: () => void) {
+    this.onFrame = onFrame;
+    this.onOversized = onOversized;
+  }
+
+  public feed(chunk: Buffer): void {
+    if (this.stopped) {
+      return;
+    }
+    this.chunks.push(chunk);
+    this.buffered += chunk.length;
+    // Large frames arrive in many chunks; join them once they are whole
+    if (this.buffered < this.needed) {
+      return;
+    }
+
+    let data = Buffer.concat(this.chunks);
+    for (;;) {
+      const header = frameHeader(data);
+      if (header && header.length > MAX_FRAME_BYTES) {
+        this.stopped = true;
+        this.chunks = [];
+        this.onOversized();
+        return;
+      }
+      const end = header ? header.offset + header.length : data.length + 1;
+      if (!header || data.length < end) {
+        this.needed = end;
+        break;
+      }
+      this.onFrame(this.parse(data, header.offset, end));
+      data = data.subarray(end);
+    }
+    this.chunks = data.length > 0 ? [data] : [];
+    this.buffered = data.length;
+  }
+
+  private parse(data: Buffer, offset: number, end: number): Frame {
+    // Copied, so unmasking leaves the forwarded bytes alone
+    const payload = Buffer.from(data.subarray(offset, end));
+    if (data[1] & 0x80) {
+      const mask = data.subarray(offset - 4, offset);
+      for (let i = 0; i < payload.length; i++) {
+        payload[i] ^= mask[i & 3];
+      }
+    }
+    return {
+      fin: (data[0] & 0x80) !== 0,
+      compressed: (data[0] & 0x40) !== 0,
+      opcode: data[0] & 0x0f,
+      payload,
+    };
+  }
+}
+
+/**
+ * Turns the frames of one direction into messages: joins fragmented ones
+ * and inflates permessage-deflate ones. A single inflater serves the whole
+ * connection, as the sender's compressor may keep its window across
+ * messages. Messages come out in the order they were sent.
+ */
+class MessageAssembler {
+  private from: WebSocketMessageRecord['from'];
+  private startedAt: number;
+  private onMessage: (message: WebSocketMessageRecord) => void;
+  private onError: (message: string) => void;
+  private fragments: Buffer[] = [];
+  private first: Frame | null = null;
+  private firstAt = 0;
+  private inflater: zlib.InflateRaw | null = null;
+  private inflated: Buffer[] = [];
+  private inflateFailed = false;
+  // Settles the message being inflated, also when inflating fails
+  private pending: ((data: Buffer | null) => void) | null = null;
+  // Settles once every message so far has been emitted
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(
+    from: WebSocketMessageRecord['from'],
+    startedAt: number,
+    onMessage: (message: WebSocketMessageRecord) => void,
+    onError: (message: string) => void
+  ) {
+    this.from = from;
+    this.startedAt = startedAt;
+    this.onMessage = onMessage;
+    this.onError = onError;
+  }
+
+  public push(frame: Frame): void {
+    const offsetMs = Date.now() - this.startedAt;
+
+    // Control frames may arrive between the fragments of a message
+    if (frame.opcode >= 0x8) {
+      this.emit(frame.opcode, frame.payload, false, offsetMs);
+      return;
+    }
+
+    if (frame.opcode !== 0x0) {
+      this.first = frame;
+      this.firstAt = offsetMs;
+      this.fragments = [];
+    } else if (!this.first) {
+      return;
+    }
+    this.fragments.push(frame.payload);
+
+    if (frame.fin) {
+      const first = this.first!;
+      const payload = Buffer.concat(this.fragments);
+      this.first = null;
+      this.fragments = [];
+      this.emit(first.opcode, payload, first.compressed, this.firstAt);
+    }
+  }
+
+  /**
+   * Resolves once the messages pushed so far have been emitted.
+   */
+  public drain(): Promise<void> {
+    return this.queue.then(() => this.inflater?.close());
+  }
+
+  private emit(opcode: number, payload: Buffer, compressed: boolean, offsetMs: number): void {
+    const type = OPCODES[opcode];
+    if (!type) {
+      return;
+    }
+    this.queue = this.queue.then(async () => {
+      let data = payload;
+      if (compressed) {
+        const inflated = await this.inflate(payload);
+        if (!inflated) {
+          return;
+        }
+        data = inflated;
+      }
+      this.onMessage(this.record(type, data, compressed, offsetMs));
+    });
+  }
+
+  private inflate(payload: Buffer): Promise<Buffer | null> {
+    if (this.inflateFailed) {
+      return Promise.resolve(null);
+    }
+    if (!this.inflater) {
+      this.inflater = zlib.createInflateRaw();
+      this.inflater.on('data', (chunk: Buffer) => this.inflated.push(chunk));
+      this.inflater.on('error', (err) => {
+        this.inflateFailed = true;
+        this.onError(`Failed to inflate WebSocket messages from the ${this.from}: ${err.message}`);
+        this.pending?.(null);
+      });
+    }
+    const inflater = this.inflater;
+    return new Promise((resolve) => {
+      this.pending = resolve;
+      inflater.write(Buffer.concat([payload, DEFLATE_TAIL]));
+      inflater.flush(zlib.constants.Z_SYNC_FLUSH, () => {
+        const data = Buffer.concat(this.inflated);
+        this.inflated = [];
+        resolve(this.inflateFailed ? null : data);
+      });
+    });
+  }
+
+  private record(type: WebSocketMessageRecord['type'], payload: Buffer, compressed: boolean, offsetMs: number): WebSocketMessageRecord {
+    const message: WebSocketMessageRecord = { from: this.from, type, data: '', size: payload.length, offsetMs };
+    let body = payload;
+    if (type === 'close' && payload.length >= 2) {
+      message.closeCode = payload.readUInt16BE(0);
+      body = payload.subarray(2);
+    }
+    if (type === 'binary') {
+      // Base64 takes four characters for every three bytes
+      const limit = Math.floor(MAX_MESSAGE_CHARS / 4) * 3;
+      message.data = body.subarray(0, limit).toString('base64');
+      if (body.length > limit) {
+        message.truncated = true;
+      }
+    } else {
+      const text = body.toString('utf8');
+      message.data = text.substring(0, MAX_MESSAGE_CHARS);
+      if (text.length > MAX_MESSAGE_CHARS) {
+        message.truncated = true;
+      }
+    }
+    if (compressed) {
+      message.compressed = true;
+    }
+    return message;
+  }
+}
+
+/**
+ * Records the messages of a WebSocket relayed through the proxy onto its
+ * entry. The relay feeds it a copy of the bytes going each way; what is
+ * forwarded is unaffected.
+ */
+export class WebSocketRecorder {
+  private entry: RequestLogEntry;
+  private client: FrameParser;
+  private server: FrameParser;
+  private assemblers: MessageAssembler[];
+  // Called for each message recorded, while the socket is open
+  public onMessage: ((message: WebSocketMessageRecord) => void) | null = null;
+
+  constructor(entry: RequestLogEntry) {
+    this.entry = entry;
+    entry.webSocketMessages = [];
+    const startedAt = Date.parse(entry.timestamp);
+    const record = (message: WebSocketMessageRecord) => this.record(message);
+    const failed = (error: string) => {
+      this.entry.decodeError ??= error;
+    };
+    const fromClient = new MessageAssembler('client', startedAt, record, failed);
+    const fromServer = new MessageAssembler('server', startedAt, record, failed);
+    this.assemblers = [fromClient, fromServer];
+    const oversized = () => {
+      this.entry.webSocketMessagesTruncated = true;
+    };
+    this.client = new FrameParser(frame => fromClient.push(frame), oversized);
+    this.server = new FrameParser(frame => fromServer.push(frame), oversized);
+  }
+
+  public fromClient(chunk: Buffer): void {
+    this.client.feed(chunk);
+  }
+
+  public fromServer(chunk: Buffer): void {
+    this.server.feed(chunk);
+  }
+
+  /**
+   * Resolves once every message received has been recorded.
+   */
+  public async end(): Promise<void> {
+    await Promise.all(this.assemblers.map(assembler => assembler.drain()));
+  }
+
+  private record(message: WebSocketMessageRecord): void {
+    const messages = this.entry.webSocketMessages!;
+    if (messages.length >= MAX_MESSAGES) {
+      this.entry.webSocketMessagesTruncated = true;
+      return;
+    }
+    messages.push(message);
+    this.onMessage?.(message);
+  }
+}
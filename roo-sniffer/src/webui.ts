@@ -2,28 +2,157 @@ import * as http from 'http';
 import * as fs from 'fs';
 import * as path from 'path';
 import { spawn, ChildProcess } from 'child_process';
-import { RequestLogEntry, SnifferConfig } from './types';
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { URL } from 'url';
+import { BlobStore } from './blobs';
+import { BreakpointManager } from './breakpoints';
+import { CA_EXPORTS, CertificateManager, trustSteps } from './certs';
+import { isBinaryBody } from './encoding';
+import { compileDomainPattern, matchesDomain, validateDomainPatterns, validateDomainPolicies } from './matcher';
+import { mockFromEntry, MockStore } from './mocks';
+import { resendDraft, responseForDiff } from './resend';
+import { toHar } from './har';
+import { HistoryStore } from './history';
+import { isLoopback, isMasked, Redactor } from './redact';
+import { RulesEngine } from './rules';
+import { buildSnippet, SNIPPET_FORMATS } from './snippets';
+import { StatsTracker } from './stats';
+import { filterFromParams, LogFileStore, matchesFilter, pageOf, RequestPage, RequestStore } from './store';
+import { Breakpoint, CAExportFormat, LaunchProfile, PausedEdit, PausedMessage, RequestLogEntry, ResendEdit, SnifferConfig, SnippetFormat, WebSocketMessageRecord } from './types';
+
+type ConfigCheck = (value: unknown, key: string) => unknown;
+
+function nonNegative(integer: boolean): ConfigCheck {
+  return (value, key) => {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0 || (integer && !Number.isInteger(value))) {
+      throw new Error(`${key} must be a non-negative ${integer ? 'integer' : 'number'}`);
+    }
+    return value;
+  };
+}
+
+/**
+ * The settings the Web UI can change, each with a check of the value sent.
+ * Others in an update are ignored: some are what keeps the UI safe to
+ * expose, the rest only take effect at startup.
+ */
+const EDITABLE_CONFIG: Partial<Record<keyof SnifferConfig, ConfigCheck>> = {
+  logFile: (value, key) => {
+    if (typeof value !== 'string' || !value.trim()) {
+      throw new Error(`${key} must be a non-empty string`);
+    }
+    return value;
+  },
+  verbose: (value, key) => {
+    if (typeof value !== 'boolean') {
+      throw new Error(`${key} must be true or false`);
+    }
+    return value;
+  },
+  // A bad pattern would fail every request it is checked against
+  watchDomains: validateDomainPatterns,
+  ignoreDomains: validateDomainPatterns,
+  domainPolicies: validateDomainPolicies,
+  previewLimit: nonNegative(true),
+  breakpointTimeoutMs: nonNegative(false),
+  replaySpeed: nonNegative(false),
+  replayMisses: (value, key) => {
+    if (value !== 'fail' && value !== 'passthrough') {
+      throw new Error(`${key} must be fail or passthrough`);
+    }
+    return value;
+  },
+};
+
+function cookieValue(req: http.IncomingMessage, name: string): string | undefined {
+  for (const pair of (req.headers.cookie || '').split(/;\s*/)) {
+    const eq = pair.indexOf('=');
+    if (eq > 0 && pair.slice(0, eq) === name) {
+      return pair.slice(eq + 1);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The apps the launcher offers when no launch profiles are given.
+ */
+function defaultLaunchProfiles(port: number): LaunchProfile[] {
+  const proxy = `--proxy-server=http://127.0.0.1:${port}`;
+  return [
+    { name: '📝 VSCode (New Window)', command: `code --new-window ${proxy} --ignore-certificate-errors` },
+    { name: '🌐 Chrome', command: `open -b com.google.Chrome --args ${proxy}` },
+    { name: '⚡ Cursor (New Window)', command: `cursor --new-window ${proxy} --ignore-certificate-errors` },
+  ];
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/[&<>"']/g, (c) => `&#${c.charCodeAt(0)};`);
+}
+
+/**
+ * The address to open the Web UI at, with the token that lets the browser in.
+ */
+export function webUIUrl(config: SnifferConfig, port: number): string {
+  const host = ['0.0.0.0', '::', '127.0.0.1', '::1'].includes(config.uiHost) ? 'localhost'
+    : config.uiHost.includes(':') ? `[${config.uiHost}]` : config.uiHost;
+  return `http://${host}:${port}/` + (config.uiToken ? `?token=${encodeURIComponent(config.uiToken)}` : '');
+}
 
 export class WebUI {
   private server: http.Server;
   private config: SnifferConfig;
   private requests: RequestLogEntry[] = [];
+  private requestsById: Map<string, RequestLogEntry> = new Map();
   private discoveredDomains: Set<string> = new Set();
-  private clients: Set<http.ServerResponse> = new Set();
+  // SSE connections, and whether each sees secrets unmasked
+  private clients: Map<http.ServerResponse, boolean> = new Map();
   private uiPort: number;
   private runningProcesses: Map<string, ChildProcess> = new Map();
+  // Commands by client id, kept after exit so usage stays attributable
+  private launchedCommands: Map<string, string> = new Map();
+  private stats: StatsTracker;
+  private blobs: BlobStore | null;
+  private history: HistoryStore | null;
+  // A log file opened with `roo-sniffer view`, served instead of live entries
+  private archive: LogFileStore | null = null;
+  private rules: RulesEngine | null = null;
+  private breakpoints: BreakpointManager | null = null;
+  private mocks: MockStore | null = null;
+  // The CA offered for download; unset when not intercepting
+  private certificates: CertificateManager | null = null;
+  private redactor: Redactor;
+  // Re-sends a captured request through the proxy; unset when there is none
+  public onResend: ((entry: RequestLogEntry, edit: ResendEdit) => Promise<RequestLogEntry>) | null = null;
+  public onError: ((message: string) => void) | null = null;
 
-  constructor(config: SnifferConfig, uiPort: number = 8081) {
+  constructor(
+    config: SnifferConfig,
+    uiPort: number = 8081,
+    stats?: StatsTracker,
+    blobs: BlobStore | null = null,
+    history: HistoryStore | null = null
+  ) {
     this.config = config;
     this.uiPort = uiPort;
+    this.stats = stats || new StatsTracker(config);
+    this.blobs = blobs;
+    this.history = history;
+    this.redactor = new Redactor(config);
+    // Embedders that don't pass a token still get one
+    this.config.uiToken ??= randomBytes(16).toString('hex');
     this.server = http.createServer(this.handleRequest.bind(this));
   }
 
   public addRequest(entry: RequestLogEntry): void {
     this.requests.push(entry);
+    this.requestsById.set(entry.id, entry);
     // Keep last 1000 requests
     if (this.requests.length > 1000) {
-      this.requests.shift();
+      const dropped = this.requests.shift();
+      if (dropped) {
+        this.requestsById.delete(dropped.id);
+      }
     }
     
     // Track discovered domains
@@ -33,11 +162,131 @@ export class WebUI {
     this.broadcast(entry);
   }
 
-  private broadcast(entry: RequestLogEntry): void {
-    const data = `data: ${JSON.stringify(entry)}\n\n`;
-    for (const client of this.clients) {
-      client.write(data);
+  public setArchive(archive: LogFileStore): void {
+    this.archive = archive;
+  }
+
+  public setRules(rules: RulesEngine): void {
+    this.rules = rules;
+  }
+
+  public setBreakpoints(breakpoints: BreakpointManager): void {
+    this.breakpoints = breakpoints;
+  }
+
+  public setMocks(mocks: MockStore): void {
+    this.mocks = mocks;
+  }
+
+  public setCertificates(certificates: CertificateManager): void {
+    this.certificates = certificates;
+  }
+
+  public addPaused(message: PausedMessage): void {
+    this.broadcast(message, 'paused');
+  }
+
+  public removePaused(id: string): void {
+    this.broadcast({ id }, 'resumed');
+  }
+
+  public updateRequest(entry: RequestLogEntry): void {
+    // Entries that already fell out of the buffer have nothing to update
+    if (!this.requestsById.has(entry.id)) {
+      return;
+    }
+
+    this.requestsById.set(entry.id, entry);
+    this.broadcast(entry, 'update');
+  }
+
+  /**
+   * Show a message of an open WebSocket; the entry already holds it.
+   */
+  public addWebSocketMessage(entry: RequestLogEntry, message: WebSocketMessageRecord): void {
+    if (this.requestsById.has(entry.id)) {
+      this.broadcast({ id: entry.id, message }, 'websocket');
+    }
+  }
+
+  private broadcast(payload: unknown, event?: string): void {
+    const prefix = event ? `event: ${event}\n` : '';
+    let revealed: string | undefined;
+    let masked: string | undefined;
+    for (const [client, reveal] of this.clients) {
+      if (reveal) {
+        revealed ??= `${prefix}data: ${JSON.stringify(payload)}\n\n`;
+        client.write(revealed);
+      } else {
+        masked ??= `${prefix}data: ${JSON.stringify(this.redactor.redact(payload))}\n\n`;
+        client.write(masked);
+      }
+    }
+  }
+
+  /**
+   * Whether a viewer sees secrets unmasked: only from this machine, and
+   * only once they've asked to with the `reveal` cookie.
+   */
+  private canReveal(req: http.IncomingMessage): boolean {
+    return isLoopback(req.socket.remoteAddress) && cookieValue(req, 'reveal') === '1';
+  }
+
+  private isToken(value: string | null | undefined): boolean {
+    const expected = Buffer.from(this.config.uiToken || '');
+    const given = Buffer.from(value || '');
+    return expected.length > 0 && given.length === expected.length && timingSafeEqual(given, expected);
+  }
+
+  /**
+   * Let a request through only with the run's token: in the `token` query
+   * param, an `Authorization: Bearer` header, or the cookie set when the
+   * page was opened with the token. A cookie is sent by the browser on its
+   * own, so requests that change anything must then also come from the
+   * UI's own page. Answers the request and returns false otherwise.
+   */
+  private authorize(req: http.IncomingMessage, url: URL, res: http.ServerResponse): boolean {
+    const cookieName = `roo_sniffer_${this.uiPort}`;
+    const queryToken = url.searchParams.get('token');
+    const bearer = /^Bearer\s+(\S+)$/i.exec(req.headers.authorization || '')?.[1];
+    const explicit = this.isToken(queryToken) || this.isToken(bearer);
+
+    if (!explicit && !this.isToken(cookieValue(req, cookieName))) {
+      if (url.pathname.startsWith('/api/')) {
+        res.writeHead(401, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Missing or wrong token; open the Web UI from the link roo-sniffer printed' }));
+      } else {
+        res.writeHead(401, { 'Content-Type': 'text/html' });
+        res.end('<!DOCTYPE html><html><body style="font-family: sans-serif; padding: 40px;">' +
+          '<h2>🔍 Roo Sniffer</h2><p>Open the Web UI from the link roo-sniffer printed when it started; ' +
+          'it includes the access token for this run.</p></body></html>');
+      }
+      return false;
+    }
+
+    const safeMethod = req.method === 'GET' || req.method === 'HEAD';
+    const origin = req.headers.origin;
+    const sameOrigin = origin ? origin === `http://${req.headers.host}` : req.headers['sec-fetch-site'] === 'same-origin';
+    if (!explicit && !safeMethod && !sameOrigin) {
+      res.writeHead(403, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Cross-origin request refused' }));
+      return false;
+    }
+
+    // Swap the token in the address bar for a cookie
+    if (queryToken && (url.pathname === '/' || url.pathname === '/ca')) {
+      res.writeHead(302, {
+        'Set-Cookie': `${cookieName}=${this.config.uiToken}; Path=/; HttpOnly; SameSite=Strict`,
+        'Location': url.pathname,
+      });
+      res.end();
+      return false;
     }
+    return true;
+  }
+
+  private view<T>(value: T, reveal: boolean): T {
+    return reveal ? value : this.redactor.redact(value);
   }
 
   public updateConfig(newConfig: Partial<SnifferConfig>): void {
@@ -49,65 +298,290 @@ export class WebUI {
   }
 
   private handleRequest(req: http.IncomingMessage, res: http.ServerResponse): void {
-    const url = req.url || '/';
-    
-    // CORS headers
-    res.setHeader('Access-Control-Allow-Origin', '*');
-    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
-    res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-
-    if (req.method === 'OPTIONS') {
-      res.writeHead(204);
-      res.end();
+    const url = new URL(req.url || '/', 'http://localhost');
+    const pathname = url.pathname;
+    if (!this.authorize(req, url, res)) {
       return;
     }
+    const reveal = this.canReveal(req);
 
-    if (url === '/') {
+    if (pathname === '/') {
       this.serveHTML(res);
-    } else if (url === '/api/events') {
-      this.handleSSE(req, res);
-    } else if (url === '/api/requests') {
-      this.handleGetRequests(res);
-    } else if (url === '/api/config' && req.method === 'GET') {
+    } else if (pathname === '/ca' && req.method === 'GET') {
+      this.serveCAPage(res);
+    } else if (pathname === '/api/ca' && req.method === 'GET') {
+      this.handleGetCA(res);
+    } else if (pathname === '/api/ca/download' && req.method === 'GET') {
+      this.handleDownloadCA(url.searchParams, res);
+    } else if (pathname === '/api/events') {
+      this.handleSSE(req, res, reveal);
+    } else if (pathname === '/api/requests') {
+      this.handleGetRequests(url.searchParams, res, reveal);
+    } else if (pathname === '/api/export.har' && req.method === 'GET') {
+      this.settle(res, this.handleExportHar(url.searchParams, res, reveal));
+    } else if (/^\/api\/requests\/[^/]+\/body$/.test(pathname) && req.method === 'GET') {
+      this.settle(res, this.handleGetBody(decodeURIComponent(pathname.split('/')[3]), url.searchParams, res, reveal));
+    } else if (pathname === '/api/replay' && req.method === 'GET') {
+      this.handleGetReplayState(res);
+    } else if (/^\/api\/requests\/[^/]+\/replay$/.test(pathname) && req.method === 'GET') {
+      this.settle(res, this.handleGetReplay(decodeURIComponent(pathname.split('/')[3]), res, reveal));
+    } else if (/^\/api\/requests\/[^/]+\/replay$/.test(pathname) && req.method === 'POST') {
+      this.handleReplay(decodeURIComponent(pathname.split('/')[3]), req, res, reveal);
+    } else if (/^\/api\/requests\/[^/]+\/compare$/.test(pathname) && req.method === 'GET') {
+      this.settle(res, this.handleCompare(decodeURIComponent(pathname.split('/')[3]), url.searchParams, res, reveal));
+    } else if (/^\/api\/requests\/[^/]+\/snippet$/.test(pathname) && req.method === 'GET') {
+      this.settle(res, this.handleGetSnippet(decodeURIComponent(pathname.split('/')[3]), url.searchParams, res, reveal));
+    } else if (/^\/api\/requests\/[^/]+\/mock$/.test(pathname) && req.method === 'POST') {
+      this.settle(res, this.handleMockEntry(decodeURIComponent(pathname.split('/')[3]), res));
+    } else if (pathname.startsWith('/api/requests/') && req.method === 'GET') {
+      this.settle(res, this.handleGetRequest(decodeURIComponent(pathname.slice('/api/requests/'.length)), res, reveal));
+    } else if (pathname === '/api/redaction' && req.method === 'GET') {
+      this.handleGetRedaction(req, res, reveal);
+    } else if (pathname === '/api/config' && req.method === 'GET') {
       this.handleGetConfig(res);
-    } else if (url === '/api/config' && req.method === 'POST') {
+    } else if (pathname === '/api/config' && req.method === 'POST') {
       this.handleUpdateConfig(req, res);
-    } else if (url === '/api/domains') {
+    } else if (pathname === '/api/domains') {
       this.handleGetDomains(res);
-    } else if (url === '/api/clear' && req.method === 'POST') {
+    } else if (pathname === '/api/domains/preview' && req.method === 'GET') {
+      this.handlePreviewDomain(url.searchParams, res);
+    } else if (pathname === '/api/clear' && req.method === 'POST') {
       this.handleClear(res);
-    } else if (url === '/api/launch' && req.method === 'POST') {
+    } else if (pathname === '/api/launch' && req.method === 'POST') {
       this.handleLaunch(req, res);
-    } else if (url === '/api/processes') {
+    } else if (pathname === '/api/launch/profiles' && req.method === 'GET') {
+      this.handleGetLaunchProfiles(res);
+    } else if (pathname === '/api/processes') {
       this.handleGetProcesses(res);
+    } else if (pathname === '/api/rules' && req.method === 'GET') {
+      this.handleGetRules(res);
+    } else if (pathname === '/api/rules' && req.method === 'POST') {
+      this.handleSaveRules(req, res);
+    } else if (pathname === '/api/mocks' && req.method === 'GET') {
+      this.handleGetMocks(res);
+    } else if (pathname === '/api/mocks' && req.method === 'POST') {
+      this.handleSaveMock(undefined, req, res);
+    } else if (pathname.startsWith('/api/mocks/') && req.method === 'POST') {
+      this.handleSaveMock(decodeURIComponent(pathname.split('/')[3]), req, res);
+    } else if (pathname.startsWith('/api/mocks/') && req.method === 'DELETE') {
+      this.handleDeleteMock(decodeURIComponent(pathname.split('/')[3]), res);
+    } else if (pathname === '/api/breakpoints' && req.method === 'GET') {
+      this.handleGetBreakpoints(res, reveal);
+    } else if (pathname === '/api/breakpoints' && req.method === 'POST') {
+      this.handleAddBreakpoint(req, res);
+    } else if (pathname.startsWith('/api/breakpoints/') && req.method === 'POST') {
+      this.handleUpdateBreakpoint(decodeURIComponent(pathname.split('/')[3]), req, res);
+    } else if (pathname.startsWith('/api/breakpoints/') && req.method === 'DELETE') {
+      this.handleDeleteBreakpoint(decodeURIComponent(pathname.split('/')[3]), res);
+    } else if (pathname === '/api/paused/resume-all' && req.method === 'POST') {
+      this.handleResumeAll(res);
+    } else if (pathname.startsWith('/api/paused/') && req.method === 'POST') {
+      this.handleResume(decodeURIComponent(pathname.split('/')[3]), req, res);
+    } else if (pathname === '/api/sessions' && req.method === 'GET') {
+      this.handleGetSessions(res);
+    } else if (pathname === '/api/sessions' && req.method === 'POST') {
+      this.handleStartSession(req, res);
+    } else if (pathname === '/api/sessions/stop' && req.method === 'POST') {
+      this.handleStopSession(res);
+    } else if (/^\/api\/sessions\/\d+$/.test(pathname) && req.method === 'DELETE') {
+      this.handleDeleteSession(parseInt(pathname.split('/')[3], 10), res);
+    } else if (pathname === '/api/stats' && req.method === 'GET') {
+      this.handleGetStats(res);
+    } else if (pathname === '/api/stats/reset' && req.method === 'POST') {
+      this.handleResetStats(res);
     } else {
       res.writeHead(404);
       res.end('Not Found');
     }
   }
 
-  private handleSSE(req: http.IncomingMessage, res: http.ServerResponse): void {
+  /**
+   * Answer 500 for a handler that failed before it responded, e.g. on an
+   * unreadable log or history row, rather than leave the rejection unhandled.
+   */
+  private settle(res: http.ServerResponse, handled: Promise<void>): void {
+    handled.catch((err: Error) => {
+      this.onError?.(`Web UI request failed: ${err.message}`);
+      if (!res.headersSent) {
+        res.writeHead(500, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: err.message }));
+      } else if (!res.writableEnded) {
+        res.end();
+      }
+    });
+  }
+
+  private handleSSE(req: http.IncomingMessage, res: http.ServerResponse, reveal: boolean): void {
     res.writeHead(200, {
       'Content-Type': 'text/event-stream',
       'Cache-Control': 'no-cache',
       'Connection': 'keep-alive',
     });
 
-    this.clients.add(res);
+    this.clients.set(res, reveal);
 
     req.on('close', () => {
       this.clients.delete(res);
     });
   }
 
-  private handleGetRequests(res: http.ServerResponse): void {
+  /**
+   * Where requests are listed from: an archived log, a history session
+   * (`session` param, default the recording one), or the live buffer when
+   * history is off or paused.
+   */
+  private storeFor(params: URLSearchParams): RequestStore | null {
+    if (this.archive) {
+      return this.archive;
+    }
+    const sessionId = parseInt(params.get('session') || '', 10) || this.history?.getRecordingId();
+    if (this.history && sessionId) {
+      return this.history.session(sessionId);
+    }
+    return null;
+  }
+
+  /**
+   * A page of requests, newest first, matching the list filters (`search`,
+   * `method`, `watched`). Paged with `offset`/`limit` so history larger
+   * than the live buffer can be browsed; stored entries are summaries.
+   */
+  private handleGetRequests(params: URLSearchParams, res: http.ServerResponse, reveal: boolean): void {
+    const filter = filterFromParams(params);
+    const offset = Math.max(0, parseInt(params.get('offset') || '0', 10) || 0);
+    const limit = Math.max(1, parseInt(params.get('limit') || '1000', 10) || 1000);
+    const store = this.storeFor(params);
+
+    let page: RequestPage;
+    let counts: { total: number; watched: number };
+    if (store) {
+      page = store.query(filter, offset, limit);
+      counts = store.counts();
+    } else {
+      page = pageOf(this.requests, filter, offset, limit);
+      counts = { total: this.requests.length, watched: this.requests.filter(entry => entry.watched).length };
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(this.view({ ...page, counts }, reveal)));
+  }
+
+  /**
+   * Find a full entry, live or stored.
+   */
+  private async findEntry(id: string): Promise<RequestLogEntry | undefined> {
+    return this.requestsById.get(id) || await this.archive?.get(id) || await this.history?.get(id);
+  }
+
+  private async handleExportHar(params: URLSearchParams, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    const filter = filterFromParams(params);
+    const store = this.storeFor(params);
+    const entries = store
+      ? await store.entries(filter)
+      : this.requests.filter(entry => matchesFilter(entry, filter));
+
+    // Bodies come from the blob store, so the finished file is masked too
+    const har = this.view(await toHar(this.view(entries, reveal), this.blobs), reveal);
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    res.writeHead(200, {
+      'Content-Type': 'application/json',
+      'Content-Disposition': `attachment; filename="roo-sniffer-${stamp}.har"`,
+    });
+    res.end(JSON.stringify(har, null, 2));
+  }
+
+  private async handleGetRequest(id: string, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    const entry = await this.findEntry(id);
+    if (!entry) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Request not found' }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(this.view(entry, reveal)));
+  }
+
+  private async handleGetBody(id: string, params: URLSearchParams, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    const entry = await this.findEntry(id);
+    const part = params.get('part') === 'response' ? 'response' : 'request';
+    const ref = part === 'response' ? entry?.responseBody : entry?.requestBody;
+    let body = ref && this.blobs ? await this.blobs.get(ref.hash) : undefined;
+    if (body && !reveal && !isBinaryBody(body, ref?.contentType)) {
+      body = Buffer.from(this.redactor.text(body.toString('utf8')));
+    }
+
+    if (!body || !ref) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: `No stored ${part} body for this request` }));
+      return;
+    }
+
+    const headers: http.OutgoingHttpHeaders = {
+      'Content-Type': ref.contentType || 'application/octet-stream',
+      'Content-Length': body.length,
+    };
+    if (params.get('download')) {
+      headers['Content-Disposition'] = `attachment; filename="${id}-${part}.bin"`;
+    }
+    res.writeHead(200, headers);
+    res.end(body);
+  }
+
+  /**
+   * Whether secrets are masked, and whether this viewer may reveal them.
+   */
+  private handleGetRedaction(req: http.IncomingMessage, res: http.ServerResponse, reveal: boolean): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      enabled: this.redactor.isEnabled(),
+      canReveal: isLoopback(req.socket.remoteAddress),
+      revealed: reveal,
+    }));
+  }
+
+  private handleGetCA(res: http.ServerResponse): void {
+    if (!this.certificates) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'There is no CA while the proxy isn\'t running' }));
+      return;
+    }
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify(this.requests));
+    res.end(JSON.stringify({ ...this.certificates.getCAInfo(), trust: trustSteps(this.certificates.getCACertPath()) }));
+  }
+
+  /**
+   * The CA certificate, never its key, as `?format=pem|der|p12`.
+   */
+  private handleDownloadCA(params: URLSearchParams, res: http.ServerResponse): void {
+    const format = (params.get('format') || 'pem') as CAExportFormat;
+    if (!this.certificates || !(format in CA_EXPORTS)) {
+      res.writeHead(this.certificates ? 400 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        error: this.certificates ? `Unknown format: ${format}; use pem, der or p12` : 'There is no CA while the proxy isn\'t running',
+      }));
+      return;
+    }
+    const file = this.certificates.exportCA(format);
+    res.writeHead(200, {
+      'Content-Type': CA_EXPORTS[format].contentType,
+      'Content-Length': file.length,
+      'Content-Disposition': `attachment; filename="roo-sniffer-ca.${CA_EXPORTS[format].extension}"`,
+    });
+    res.end(file);
+  }
+
+  /**
+   * The config without the UI token, for showing to the UI.
+   */
+  private publicConfig(): Omit<SnifferConfig, 'uiToken'> {
+    const { uiToken: _uiToken, ...config } = this.config;
+    return config;
   }
 
   private handleGetConfig(res: http.ServerResponse): void {
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify(this.config));
+    res.end(JSON.stringify(this.publicConfig()));
   }
 
   private handleUpdateConfig(req: http.IncomingMessage, res: http.ServerResponse): void {
@@ -115,75 +589,143 @@ export class WebUI {
     req.on('data', chunk => body += chunk);
     req.on('end', () => {
       try {
-        const newConfig = JSON.parse(body);
-        this.updateConfig(newConfig);
+        const sent = JSON.parse(body);
+        if (typeof sent !== 'object' || sent === null || Array.isArray(sent)) {
+          throw new Error('Expected an object of settings');
+        }
+        // Checked in full before any of it is applied
+        const changes: Record<string, unknown> = {};
+        for (const [key, check] of Object.entries(EDITABLE_CONFIG)) {
+          if (sent[key] !== undefined) {
+            changes[key] = check(sent[key], key);
+          }
+        }
+        this.updateConfig(changes);
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ success: true, config: this.config }));
-      } catch (e) {
+        res.end(JSON.stringify({ success: true, config: this.publicConfig() }));
+      } catch (e: any) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        res.end(JSON.stringify({ error: e instanceof SyntaxError ? 'Invalid JSON' : e.message }));
       }
     });
   }
 
+  /**
+   * The domain patterns, and the hosts seen so far that none of them
+   * matches yet, as suggestions.
+   */
   private handleGetDomains(res: http.ServerResponse): void {
+    const { watchDomains, ignoreDomains } = this.config;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      watched: watchDomains,
+      ignored: ignoreDomains,
+      discovered: Array.from(this.discoveredDomains)
+        .filter(host => !matchesDomain(watchDomains, host) && !matchesDomain(ignoreDomains, host))
+        .sort(),
+    }));
+  }
+
+  /**
+   * Which of the hosts seen so far a domain pattern matches, for previewing
+   * it before it is added.
+   */
+  private handlePreviewDomain(params: URLSearchParams, res: http.ServerResponse): void {
+    const pattern = params.get('pattern') || '';
+    try {
+      compileDomainPattern(pattern);
+    } catch (e: any) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: e.message }));
+      return;
+    }
     res.writeHead(200, { 'Content-Type': 'application/json' });
     res.end(JSON.stringify({
-      watched: this.config.watchDomains,
-      discovered: Array.from(this.discoveredDomains).sort(),
+      matches: Array.from(this.discoveredDomains).filter(host => matchesDomain([pattern], host)).sort(),
     }));
   }
 
+  /**
+   * Empty the list. With history on this starts a fresh session, so what
+   * was cleared can still be found under the previous one.
+   */
   private handleClear(res: http.ServerResponse): void {
     this.requests = [];
+    this.requestsById.clear();
+    this.archive = null;
+    const session = this.history ? this.history.startSession() : undefined;
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify({ success: true }));
+    res.end(JSON.stringify({ success: true, session }));
   }
 
-  private handleLaunch(req: http.IncomingMessage, res: http.ServerResponse): void {
+  private handleGetRules(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      enabled: !!this.rules,
+      file: this.rules?.getFile(),
+      error: this.rules?.getError(),
+      rules: this.rules?.getRules() ?? [],
+    }));
+  }
+
+  /**
+   * Replace all rules, e.g. after toggling or editing one. Saved to the
+   * rules file when there is one.
+   */
+  private handleSaveRules(req: http.IncomingMessage, res: http.ServerResponse): void {
     let body = '';
     req.on('data', chunk => body += chunk);
     req.on('end', () => {
+      if (!this.rules) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Rules are only available while the proxy is running' }));
+        return;
+      }
       try {
-        const { command } = JSON.parse(body);
-
-        // Set proxy environment variables
-        const env = {
-          ...process.env,
-          HTTP_PROXY: `http://127.0.0.1:${this.config.port}`,
-          HTTPS_PROXY: `http://127.0.0.1:${this.config.port}`,
-          http_proxy: `http://127.0.0.1:${this.config.port}`,
-          https_proxy: `http://127.0.0.1:${this.config.port}`,
-          NODE_TLS_REJECT_UNAUTHORIZED: '0'
-        };
-
-        // Parse command
-        const parts = command.trim().split(/\s+/);
-        const cmd = parts[0];
-        const args = parts.slice(1);
-
-        // Spawn process
-        const child = spawn(cmd, args, {
-          env,
-          detached: true,
-          stdio: 'ignore'
-        });
-
-        child.unref(); // Allow parent to exit independently
-
-        const processId = Date.now().toString();
-        this.runningProcesses.set(processId, child);
+        const rules = this.rules.setRules(JSON.parse(body));
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, rules }));
+      } catch (e: any) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: e instanceof SyntaxError ? 'Invalid JSON' : e.message }));
+      }
+    });
+  }
 
-        child.on('exit', () => {
-          this.runningProcesses.delete(processId);
-        });
+  private handleGetMocks(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      enabled: !!this.mocks,
+      dir: this.mocks?.getDir(),
+      errors: this.mocks?.getErrors() ?? [],
+      mocks: this.mocks?.list() ?? [],
+    }));
+  }
 
+  /**
+   * Add a mock, or replace the one with the given id.
+   */
+  private handleSaveMock(id: string | undefined, req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (!this.mocks) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Mocks are only available while the proxy is running' }));
+        return;
+      }
+      let input: unknown;
+      try {
+        input = JSON.parse(body);
+      } catch (e) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+      try {
+        const mock = this.mocks.save(input, id);
         res.writeHead(200, { 'Content-Type': 'application/json' });
-        res.end(JSON.stringify({
-          success: true,
-          message: `Launched: ${command}`,
-          processId
-        }));
+        res.end(JSON.stringify({ success: true, mock }));
       } catch (e: any) {
         res.writeHead(400, { 'Content-Type': 'application/json' });
         res.end(JSON.stringify({ error: e.message }));
@@ -191,73 +733,502 @@ export class WebUI {
     });
   }
 
-  private handleGetProcesses(res: http.ServerResponse): void {
-    const processes = Array.from(this.runningProcesses.entries()).map(([id, proc]) => ({
-      id,
-      pid: proc.pid,
-      running: !proc.killed
-    }));
+  private handleDeleteMock(id: string, res: http.ServerResponse): void {
+    if (!this.mocks?.remove(id)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Mock not found' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true }));
+  }
 
+  /**
+   * Whether requests can be replayed, which needs a running proxy to send them.
+   */
+  private handleGetReplayState(res: http.ServerResponse): void {
     res.writeHead(200, { 'Content-Type': 'application/json' });
-    res.end(JSON.stringify(processes));
+    res.end(JSON.stringify({ enabled: !!this.onResend }));
   }
 
-  private serveHTML(res: http.ServerResponse): void {
-    const html = `<!DOCTYPE html>
-<html lang="en">
-<head>
-  <meta charset="UTF-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <title>Roo Sniffer</title>
-  <style>
-    * { box-sizing: border-box; margin: 0; padding: 0; }
-    body { 
-      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
-      background: #1a1a2e; 
-      color: #eee;
-      min-height: 100vh;
+  /**
+   * The request "Edit & Replay" starts from.
+   */
+  private async handleGetReplay(id: string, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    const entry = await this.findEntry(id);
+    if (!entry) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Request not found' }));
+      return;
     }
-    .container { display: flex; height: 100vh; }
-    
-    /* Sidebar */
-    .sidebar {
-      width: 300px;
-      background: #16213e;
-      padding: 20px;
-      overflow-y: auto;
-      border-right: 1px solid #0f3460;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(this.view(await resendDraft(entry, this.config, this.blobs), reveal)));
+  }
+
+  /**
+   * Re-send a captured request, with edits if any, and answer with the new
+   * entry once its response is in.
+   */
+  private handleReplay(id: string, req: http.IncomingMessage, res: http.ServerResponse, reveal: boolean): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => this.settle(res, this.replayEntry(id, body, res, reveal)));
+  }
+
+  private async replayEntry(id: string, body: string, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    let edit: ResendEdit;
+    try {
+      edit = JSON.parse(body || '{}');
+    } catch (e) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      return;
     }
-    .sidebar h2 { 
-      color: #e94560; 
-      margin-bottom: 20px;
-      font-size: 1.5rem;
+
+    const entry = await this.findEntry(id);
+    if (!entry || !this.onResend) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: entry ? 'Replay is only available while the proxy is running' : 'Request not found' }));
+      return;
     }
-    .sidebar h3 {
-      color: #aaa;
-      font-size: 0.9rem;
-      margin: 20px 0 10px;
-      text-transform: uppercase;
+    const problem = this.checkEdit({ ...edit, action: 'forward' });
+    if (problem) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: problem }));
+      return;
     }
-    
-    /* Form elements */
-    .form-group { margin-bottom: 15px; }
-    .form-group label {
-      display: block;
-      margin-bottom: 5px;
-      color: #888;
-      font-size: 0.85rem;
+
+    if (edit.headers) {
+      edit.headers = this.redactor.restoreHeaders(edit.headers, entry.headers);
     }
-    .form-group input, .form-group select {
-      width: 100%;
-      padding: 8px 12px;
-      background: #0f3460;
-      border: 1px solid #1a1a2e;
-      border-radius: 4px;
-      color: #fff;
-      font-size: 0.9rem;
+    try {
+      const replay = await this.onResend(entry, edit);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, entry: this.view(replay, reveal) }));
+    } catch (e: any) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: e.message }));
     }
-    .form-group input:focus, .form-group select:focus {
-      outline: none;
+  }
+
+  /**
+   * Both responses of two requests, e.g. a replay and its original, ready
+   * to diff.
+   */
+  private async handleCompare(id: string, params: URLSearchParams, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    const [left, right] = await Promise.all([this.findEntry(id), this.findEntry(params.get('with') || '')]);
+    if (!left || !right) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Request not found' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(this.view({
+      left: await responseForDiff(this.view(left, reveal), this.config, this.blobs),
+      right: await responseForDiff(this.view(right, reveal), this.config, this.blobs),
+    }, reveal)));
+  }
+
+  /**
+   * A captured request as code in the `format` param's language, as plain
+   * text. `redact=1` reads the API key from the environment instead.
+   */
+  private async handleGetSnippet(id: string, params: URLSearchParams, res: http.ServerResponse, reveal: boolean): Promise<void> {
+    const entry = await this.findEntry(id);
+    const format = params.get('format') || 'curl';
+    if (!entry || !SNIPPET_FORMATS.includes(format as SnippetFormat)) {
+      res.writeHead(entry ? 400 : 404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: entry ? `Unknown format: ${format}; use one of ${SNIPPET_FORMATS.join(', ')}` : 'Request not found' }));
+      return;
+    }
+    try {
+      const snippet = await buildSnippet(this.view(entry, reveal), format as SnippetFormat, params.get('redact') === '1', this.config, this.blobs);
+      const headers: http.OutgoingHttpHeaders = { 'Content-Type': 'text/plain; charset=utf-8' };
+      // Viewers who see secrets expect them in the snippet, unless the entry was saved masked
+      if (reveal && isMasked(snippet)) {
+        headers['X-Snippet-Warning'] = 'This request was saved with some values masked; they are [REDACTED] in the snippet.';
+      }
+      res.writeHead(200, headers);
+      res.end(this.view(snippet, reveal));
+    } catch (e: any) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: e.message }));
+    }
+  }
+
+  /**
+   * Save a mock that answers like a captured request was answered.
+   */
+  private async handleMockEntry(id: string, res: http.ServerResponse): Promise<void> {
+    const entry = await this.findEntry(id);
+    if (!entry || !this.mocks) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: entry ? 'Mocks are only available while the proxy is running' : 'Request not found' }));
+      return;
+    }
+    try {
+      const mock = this.mocks.save(await mockFromEntry(entry, this.config, this.blobs));
+      // Entries from history or the log were saved masked, and so is the mock
+      const warning = isMasked(mock)
+        ? 'This response was saved with its secrets masked, so the mock has [REDACTED] in their place.'
+        : undefined;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, mock, warning }));
+    } catch (e: any) {
+      res.writeHead(400, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: e.message }));
+    }
+  }
+
+  private handleGetBreakpoints(res: http.ServerResponse, reveal: boolean): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      enabled: !!this.breakpoints,
+      timeoutMs: this.config.breakpointTimeoutMs,
+      breakpoints: this.breakpoints?.list() ?? [],
+      paused: this.view(this.breakpoints?.pausedMessages() ?? [], reveal),
+    }));
+  }
+
+  private handleAddBreakpoint(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (!this.breakpoints) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Breakpoints are only available while the proxy is running' }));
+        return;
+      }
+      let input: unknown;
+      try {
+        input = JSON.parse(body);
+      } catch (e) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+      try {
+        const breakpoint = this.breakpoints.add(input as Partial<Breakpoint>);
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ success: true, breakpoint }));
+      } catch (e: any) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: e.message }));
+      }
+    });
+  }
+
+  private handleUpdateBreakpoint(id: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      try {
+        const { enabled, request, response } = JSON.parse(body);
+        const changes = Object.fromEntries(
+          Object.entries({ enabled, request, response }).filter(([, value]) => typeof value === 'boolean')
+        );
+        const breakpoint = this.breakpoints?.update(id, changes);
+        res.writeHead(breakpoint ? 200 : 404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify(breakpoint ? { success: true, breakpoint } : { error: 'Breakpoint not found' }));
+      } catch (e) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+      }
+    });
+  }
+
+  private handleDeleteBreakpoint(id: string, res: http.ServerResponse): void {
+    if (!this.breakpoints?.remove(id)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Breakpoint not found' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true }));
+  }
+
+  /**
+   * Forward or drop a paused request or response, with any edits.
+   */
+  private handleResume(id: string, req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      let edit: PausedEdit;
+      try {
+        edit = JSON.parse(body || '{"action":"forward"}');
+      } catch (e) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+
+      const problem = this.checkEdit(edit);
+      if (problem) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: problem }));
+        return;
+      }
+
+      if (edit.headers) {
+        edit.headers = this.redactor.restoreHeaders(edit.headers, this.breakpoints?.getPaused(id)?.headers);
+      }
+      if (!this.breakpoints?.resume(id, edit)) {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Nothing is paused with that id' }));
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true }));
+    });
+  }
+
+  private checkEdit(edit: PausedEdit): string | undefined {
+    if (edit?.action !== 'forward' && edit?.action !== 'drop') {
+      return 'action must be forward or drop';
+    }
+    // An HTTP token, as a request line needs
+    if (edit.method !== undefined && (typeof edit.method !== 'string' || !/^[!#$%&'*+.^_`|~0-9A-Za-z-]+$/.test(edit.method))) {
+      return 'method must be an HTTP method such as GET';
+    }
+    if (edit.url !== undefined && (typeof edit.url !== 'string' || !URL.canParse(edit.url))) {
+      return 'url must be an absolute URL';
+    }
+    if (edit.statusCode !== undefined && !(Number.isInteger(edit.statusCode) && edit.statusCode >= 100 && edit.statusCode <= 999)) {
+      return 'statusCode must be a number from 100 to 999';
+    }
+    if (edit.headers !== undefined &&
+        (!edit.headers || typeof edit.headers !== 'object' || Array.isArray(edit.headers) ||
+         Object.values(edit.headers).some(value => typeof value !== 'string' &&
+           !(Array.isArray(value) && value.every(item => typeof item === 'string'))))) {
+      return 'headers must map names to strings';
+    }
+    if (edit.body !== undefined && typeof edit.body !== 'string') {
+      return 'body must be a string';
+    }
+    return undefined;
+  }
+
+  private handleResumeAll(res: http.ServerResponse): void {
+    const resumed = this.breakpoints?.resumeAll() ?? 0;
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true, resumed }));
+  }
+
+  private handleGetSessions(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({
+      enabled: !!this.history && !this.archive,
+      recording: this.history?.getRecordingId() ?? null,
+      sessions: this.history?.listSessions() ?? [],
+    }));
+  }
+
+  private handleStartSession(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (!this.history) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'History is disabled' }));
+        return;
+      }
+
+      let name: string | undefined;
+      try {
+        name = body ? JSON.parse(body).name : undefined;
+      } catch {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Invalid JSON' }));
+        return;
+      }
+
+      // The live buffer follows the recording session
+      this.requests = [];
+      this.requestsById.clear();
+      const session = this.history.startSession(typeof name === 'string' ? name : undefined);
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ success: true, session }));
+    });
+  }
+
+  private handleStopSession(res: http.ServerResponse): void {
+    this.history?.stopSession();
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true }));
+  }
+
+  private handleDeleteSession(id: number, res: http.ServerResponse): void {
+    if (!this.history?.deleteSession(id)) {
+      res.writeHead(404, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({ error: 'Session not found' }));
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true }));
+  }
+
+  private handleLaunch(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      try {
+        const { profile: profileName } = JSON.parse(body);
+
+        // Only known profiles are launched, never a command from the request
+        const profiles = this.launchProfiles();
+        const profile = profiles.find(candidate => candidate.name === profileName);
+        if (!profile) {
+          res.writeHead(403, { 'Content-Type': 'application/json' });
+          res.end(JSON.stringify({ error: `Only these launch profiles can be started: ${profiles.map(p => p.name).join(', ')}` }));
+          return;
+        }
+        const command = profile.command;
+
+        const processId = Date.now().toString();
+        const clientId = `launch-${processId}`;
+
+        // Set proxy environment variables; the username tags this app's traffic
+        const proxyUrl = `http://${clientId}@127.0.0.1:${this.config.port}`;
+        const env = {
+          ...process.env,
+          HTTP_PROXY: proxyUrl,
+          HTTPS_PROXY: proxyUrl,
+          http_proxy: proxyUrl,
+          https_proxy: proxyUrl,
+          NODE_TLS_REJECT_UNAUTHORIZED: '0'
+        };
+
+        // Parse command
+        const parts = command.trim().split(/\s+/);
+        const cmd = parts[0];
+        const args = parts.slice(1);
+
+        // Spawn process
+        const child = spawn(cmd, args, {
+          env,
+          detached: true,
+          stdio: 'ignore'
+        });
+
+        child.unref(); // Allow parent to exit independently
+
+        this.runningProcesses.set(processId, child);
+        this.launchedCommands.set(clientId, command);
+
+        child.on('exit', () => {
+          this.runningProcesses.delete(processId);
+        });
+
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({
+          success: true,
+          message: `Launched: ${command}`,
+          processId
+        }));
+      } catch (e: any) {
+        res.writeHead(400, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: e instanceof SyntaxError ? 'Invalid JSON' : e.message }));
+      }
+    });
+  }
+
+  private launchProfiles(): LaunchProfile[] {
+    return this.config.launchProfiles ?? defaultLaunchProfiles(this.config.port);
+  }
+
+  private handleGetLaunchProfiles(res: http.ServerResponse): void {
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ profiles: this.launchProfiles() }));
+  }
+
+  private handleGetProcesses(res: http.ServerResponse): void {
+    const processes = Array.from(this.runningProcesses.entries()).map(([id, proc]) => ({
+      id,
+      pid: proc.pid,
+      running: !proc.killed
+    }));
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(processes));
+  }
+
+  private handleGetStats(res: http.ServerResponse): void {
+    const snapshot = this.stats.snapshot();
+
+    // Show launched apps by their command rather than the internal id
+    const byClient: typeof snapshot.byClient = {};
+    for (const [clientId, totals] of Object.entries(snapshot.byClient)) {
+      const command = this.launchedCommands.get(clientId);
+      byClient[command ? `${command} (${clientId})` : clientId] = totals;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ...snapshot, byClient }));
+  }
+
+  private handleResetStats(res: http.ServerResponse): void {
+    this.stats.reset();
+    res.writeHead(200, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ success: true }));
+  }
+
+  private serveHTML(res: http.ServerResponse): void {
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Roo Sniffer</title>
+  <style>
+    * { box-sizing: border-box; margin: 0; padding: 0; }
+    body { 
+      font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif;
+      background: #1a1a2e; 
+      color: #eee;
+      min-height: 100vh;
+    }
+    .container { display: flex; height: 100vh; }
+    
+    /* Sidebar */
+    .sidebar {
+      width: 300px;
+      background: #16213e;
+      padding: 20px;
+      overflow-y: auto;
+      border-right: 1px solid #0f3460;
+    }
+    .sidebar h2 { 
+      color: #e94560; 
+      margin-bottom: 20px;
+      font-size: 1.5rem;
+    }
+    .sidebar h3 {
+      color: #aaa;
+      font-size: 0.9rem;
+      margin: 20px 0 10px;
+      text-transform: uppercase;
+    }
+    
+    /* Form elements */
+    .form-group { margin-bottom: 15px; }
+    .form-group label {
+      display: block;
+      margin-bottom: 5px;
+      color: #888;
+      font-size: 0.85rem;
+    }
+    .form-group input, .form-group select {
+      width: 100%;
+      padding: 8px 12px;
+      background: #0f3460;
+      border: 1px solid #1a1a2e;
+      border-radius: 4px;
+      color: #fff;
+      font-size: 0.9rem;
+    }
+    .form-group input:focus, .form-group select:focus {
+      outline: none;
       border-color: #e94560;
     }
     
@@ -283,6 +1254,13 @@ export class WebUI {
       opacity: 0.7;
     }
     .domain-tag .remove:hover { opacity: 1; }
+    .domain-preview {
+      margin-top: 5px;
+      font-size: 0.75rem;
+      color: #888;
+      word-break: break-all;
+    }
+    .domain-preview.error { color: #f87171; }
     
     /* Buttons */
     .btn {
@@ -352,7 +1330,19 @@ export class WebUI {
       font-size: 0.85rem;
     }
     .filters input { width: 200px; }
-    
+    .pager {
+      padding: 6px 20px;
+      background: #1a1a2e;
+      border-bottom: 1px solid #0f3460;
+      color: #888;
+      font-size: 0.8rem;
+      display: flex;
+      align-items: center;
+      gap: 10px;
+    }
+    .pager .copy-btn { margin-left: 0; }
+    .pager .copy-btn:disabled { opacity: 0.4; cursor: default; }
+    
     /* Request list */
     .request-list {
       flex: 1;
@@ -419,6 +1409,16 @@ export class WebUI {
     .status.s3xx { color: #fbbf24; }
     .status.s4xx { color: #f87171; }
     .status.s5xx { color: #ef4444; background: #450a0a; padding: 2px 6px; border-radius: 3px; }
+    .status.pending { color: #888; }
+    .status.paused { color: #fbbf24; }
+    .status.error, .status.aborted { color: #f87171; font-size: 0.7rem; }
+
+    .duration {
+      width: 70px;
+      text-align: right;
+      color: #666;
+      font-size: 0.75rem;
+    }
     
     /* Empty state */
     .empty-state {
@@ -525,6 +1525,39 @@ export class WebUI {
       color: white;
       border-color: #e94560;
     }
+    .copy-menu {
+      display: inline-block;
+      position: relative;
+    }
+    .copy-menu summary {
+      display: inline-block;
+      list-style: none;
+    }
+    .copy-menu summary::-webkit-details-marker {
+      display: none;
+    }
+    .copy-menu-items {
+      position: absolute;
+      right: 0;
+      z-index: 10;
+      display: flex;
+      flex-direction: column;
+      gap: 4px;
+      min-width: 170px;
+      padding: 8px;
+      background: #16213e;
+      border: 1px solid #0f3460;
+      border-radius: 6px;
+    }
+    .copy-menu-items .copy-btn {
+      margin-left: 0;
+      text-align: left;
+    }
+    .copy-menu-items label {
+      color: #aaa;
+      font-size: 0.75rem;
+      font-weight: normal;
+    }
     .close-btn {
       position: absolute;
       top: 15px;
@@ -537,6 +1570,227 @@ export class WebUI {
       z-index: 10;
     }
     .close-btn:hover { color: #fff; }
+
+    /* View switcher and usage dashboard */
+    .view-tabs { display: flex; gap: 5px; }
+    .view-tab {
+      background: none;
+      border: 1px solid #0f3460;
+      color: #888;
+      padding: 5px 12px;
+      border-radius: 4px;
+      cursor: pointer;
+      font-size: 0.85rem;
+    }
+    .view-tab.active { background: #0f3460; color: #fff; }
+    .usage-panel {
+      flex: 1;
+      overflow-y: auto;
+      padding: 20px;
+      display: none;
+    }
+    .usage-panel.open { display: block; }
+    .usage-cards {
+      display: grid;
+      grid-template-columns: repeat(auto-fit, minmax(140px, 1fr));
+      gap: 10px;
+      margin-bottom: 20px;
+    }
+    .usage-card {
+      background: #16213e;
+      border-radius: 6px;
+      padding: 12px 15px;
+    }
+    .usage-card .stat-value { font-size: 1.3rem; }
+    .usage-section { margin-bottom: 25px; }
+    .usage-section h3 {
+      color: #e94560;
+      font-size: 1rem;
+      margin-bottom: 10px;
+      display: flex;
+      justify-content: space-between;
+      align-items: center;
+    }
+    .usage-table {
+      width: 100%;
+      border-collapse: collapse;
+      font-size: 0.8rem;
+      background: #16213e;
+      border-radius: 6px;
+      overflow: hidden;
+    }
+    .usage-table th, .usage-table td {
+      padding: 8px 10px;
+      text-align: right;
+      border-bottom: 1px solid #1a1a2e;
+    }
+    .usage-table th { color: #888; font-weight: 600; background: #0f3460; }
+    .usage-table th:first-child, .usage-table td:first-child {
+      text-align: left;
+      max-width: 320px;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .rules-editor {
+      width: 100%;
+      min-height: 320px;
+      background: #16213e;
+      color: #eee;
+      border: 1px solid #0f3460;
+      border-radius: 6px;
+      padding: 10px;
+      font-family: 'Monaco', 'Menlo', monospace;
+      font-size: 0.8rem;
+      resize: vertical;
+    }
+    .paused-banner {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      padding: 8px 20px;
+      background: #422006;
+      color: #fbbf24;
+      font-size: 0.85rem;
+    }
+    .paused-banner span { flex: 1; }
+    .breakpoint-item {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      padding: 6px 0;
+      border-bottom: 1px solid #0f3460;
+      font-size: 0.8rem;
+    }
+    .breakpoint-item .match {
+      flex: 1;
+      font-family: 'Monaco', 'Menlo', monospace;
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .breakpoint-item .stages { color: #888; }
+    .intercept-editor textarea, .intercept-editor input {
+      width: 100%;
+      background: #16213e;
+      color: #eee;
+      border: 1px solid #fbbf24;
+      border-radius: 4px;
+      padding: 8px;
+      font-family: 'Monaco', 'Menlo', monospace;
+      font-size: 0.8rem;
+      margin-bottom: 8px;
+    }
+    .intercept-editor textarea { min-height: 120px; resize: vertical; }
+    .diff-table {
+      width: 100%;
+      border-collapse: collapse;
+      table-layout: fixed;
+      font-family: 'Monaco', 'Menlo', monospace;
+      font-size: 0.75rem;
+    }
+    .diff-table th { color: #888; text-align: left; padding: 4px 6px; background: #0f3460; }
+    .diff-table td {
+      vertical-align: top;
+      padding: 1px 6px;
+      white-space: pre-wrap;
+      word-break: break-all;
+      border-left: 1px solid #0f3460;
+    }
+    .diff-table td.removed { background: #450a0a; color: #fca5a5; }
+    .diff-table td.added { background: #052e16; color: #86efac; }
+    .diff-table td.empty { background: #1a1a2e; }
+    .usage-chart {
+      background: #16213e;
+      border-radius: 6px;
+      padding: 10px;
+    }
+    .usage-chart rect { fill: #e94560; }
+    .usage-chart rect:hover { fill: #ff6b6b; }
+    .usage-chart text { fill: #666; font-size: 10px; }
+
+    /* Streamed (SSE) responses */
+    .message-bubble {
+      background: #0f3460;
+      border-radius: 6px;
+      padding: 12px 15px;
+      font-size: 0.85rem;
+      line-height: 1.5;
+    }
+    .message-role {
+      color: #60a5fa;
+      font-weight: 600;
+      font-size: 0.75rem;
+      text-transform: uppercase;
+      margin-bottom: 6px;
+    }
+    .message-text { white-space: pre-wrap; word-break: break-word; }
+    .message-block { margin-top: 8px; }
+    .message-block summary { cursor: pointer; color: #aaa; font-size: 0.8rem; }
+    .message-block.thinking .message-text { color: #999; font-style: italic; }
+    .message-block.tool-use pre { max-height: 250px; }
+    .message-meta {
+      margin-top: 10px;
+      color: #888;
+      font-size: 0.75rem;
+    }
+    .message-error { color: #f87171; margin-top: 8px; }
+    .sse-event {
+      display: grid;
+      grid-template-columns: 60px 160px 1fr;
+      gap: 8px;
+      padding: 3px 0;
+      border-bottom: 1px solid #1a1a2e;
+      font-size: 0.72rem;
+      font-family: monospace;
+    }
+    .sse-offset { color: #666; text-align: right; }
+    .sse-name { color: #a78bfa; overflow: hidden; text-overflow: ellipsis; }
+    .sse-data { color: #ccc; word-break: break-all; }
+    .ws-message {
+      display: grid;
+      grid-template-columns: 60px 16px 110px 1fr;
+      gap: 8px;
+      padding: 3px 0;
+      border-bottom: 1px solid #1a1a2e;
+      font-size: 0.72rem;
+      font-family: monospace;
+    }
+    .ws-from-client { color: #60a5fa; }
+    .ws-from-server { color: #4ade80; }
+    .ws-type { color: #a78bfa; }
+
+    /* Detail tabs and decoded conversations */
+    .detail-tabs {
+      display: flex;
+      gap: 5px;
+      margin: 0 40px 20px 0;
+      border-bottom: 1px solid #0f3460;
+    }
+    .detail-tab {
+      background: none;
+      border: none;
+      border-bottom: 2px solid transparent;
+      color: #888;
+      padding: 8px 14px;
+      cursor: pointer;
+      font-size: 0.9rem;
+    }
+    .detail-tab:hover { color: #fff; }
+    .detail-tab.active { color: #e94560; border-bottom-color: #e94560; }
+    .conversation { display: flex; flex-direction: column; gap: 10px; }
+    .message-bubble.role-user { border-left: 3px solid #4ade80; }
+    .message-bubble.role-assistant { border-left: 3px solid #60a5fa; }
+    .message-bubble.role-tool { border-left: 3px solid #fbbf24; }
+    .message-bubble.response { border-left: 3px solid #e94560; }
+    .message-role.role-user { color: #4ade80; }
+    .message-role.role-tool { color: #fbbf24; }
+    .message-block.tool-result pre { max-height: 200px; }
+    .message-block.tool-result.is-error pre { border-left: 3px solid #f87171; }
+    .message-placeholder { color: #888; font-style: italic; }
+    .tool-list { font-size: 0.8rem; line-height: 1.6; }
+    .tool-list .tool-name { color: #60a5fa; font-family: monospace; }
+    .tool-list .tool-desc { color: #888; }
   </style>
 </head>
 <body>
@@ -558,12 +1812,41 @@ export class WebUI {
           <input type="checkbox" id="verbose"> Verbose Logging
         </label>
       </div>
+      <div class="form-group" id="revealGroup" style="display: none;">
+        <label title="Show API keys, tokens and cookies unmasked in this browser">
+          <input type="checkbox" id="revealSecrets" onchange="setRevealSecrets(this.checked)"> Reveal Secrets
+        </label>
+      </div>
       
       <h3>Watched Domains</h3>
       <div class="form-group">
-        <input type="text" id="newDomain" placeholder="Add domain to watch...">
+        <input type="text" id="newDomain" placeholder="api.openai.com, .anthropic.com, *.azure.*, /regex/"
+          title="Exact host, .domain with its subdomains, glob, /regex/, or a bare name matching a whole label">
+        <div class="domain-preview" id="newDomainPreview"></div>
       </div>
       <div class="domain-tags" id="watchedDomains"></div>
+
+      <h3>Ignored Domains</h3>
+      <div class="form-group">
+        <input type="text" id="newIgnoredDomain" placeholder="Never logged, e.g. telemetry.*"
+          title="Requests to these are forwarded but left out of the log, even when watched">
+        <div class="domain-preview" id="newIgnoredDomainPreview"></div>
+      </div>
+      <div class="domain-tags" id="ignoredDomains"></div>
+
+      <h3>Domain Policies</h3>
+      <div class="form-group">
+        <input type="text" id="newPolicyDomain" placeholder="Domain pattern, e.g. .github.com"
+          title="How much of these hosts' traffic is seen; the first matching policy wins">
+        <select id="newPolicy" style="margin-top: 5px;">
+          <option value="passthrough">Passthrough: tunnel, log the CONNECT only</option>
+          <option value="metadata">Metadata: SNI, bytes and duration</option>
+          <option value="headers">Intercept headers</option>
+          <option value="full">Intercept full (headers and bodies)</option>
+        </select>
+        <div class="domain-preview" id="newPolicyDomainPreview"></div>
+      </div>
+      <div class="domain-tags" id="domainPolicies"></div>
       
       <h3>Discovered Domains</h3>
       <div class="domain-tags" id="discoveredDomains"></div>
@@ -573,21 +1856,48 @@ export class WebUI {
         <button class="btn btn-secondary" onclick="clearRequests()">Clear Log</button>
       </div>
 
-      <h3>🚀 Launch Apps</h3>
-      <div style="margin-bottom: 20px;">
+      <div id="sessionsSection" style="display: none;">
+        <h3>Sessions</h3>
         <div class="form-group">
-          <input type="text" id="customCommand" placeholder="Enter command..." style="margin-bottom: 10px;">
-          <button class="btn btn-primary" style="width: 100%;" onclick="launchCustomCommand()">Launch Command</button>
+          <label>Viewing</label>
+          <select id="sessionSelect" onchange="switchSession(this.value)"></select>
         </div>
-        <div style="font-size: 0.8rem; color: #888; margin-top: 5px;">
-          Commands run with proxy env vars automatically set
+        <div id="recordingStatus" style="font-size: 0.8rem; color: #888; margin-bottom: 10px;"></div>
+        <div class="form-group">
+          <input type="text" id="sessionName" placeholder="New session name...">
         </div>
+        <div class="btn-group">
+          <button class="btn btn-primary" onclick="startSession()">New Session</button>
+          <button class="btn btn-secondary" id="stopSessionBtn" onclick="stopSession()">Stop</button>
+        </div>
+        <button class="btn btn-secondary" id="deleteSessionBtn" style="width: 100%; margin-top: 8px;" onclick="deleteSession()">Delete Viewed Session</button>
+      </div>
 
-        <h3 style="font-size: 0.85rem; margin: 15px 0 10px; color: #aaa;">Quick Launch</h3>
-        <div style="display: flex; flex-direction: column; gap: 8px;">
-          <button class="btn btn-secondary" style="width: 100%;" onclick="launchApp('code --new-window --proxy-server=http://127.0.0.1:8080 --ignore-certificate-errors')">📝 VSCode (New Window)</button>
-          <button class="btn btn-secondary" style="width: 100%;" onclick="launchApp('open -a \\'Google Chrome\\' --args --proxy-server=http://127.0.0.1:8080')">🌐 Chrome</button>
-          <button class="btn btn-secondary" style="width: 100%;" onclick="launchApp('cursor --new-window --proxy-server=http://127.0.0.1:8080 --ignore-certificate-errors')">⚡ Cursor (New Window)</button>
+      <div id="breakpointsSection" style="display: none;">
+        <h3>⏸ Breakpoints</h3>
+        <div class="form-group">
+          <input type="text" id="bpHost" placeholder="Host, e.g. api.anthropic.com">
+        </div>
+        <div class="form-group">
+          <input type="text" id="bpPath" placeholder="Path, e.g. /v1/* (optional)">
+        </div>
+        <div class="form-group">
+          <input type="text" id="bpMethod" placeholder="Method (optional)">
+        </div>
+        <div class="form-group">
+          <label><input type="checkbox" id="bpRequest" checked> Request</label>
+          <label style="margin-left: 10px;"><input type="checkbox" id="bpResponse"> Response</label>
+        </div>
+        <button class="btn btn-primary" style="width: 100%;" onclick="addBreakpoint()">Add Breakpoint</button>
+        <div id="breakpointMessage" style="font-size: 0.8rem; color: #f87171; margin-top: 8px;"></div>
+        <div id="breakpointList"></div>
+      </div>
+
+      <h3>🚀 Launch Apps</h3>
+      <div style="margin-bottom: 20px;">
+        <div id="launchProfiles" style="display: flex; flex-direction: column; gap: 8px;"></div>
+        <div style="font-size: 0.8rem; color: #888; margin-top: 5px;">
+          Apps run with proxy env vars automatically set
         </div>
         <div id="launchStatus" style="margin-top: 10px; padding: 8px; border-radius: 4px; font-size: 0.8rem; display: none;"></div>
       </div>
@@ -598,13 +1908,19 @@ export class WebUI {
         <pre style="background: #0f3460; padding: 10px; border-radius: 4px; margin: 10px 0; font-size: 0.75rem;">export HTTP_PROXY=http://127.0.0.1:8080
 export HTTPS_PROXY=http://127.0.0.1:8080</pre>
         <p>2. Launch VS Code from that terminal</p>
-        <p>3. Install CA cert for HTTPS</p>
+        <p>3. <a href="/ca" target="_blank" style="color: #60a5fa;">Install the CA certificate</a> for HTTPS</p>
       </div>
     </aside>
     
     <main class="main">
       <header class="header">
         <h1>Request Monitor</h1>
+        <div class="view-tabs">
+          <button class="view-tab active" id="viewRequests" onclick="switchView('requests')">Requests</button>
+          <button class="view-tab" id="viewUsage" onclick="switchView('usage')">Usage &amp; Cost</button>
+          <button class="view-tab" id="viewRules" onclick="switchView('rules')">Rules</button>
+          <button class="view-tab" id="viewMocks" onclick="switchView('mocks')">Mocks</button>
+        </div>
         <div class="stats">
           <div class="stat">
             <div class="stat-value" id="totalCount">0</div>
@@ -614,6 +1930,10 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
             <div class="stat-value" id="watchedCount">0</div>
             <div class="stat-label">Watched</div>
           </div>
+          <div class="stat">
+            <div class="stat-value" id="costTotal">$0.00</div>
+            <div class="stat-label">Cost</div>
+          </div>
         </div>
       </header>
       
@@ -632,17 +1952,33 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
           <option value="watched">Watched Only</option>
           <option value="other">Other Only</option>
         </select>
+        <button class="copy-btn" onclick="exportHar()" title="Download the filtered requests as HAR">Export HAR</button>
         <label style="margin-left: auto;">
           <input type="checkbox" id="autoScroll" checked> Auto-scroll
         </label>
       </div>
       
+      <div class="paused-banner" id="pausedBanner" style="display: none;">
+        <span id="pausedText"></span>
+        <button class="copy-btn" onclick="resumeAll()">Resume All</button>
+      </div>
+
+      <div class="pager" id="pager" style="display: none;">
+        <span id="pagerText"></span>
+        <button class="copy-btn" id="pagerNewer" onclick="loadPage(page.offset - PAGE_SIZE)">Newer</button>
+        <button class="copy-btn" id="pagerOlder" onclick="loadPage(page.offset + PAGE_SIZE)">Older</button>
+      </div>
+
       <div class="request-list" id="requestList">
         <div class="empty-state">
           <h3>No requests captured yet</h3>
           <p>Configure your application to use the proxy and start making requests.</p>
         </div>
       </div>
+
+      <div class="usage-panel" id="usagePanel"></div>
+      <div class="usage-panel" id="rulesPanel"></div>
+      <div class="usage-panel" id="mocksPanel"></div>
     </main>
     
     <div class="detail-panel" id="detailPanel">
@@ -652,128 +1988,897 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
   </div>
 
   <script>
+    // The current page of requests matching the filters, oldest first
     let requests = [];
+    const PAGE_SIZE = 100;
+    let page = { offset: 0, total: 0 };
+    let counts = { total: 0, watched: 0 };
     let config = {};
+    let openDetailId = null;
+    let detailTab = 'overview';
+    let currentView = 'requests';
+    let statsRefreshTimer = null;
+    let sessions = { enabled: false, recording: null, list: [] };
+    // History session being browsed; null follows the recording one
+    let viewSession = null;
+    let breakpoints = { enabled: false, timeoutMs: 0, breakpoints: [] };
+    // Set when attached to a running proxy that can send replays
+    let replayEnabled = false;
+    // Requests and responses held at a breakpoint, by request id
+    const paused = new Map();
+
+    function findRequest(id) {
+      return requests.find(r => r.id === id);
+    }
     
     // Load initial data
     async function init() {
-      const [reqRes, configRes, domainsRes] = await Promise.all([
-        fetch('/api/requests'),
+      const [configRes, domainsRes, redactionRes, replayRes] = await Promise.all([
         fetch('/api/config'),
-        fetch('/api/domains')
+        fetch('/api/domains'),
+        fetch('/api/redaction'),
+        fetch('/api/replay'),
+        loadPage(0),
+        loadSessions(),
+        loadBreakpoints(),
+        loadMocks(),
+        loadLaunchProfiles()
       ]);
       
-      requests = await reqRes.json();
       config = await configRes.json();
       const domains = await domainsRes.json();
+      const redaction = await redactionRes.json();
+      replayEnabled = (await replayRes.json()).enabled;
       
       document.getElementById('port').value = config.port;
       document.getElementById('logFile').value = config.logFile;
       document.getElementById('verbose').checked = config.verbose;
+      // Only viewers on this machine may see secrets
+      document.getElementById('revealGroup').style.display = redaction.enabled && redaction.canReveal ? '' : 'none';
+      document.getElementById('revealSecrets').checked = redaction.revealed;
       
-      renderWatchedDomains(config.watchDomains);
+      renderDomainLists();
       renderDiscoveredDomains(domains.discovered);
-      renderRequests();
       
       // Start SSE
       const eventSource = new EventSource('/api/events');
       eventSource.onmessage = (event) => {
         const entry = JSON.parse(event.data);
-        requests.push(entry);
-        if (requests.length > 1000) requests.shift();
+        updateDomains(entry);
+        // New requests belong to the recording session, not an older one
+        if (viewSession !== null) return;
+        counts.total++;
+        if (entry.watched) counts.watched++;
+        if (matchesFilters(entry)) {
+          page.total++;
+          if (page.offset === 0) {
+            requests.push(entry);
+            if (requests.length > PAGE_SIZE) requests.shift();
+          } else {
+            // Keep an older page stable as new requests arrive
+            page.offset++;
+          }
+        }
         renderRequests();
-        updateDomains(entry.host);
       };
+      eventSource.addEventListener('update', (event) => {
+        const entry = JSON.parse(event.data);
+        const index = requests.findIndex(r => r.id === entry.id);
+        if (index === -1) return;
+        requests[index] = entry;
+        renderRequests();
+        if (openDetailId === entry.id) {
+          showDetail(entry.id);
+        }
+        if (entry.llm && entry.llm.costUsd !== undefined) {
+          scheduleStatsRefresh();
+        }
+      });
+      eventSource.addEventListener('websocket', (event) => {
+        const { id, message } = JSON.parse(event.data);
+        const r = requests.find(x => x.id === id);
+        if (!r) return;
+        r.webSocketMessages = r.webSocketMessages || [];
+        r.webSocketMessages.push(message);
+        if (openDetailId !== id) return;
+        // Append rather than re-render, so a busy socket doesn't reset the pane
+        const list = document.getElementById('wsMessages');
+        if (!list) {
+          showDetail(id);
+          return;
+        }
+        const atBottom = list.scrollTop + list.clientHeight >= list.scrollHeight - 5;
+        list.insertAdjacentHTML('beforeend', renderWebSocketMessage(message));
+        document.getElementById('wsCount').textContent = r.webSocketMessages.length;
+        if (atBottom) list.scrollTop = list.scrollHeight;
+      });
+      eventSource.addEventListener('paused', (event) => {
+        const message = JSON.parse(event.data);
+        paused.set(message.id, message);
+        renderPausedBanner();
+        if (openDetailId === message.id) {
+          showDetail(message.id);
+        }
+      });
+      eventSource.addEventListener('resumed', (event) => {
+        const { id } = JSON.parse(event.data);
+        paused.delete(id);
+        renderPausedBanner();
+      });
+
+      refreshStats();
+    }
+
+    function switchView(view) {
+      currentView = view;
+      document.getElementById('viewRequests').classList.toggle('active', view === 'requests');
+      document.getElementById('viewUsage').classList.toggle('active', view === 'usage');
+      document.getElementById('requestList').style.display = view === 'requests' ? '' : 'none';
+      document.querySelector('.filters').style.display = view === 'requests' ? '' : 'none';
+      document.getElementById('viewRules').classList.toggle('active', view === 'rules');
+      document.getElementById('usagePanel').classList.toggle('open', view === 'usage');
+      document.getElementById('rulesPanel').classList.toggle('open', view === 'rules');
+      document.getElementById('viewMocks').classList.toggle('active', view === 'mocks');
+      document.getElementById('mocksPanel').classList.toggle('open', view === 'mocks');
+      if (view === 'usage') {
+        refreshStats();
+      }
+      if (view === 'rules') {
+        loadRules();
+      }
+      if (view === 'mocks') {
+        loadMocks();
+      }
+    }
+
+    let rulesState = { enabled: false, rules: [] };
+
+    async function loadRules() {
+      const res = await fetch('/api/rules');
+      rulesState = await res.json();
+      renderRules();
+    }
+
+    function describeMatch(match) {
+      const parts = [match.method || '*', (match.host || '*') + (match.path || '')];
+      for (const [name, value] of Object.entries(match.headers || {})) {
+        parts.push(name + ': ' + value);
+      }
+      return parts.join(' ');
+    }
+
+    function describeRewrite(label, rewrite) {
+      if (!rewrite) return [];
+      const actions = [];
+      if (rewrite.url) actions.push(label + ' URL → ' + rewrite.url);
+      if (rewrite.status !== undefined) actions.push(label + ' status → ' + rewrite.status);
+      for (const name of Object.keys(rewrite.setHeaders || {})) actions.push(label + ' set ' + name);
+      for (const name of rewrite.removeHeaders || []) actions.push(label + ' remove ' + name);
+      for (const edit of rewrite.body || []) actions.push(label + ' body ' + edit.op + ' ' + edit.path);
+      return actions;
+    }
+
+    function renderRules() {
+      const panel = document.getElementById('rulesPanel');
+      if (!rulesState.enabled) {
+        panel.innerHTML = '<div class="empty-state"><h3>Rules are only available while the proxy is running</h3></div>';
+        return;
+      }
+
+      const rows = rulesState.rules.map((rule, i) => \`
+        <tr>
+          <td title="\${escapeHtml(rule.name)}">\${escapeHtml(rule.name)}</td>
+          <td style="text-align: left;">\${escapeHtml(describeMatch(rule.match))}</td>
+          <td style="text-align: left;">\${[...describeRewrite('request', rule.request), ...describeRewrite('response', rule.response)].map(escapeHtml).join('<br>')}</td>
+          <td><input type="checkbox" \${rule.enabled !== false ? 'checked' : ''} onchange="toggleRule(\${i}, this.checked)"></td>
+        </tr>
+      \`).join('');
+
+      panel.innerHTML = \`
+        <div class="usage-section">
+          <h3>Rewrite Rules</h3>
+          <div style="font-size: 0.8rem; color: #888; margin-bottom: 10px;">
+            \${rulesState.file
+              ? 'Saved to ' + escapeHtml(rulesState.file) + '; edits to the file are picked up automatically.'
+              : 'Kept in memory only; start with --rules &lt;file&gt; to save them.'}
+          </div>
+          \${rulesState.error ? '<div style="color: #f87171; font-size: 0.8rem; margin-bottom: 10px;">' + escapeHtml(rulesState.error) + '</div>' : ''}
+          \${rows
+            ? '<table class="usage-table"><tr><th>Rule</th><th style="text-align: left;">Match</th><th style="text-align: left;">Actions</th><th>On</th></tr>' + rows + '</table>'
+            : '<div style="color: #888; font-size: 0.85rem;">No rules yet. Add some below.</div>'}
+        </div>
+        <div class="usage-section">
+          <h3>Edit as JSON
+            <button class="copy-btn" onclick="saveRules()">Save</button>
+          </h3>
+          <textarea class="rules-editor" id="rulesEditor" spellcheck="false">\${escapeHtml(JSON.stringify({ rules: rulesState.rules }, null, 2))}</textarea>
+          <div id="rulesMessage" style="font-size: 0.8rem; margin-top: 8px;"></div>
+        </div>
+      \`;
+    }
+
+    async function postRules(rules) {
+      const res = await fetch('/api/rules', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ rules })
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const message = document.getElementById('rulesMessage');
+        message.style.color = '#f87171';
+        message.textContent = data.error;
+        return;
+      }
+      await loadRules();
+    }
+
+    function toggleRule(index, enabled) {
+      const rules = rulesState.rules.map((rule, i) => i === index ? { ...rule, enabled } : rule);
+      postRules(rules);
+    }
+
+    function saveRules() {
+      let parsed;
+      try {
+        parsed = JSON.parse(document.getElementById('rulesEditor').value);
+      } catch (e) {
+        const message = document.getElementById('rulesMessage');
+        message.style.color = '#f87171';
+        message.textContent = 'Invalid JSON: ' + e.message;
+        return;
+      }
+      postRules(Array.isArray(parsed) ? parsed : parsed.rules);
+    }
+
+    let mocksState = { enabled: false, errors: [], mocks: [] };
+    let redactSnippets = true;
+    let launchProfiles = [];
+    // Mock shown in the JSON editor; null while writing a new one
+    let editingMockId = null;
+
+    async function loadMocks() {
+      const res = await fetch('/api/mocks');
+      mocksState = await res.json();
+      if (currentView === 'mocks') {
+        renderMocks();
+      }
+    }
+
+    function describeMockResponse(mock) {
+      const status = mock.status || 200;
+      if (mock.events) return status + ', ' + mock.events.length + ' stream events';
+      if (mock.bodyBase64 !== undefined) return status + ', binary body';
+      if (mock.body === undefined) return status + ', no body';
+      return status + ', ' + (typeof mock.body === 'string' ? 'text' : 'JSON') + ' body';
+    }
+
+    function renderMocks() {
+      const panel = document.getElementById('mocksPanel');
+      if (!mocksState.enabled) {
+        panel.innerHTML = '<div class="empty-state"><h3>Mocks are only available while the proxy is running</h3></div>';
+        return;
+      }
+
+      const rows = mocksState.mocks.map(mock => \`
+        <tr>
+          <td title="\${escapeHtml(mock.id)}">\${escapeHtml(mock.name)}</td>
+          <td style="text-align: left;">\${escapeHtml(describeMatch(mock.match))}</td>
+          <td style="text-align: left;">\${escapeHtml(describeMockResponse(mock))}\${mock.delayMs ? ' after ' + mock.delayMs + 'ms' : ''}</td>
+          <td><input type="checkbox" \${mock.enabled !== false ? 'checked' : ''} onchange="toggleMock(\${jsArg(mock.id)}, this.checked)"></td>
+          <td>
+            <button class="copy-btn" onclick="editMock(\${jsArg(mock.id)})">Edit</button>
+            <button class="copy-btn" onclick="deleteMock(\${jsArg(mock.id)})">✕</button>
+          </td>
+        </tr>
+      \`).join('');
+
+      const editing = mocksState.mocks.find(m => m.id === editingMockId);
+      const template = { name: 'New mock', match: { host: 'api.anthropic.com', path: '/v1/messages' }, status: 200, body: {} };
+      const { id, ...shown } = editing || template;
+
+      panel.innerHTML = \`
+        <div class="usage-section">
+          <h3>Mock Responses</h3>
+          <div style="font-size: 0.8rem; color: #888; margin-bottom: 10px;">
+            Matching requests are answered here instead of by the upstream. Saved as JSON files in \${escapeHtml(mocksState.dir)}; use "Mock this response" on a captured request to add one.
+          </div>
+          \${mocksState.errors.map(e => '<div style="color: #f87171; font-size: 0.8rem; margin-bottom: 6px;">' + escapeHtml(e) + '</div>').join('')}
+          \${rows
+            ? '<table class="usage-table"><tr><th>Mock</th><th style="text-align: left;">Match</th><th style="text-align: left;">Response</th><th>On</th><th></th></tr>' + rows + '</table>'
+            : '<div style="color: #888; font-size: 0.85rem;">No mocks yet.</div>'}
+        </div>
+        <div class="usage-section">
+          <h3>\${editing ? 'Edit ' + escapeHtml(editing.name) : 'New Mock'}
+            <button class="copy-btn" onclick="saveMock()">Save</button>
+            \${editing ? '<button class="copy-btn" onclick="editMock(null)">New</button>' : ''}
+          </h3>
+          <textarea class="rules-editor" id="mockEditor" spellcheck="false">\${escapeHtml(JSON.stringify(shown, null, 2))}</textarea>
+          <div id="mockMessage" style="font-size: 0.8rem; margin-top: 8px;"></div>
+        </div>
+      \`;
+    }
+
+    function editMock(id) {
+      editingMockId = id;
+      renderMocks();
+    }
+
+    async function postMock(id, mock) {
+      const res = await fetch(id ? '/api/mocks/' + encodeURIComponent(id) : '/api/mocks', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(mock)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        const message = document.getElementById('mockMessage');
+        message.style.color = '#f87171';
+        message.textContent = data.error;
+        return;
+      }
+      editingMockId = data.mock.id;
+      await loadMocks();
+    }
+
+    function saveMock() {
+      let parsed;
+      try {
+        parsed = JSON.parse(document.getElementById('mockEditor').value);
+      } catch (e) {
+        const message = document.getElementById('mockMessage');
+        message.style.color = '#f87171';
+        message.textContent = 'Invalid JSON: ' + e.message;
+        return;
+      }
+      postMock(editingMockId, parsed);
+    }
+
+    function toggleMock(id, enabled) {
+      const { id: _id, ...mock } = mocksState.mocks.find(m => m.id === id);
+      postMock(id, { ...mock, enabled });
+    }
+
+    async function deleteMock(id) {
+      await fetch('/api/mocks/' + encodeURIComponent(id), { method: 'DELETE' });
+      if (editingMockId === id) editingMockId = null;
+      await loadMocks();
+    }
+
+    async function mockEntry(id) {
+      const res = await fetch('/api/requests/' + encodeURIComponent(id) + '/mock', { method: 'POST' });
+      const data = await res.json();
+      if (!res.ok) {
+        alert('Could not mock this response: ' + data.error);
+        return;
+      }
+      if (data.warning) {
+        alert(data.warning);
+      }
+      editingMockId = data.mock.id;
+      await loadMocks();
+      switchView('mocks');
+    }
+
+    // Coalesce bursts of completed calls into one stats fetch
+    function scheduleStatsRefresh() {
+      if (statsRefreshTimer) return;
+      statsRefreshTimer = setTimeout(() => {
+        statsRefreshTimer = null;
+        refreshStats();
+      }, 1000);
+    }
+
+    async function refreshStats() {
+      const stats = await (await fetch('/api/stats')).json();
+      document.getElementById('costTotal').textContent = formatCost(stats.totals.costUsd);
+      if (currentView === 'usage') {
+        renderUsage(stats);
+      }
+    }
+
+    async function resetStats() {
+      if (!confirm('Reset all usage totals?')) return;
+      await fetch('/api/stats/reset', { method: 'POST' });
+      refreshStats();
+    }
+
+    function formatCost(usd) {
+      if (!usd) return '$0.00';
+      return usd < 0.01 ? '$' + usd.toFixed(4) : '$' + usd.toFixed(2);
+    }
+
+    function formatTokens(n) {
+      if (n >= 1000000) return (n / 1000000).toFixed(2) + 'M';
+      if (n >= 1000) return (n / 1000).toFixed(1) + 'k';
+      return String(n);
+    }
+
+    function renderUsage(stats) {
+      const t = stats.totals;
+      const card = (label, value) => \`
+        <div class="usage-card">
+          <div class="stat-value">\${value}</div>
+          <div class="stat-label">\${label}</div>
+        </div>
+      \`;
+
+      const table = (title, groups) => {
+        const rows = Object.entries(groups).sort((a, b) => b[1].costUsd - a[1].costUsd);
+        if (rows.length === 0) return '';
+        return \`
+          <div class="usage-section">
+            <h3>\${title}</h3>
+            <table class="usage-table">
+              <tr><th>Name</th><th>Calls</th><th>Input</th><th>Output</th><th>Cache read</th><th>Cache write</th><th>Cost</th></tr>
+              \${rows.map(([name, g]) => \`
+                <tr>
+                  <td title="\${escapeHtml(name)}">\${escapeHtml(name)}</td>
+                  <td>\${g.requests}</td>
+                  <td>\${formatTokens(g.inputTokens)}</td>
+                  <td>\${formatTokens(g.outputTokens)}</td>
+                  <td>\${formatTokens(g.cacheReadTokens)}</td>
+                  <td>\${formatTokens(g.cacheWriteTokens)}</td>
+                  <td>\${formatCost(g.costUsd)}\${g.unpricedRequests ? ' <span title="calls with unknown model price" style="color: #fbbf24;">*</span>' : ''}</td>
+                </tr>
+              \`).join('')}
+            </table>
+          </div>
+        \`;
+      };
+
+      document.getElementById('usagePanel').innerHTML = \`
+        <div class="usage-section">
+          <h3>Totals since \${new Date(stats.since).toLocaleString()}
+            <button class="copy-btn" onclick="resetStats()">Reset</button>
+          </h3>
+          <div class="usage-cards">
+            \${card('LLM calls', t.requests)}
+            \${card('Input tokens', formatTokens(t.inputTokens))}
+            \${card('Output tokens', formatTokens(t.outputTokens))}
+            \${card('Cache read', formatTokens(t.cacheReadTokens))}
+            \${card('Cache write', formatTokens(t.cacheWriteTokens))}
+            \${card('Cost', formatCost(t.costUsd))}
+          </div>
+          \${t.unpricedRequests ? '<div style="color: #fbbf24; font-size: 0.8rem;">' + t.unpricedRequests + ' call(s) used a model without a configured price and are not included in cost.</div>' : ''}
+        </div>
+        <div class="usage-section">
+          <h3>Cost per minute</h3>
+          \${renderUsageChart(stats.timeSeries)}
+        </div>
+        \${table('By model', stats.byModel)}
+        \${table('By host', stats.byHost)}
+        \${table('By launched app', stats.byClient)}
+      \`;
+    }
+
+    function renderUsageChart(series) {
+      const points = series.slice(-60);
+      if (points.length === 0) {
+        return '<div class="usage-chart" style="color: #666; font-size: 0.85rem;">No LLM calls with usage yet.</div>';
+      }
+
+      const width = 600;
+      const height = 120;
+      const max = Math.max(...points.map(p => p.costUsd), 0.0001);
+      const barWidth = width / 60;
+      const bars = points.map((p, i) => {
+        const h = Math.max(1, (p.costUsd / max) * (height - 20));
+        const label = new Date(p.time).toLocaleTimeString() + ': ' + formatCost(p.costUsd) +
+          ', ' + p.requests + ' calls, ' + formatTokens(p.inputTokens + p.outputTokens) + ' tokens';
+        return \`<rect x="\${i * barWidth + 1}" y="\${height - 15 - h}" width="\${barWidth - 2}" height="\${h}"><title>\${escapeHtml(label)}</title></rect>\`;
+      }).join('');
+
+      return \`
+        <div class="usage-chart">
+          <svg viewBox="0 0 \${width} \${height}" width="100%" height="\${height}" preserveAspectRatio="none">
+            \${bars}
+            <text x="0" y="\${height - 2}">\${new Date(points[0].time).toLocaleTimeString()}</text>
+            <text x="\${width}" y="\${height - 2}" text-anchor="end">\${new Date(points[points.length - 1].time).toLocaleTimeString()}</text>
+            <text x="0" y="10">max \${formatCost(max)}/min</text>
+          </svg>
+        </div>
+      \`;
     }
     
-    function renderWatchedDomains(domains) {
-      const container = document.getElementById('watchedDomains');
-      container.innerHTML = domains.map(d => 
-        \`<span class="domain-tag active">\${d}<span class="remove" onclick="removeDomain('\${d}')">&times;</span></span>\`
+    // Inputs taking a domain pattern, and what they add it to
+    const DOMAIN_INPUTS = {
+      newDomain: (pattern) => addDomain('watchDomains', pattern),
+      newIgnoredDomain: (pattern) => addDomain('ignoreDomains', pattern),
+      newPolicyDomain: (pattern) => addPolicy(pattern, document.getElementById('newPolicy').value),
+    };
+
+    function renderDomainLists() {
+      for (const [containerId, list] of [['watchedDomains', 'watchDomains'], ['ignoredDomains', 'ignoreDomains']]) {
+        document.getElementById(containerId).innerHTML = (config[list] || []).map((d, i) =>
+          \`<span class="domain-tag active">\${escapeHtml(d)}<span class="remove" onclick="removeDomain('\${list}', \${i})">&times;</span></span>\`
+        ).join('');
+      }
+      document.getElementById('domainPolicies').innerHTML = (config.domainPolicies || []).map((rule, i) =>
+        \`<span class="domain-tag active">\${escapeHtml(rule.domain)} → \${escapeHtml(rule.policy)}<span class="remove" onclick="removePolicy(\${i})">&times;</span></span>\`
       ).join('');
     }
-    
+
     function renderDiscoveredDomains(domains) {
       const container = document.getElementById('discoveredDomains');
-      const watched = config.watchDomains || [];
-      container.innerHTML = domains
-        .filter(d => !watched.some(w => d.includes(w)))
-        .slice(0, 20)
-        .map(d => \`<span class="domain-tag" onclick="addDomain('\${d}')">\${d}</span>\`)
-        .join('');
+      container.innerHTML = '';
+      for (const d of domains.slice(0, 20)) {
+        addDiscoveredTag(container, d, false);
+      }
     }
-    
-    function updateDomains(host) {
+
+    function addDiscoveredTag(container, host, first) {
+      const tag = document.createElement('span');
+      tag.className = 'domain-tag';
+      tag.dataset.domain = host;
+      tag.textContent = host;
+      tag.title = 'Watch this host';
+      tag.onclick = () => addDomain('watchDomains', host);
+      container.insertBefore(tag, first ? container.firstChild : null);
+    }
+
+    function updateDomains(entry) {
+      if (entry.watched) return;
       const container = document.getElementById('discoveredDomains');
-      const watched = config.watchDomains || [];
-      if (!watched.some(w => host.includes(w))) {
-        const existing = container.querySelector(\`[data-domain="\${host}"]\`);
-        if (!existing) {
-          const tag = document.createElement('span');
-          tag.className = 'domain-tag';
-          tag.dataset.domain = host;
-          tag.textContent = host;
-          tag.onclick = () => addDomain(host);
-          container.insertBefore(tag, container.firstChild);
-        }
+      const existing = [...container.children].some(tag => tag.dataset.domain === entry.host);
+      if (!existing) {
+        addDiscoveredTag(container, entry.host, true);
       }
     }
-    
-    function addDomain(domain) {
-      if (!config.watchDomains.includes(domain)) {
-        config.watchDomains.push(domain);
-        renderWatchedDomains(config.watchDomains);
+
+    function addDomain(list, domain) {
+      config[list] = config[list] || [];
+      if (!config[list].includes(domain)) {
+        config[list].push(domain);
+        renderDomainLists();
       }
     }
-    
-    function removeDomain(domain) {
-      config.watchDomains = config.watchDomains.filter(d => d !== domain);
-      renderWatchedDomains(config.watchDomains);
+
+    function removeDomain(list, index) {
+      config[list].splice(index, 1);
+      renderDomainLists();
     }
-    
-    document.getElementById('newDomain').addEventListener('keypress', (e) => {
-      if (e.key === 'Enter' && e.target.value.trim()) {
-        addDomain(e.target.value.trim());
-        e.target.value = '';
+
+    // Policies apply in order, so a pattern already listed is given the new policy
+    function addPolicy(domain, policy) {
+      config.domainPolicies = config.domainPolicies || [];
+      const existing = config.domainPolicies.find(rule => rule.domain === domain);
+      if (existing) {
+        existing.policy = policy;
+      } else {
+        config.domainPolicies.push({ domain, policy });
       }
-    });
+      renderDomainLists();
+    }
+
+    function removePolicy(index) {
+      config.domainPolicies.splice(index, 1);
+      renderDomainLists();
+    }
+
+    // Which hosts seen so far a pattern matches, or why it is invalid
+    async function previewDomain(pattern) {
+      const res = await fetch('/api/domains/preview?pattern=' + encodeURIComponent(pattern));
+      const data = await res.json();
+      return res.ok ? { matches: data.matches } : { error: data.error };
+    }
+
+    function showDomainPreview(inputId, preview) {
+      const el = document.getElementById(inputId + 'Preview');
+      el.classList.toggle('error', !!(preview && preview.error));
+      if (!preview) {
+        el.textContent = '';
+      } else if (preview.error) {
+        el.textContent = preview.error;
+      } else if (preview.matches.length === 0) {
+        el.textContent = 'Matches none of the domains seen so far';
+      } else {
+        const shown = preview.matches.slice(0, 10).join(', ');
+        el.textContent = 'Matches ' + preview.matches.length + ' seen: ' + shown + (preview.matches.length > 10 ? ', …' : '');
+      }
+    }
+
+    for (const [inputId, add] of Object.entries(DOMAIN_INPUTS)) {
+      const input = document.getElementById(inputId);
+      let previewTimer = null;
+      input.addEventListener('input', () => {
+        clearTimeout(previewTimer);
+        const pattern = input.value.trim();
+        if (!pattern) {
+          showDomainPreview(inputId, null);
+          return;
+        }
+        previewTimer = setTimeout(async () => showDomainPreview(inputId, await previewDomain(pattern)), 200);
+      });
+      input.addEventListener('keypress', async (e) => {
+        const pattern = input.value.trim();
+        if (e.key !== 'Enter' || !pattern) return;
+        clearTimeout(previewTimer);
+        const preview = await previewDomain(pattern);
+        if (preview.error) {
+          showDomainPreview(inputId, preview);
+          return;
+        }
+        add(pattern);
+        input.value = '';
+        showDomainPreview(inputId, null);
+      });
+    }
     
     async function saveConfig() {
       config.logFile = document.getElementById('logFile').value;
       config.verbose = document.getElementById('verbose').checked;
       
-      await fetch('/api/config', {
+      const res = await fetch('/api/config', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify(config)
       });
-      
+      if (!res.ok) {
+        alert('Settings not saved: ' + (await res.json()).error);
+        return;
+      }
+
+      // Hosts the new patterns match are no longer suggestions
+      const domains = await (await fetch('/api/domains')).json();
+      renderDiscoveredDomains(domains.discovered);
       alert('Settings saved!');
     }
     
+    function setRevealSecrets(reveal) {
+      document.cookie = 'reveal=' + (reveal ? '1' : '0') + '; path=/; SameSite=Strict';
+      // Reload so the event stream reconnects with secrets shown or masked
+      location.reload();
+    }
+    
     async function clearRequests() {
       await fetch('/api/clear', { method: 'POST' });
-      requests = [];
-      renderRequests();
+      viewSession = null;
+      await Promise.all([loadPage(0), loadSessions()]);
+    }
+
+    async function loadSessions() {
+      const res = await fetch('/api/sessions');
+      const data = await res.json();
+      sessions = { enabled: data.enabled, recording: data.recording, list: data.sessions };
+      renderSessions();
+    }
+
+    function renderSessions() {
+      document.getElementById('sessionsSection').style.display = sessions.enabled ? '' : 'none';
+      if (!sessions.enabled) return;
+
+      const select = document.getElementById('sessionSelect');
+      const current = sessions.recording !== null ? 'Recording' : 'Live (not recorded)';
+      select.innerHTML = '<option value="">' + current + '</option>' + sessions.list
+        .filter(s => s.id !== sessions.recording)
+        .map(s => \`<option value="\${escapeHtml(s.id)}">\${escapeHtml(s.name)} (\${s.entryCount})</option>\`)
+        .join('');
+      select.value = viewSession === null ? '' : String(viewSession);
+
+      const recording = sessions.list.find(s => s.id === sessions.recording);
+      document.getElementById('recordingStatus').textContent = recording
+        ? 'Recording to "' + recording.name + '" since ' + new Date(recording.startedAt).toLocaleString()
+        : 'Not recording; new requests are only kept in memory';
+      document.getElementById('stopSessionBtn').disabled = !recording;
+      document.getElementById('deleteSessionBtn').disabled = viewSession === null;
+    }
+
+    async function switchSession(value) {
+      viewSession = value ? parseInt(value, 10) : null;
+      renderSessions();
+      await loadPage(0);
+    }
+
+    async function startSession() {
+      const input = document.getElementById('sessionName');
+      await fetch('/api/sessions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name: input.value })
+      });
+      input.value = '';
+      viewSession = null;
+      await Promise.all([loadPage(0), loadSessions()]);
+    }
+
+    async function stopSession() {
+      await fetch('/api/sessions/stop', { method: 'POST' });
+      await Promise.all([loadPage(0), loadSessions()]);
+    }
+
+    async function deleteSession() {
+      const session = sessions.list.find(s => s.id === viewSession);
+      if (!session || !confirm('Delete session "' + session.name + '" and its ' + session.entryCount + ' requests?')) return;
+      await fetch('/api/sessions/' + session.id, { method: 'DELETE' });
+      viewSession = null;
+      await Promise.all([loadPage(0), loadSessions()]);
     }
     
-    function renderRequests() {
-      const container = document.getElementById('requestList');
+    async function loadBreakpoints() {
+      const res = await fetch('/api/breakpoints');
+      breakpoints = await res.json();
+      paused.clear();
+      for (const message of breakpoints.paused) {
+        paused.set(message.id, message);
+      }
+      renderBreakpoints();
+      renderPausedBanner();
+    }
+
+    function renderBreakpoints() {
+      document.getElementById('breakpointsSection').style.display = breakpoints.enabled ? '' : 'none';
+      document.getElementById('breakpointList').innerHTML = breakpoints.breakpoints.map(bp => {
+        const stages = [bp.request && 'req', bp.response && 'res'].filter(Boolean).join('+');
+        return \`
+          <div class="breakpoint-item">
+            <input type="checkbox" \${bp.enabled !== false ? 'checked' : ''} onchange="updateBreakpoint(\${jsArg(bp.id)}, { enabled: this.checked })">
+            <span class="match" title="\${escapeHtml(describeMatch(bp.match))}">\${escapeHtml(describeMatch(bp.match))}</span>
+            <span class="stages">\${stages}</span>
+            <button class="copy-btn" onclick="removeBreakpoint(\${jsArg(bp.id)})">✕</button>
+          </div>
+        \`;
+      }).join('');
+    }
+
+    async function addBreakpoint() {
+      const match = {};
+      for (const field of ['host', 'path', 'method']) {
+        const input = document.getElementById('bp' + field[0].toUpperCase() + field.slice(1));
+        if (input.value.trim()) match[field] = input.value.trim();
+      }
+      const res = await fetch('/api/breakpoints', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          match,
+          request: document.getElementById('bpRequest').checked,
+          response: document.getElementById('bpResponse').checked
+        })
+      });
+      const data = await res.json();
+      document.getElementById('breakpointMessage').textContent = res.ok ? '' : data.error;
+      if (res.ok) {
+        document.getElementById('bpHost').value = '';
+        document.getElementById('bpPath').value = '';
+        document.getElementById('bpMethod').value = '';
+        await loadBreakpoints();
+      }
+    }
+
+    async function updateBreakpoint(id, changes) {
+      await fetch('/api/breakpoints/' + encodeURIComponent(id), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(changes)
+      });
+      await loadBreakpoints();
+    }
+
+    async function removeBreakpoint(id) {
+      await fetch('/api/breakpoints/' + encodeURIComponent(id), { method: 'DELETE' });
+      await loadBreakpoints();
+    }
+
+    function renderPausedBanner() {
+      document.getElementById('pausedBanner').style.display = paused.size > 0 ? '' : 'none';
+      document.getElementById('pausedText').textContent =
+        '⏸ ' + paused.size + (paused.size === 1 ? ' message is' : ' messages are') + ' held at a breakpoint. Open one to edit and forward it.';
+    }
+
+    async function resumeAll() {
+      await fetch('/api/paused/resume-all', { method: 'POST' });
+    }
+
+    function renderIntercept(message) {
+      const expires = new Date(message.expiresAt).toLocaleTimeString();
+      const start = message.stage === 'request'
+        ? \`<input type="text" id="interceptMethod" value="\${escapeHtml(message.method)}" style="width: 100px; margin-right: 6px;">
+           <input type="text" id="interceptUrl" value="\${escapeHtml(message.url)}">\`
+        : \`<input type="number" id="interceptStatus" value="\${message.statusCode}" style="width: 100px;">\`;
+      return \`
+        <div class="detail-section intercept-editor">
+          <h3 style="color: #fbbf24;">⏸ Paused \${message.stage}
+            <button class="copy-btn" onclick="resumePaused(\${jsArg(message.id)}, 'forward')">Forward</button>
+            <button class="copy-btn" onclick="resumePaused(\${jsArg(message.id)}, 'drop')">Drop</button>
+          </h3>
+          <div style="font-size: 0.8rem; color: #888; margin-bottom: 8px;">Forwarded unchanged at \${expires} if not resumed.</div>
+          <div style="display: flex;">\${start}</div>
+          <label style="font-size: 0.8rem; color: #888;">Headers</label>
+          <textarea id="interceptHeaders" spellcheck="false">\${escapeHtml(JSON.stringify(message.headers, null, 2))}</textarea>
+          <label style="font-size: 0.8rem; color: #888;">Body\${message.bodyBinary ? ' (binary, shown as base64 and not editable)' : ''}</label>
+          <textarea id="interceptBody" spellcheck="false" \${message.bodyBinary ? 'readonly' : ''}>\${escapeHtml(message.body)}</textarea>
+          <div id="interceptMessage" style="font-size: 0.8rem; color: #f87171;"></div>
+        </div>
+      \`;
+    }
+
+    async function resumePaused(id, action) {
+      const edit = { action };
+      if (action === 'forward') {
+        const message = paused.get(id);
+        try {
+          edit.headers = JSON.parse(document.getElementById('interceptHeaders').value);
+        } catch (e) {
+          document.getElementById('interceptMessage').textContent = 'Headers are not valid JSON: ' + e.message;
+          return;
+        }
+        if (!message.bodyBinary) edit.body = document.getElementById('interceptBody').value;
+        if (message.stage === 'request') {
+          edit.method = document.getElementById('interceptMethod').value;
+          edit.url = document.getElementById('interceptUrl').value;
+        } else {
+          edit.statusCode = Number(document.getElementById('interceptStatus').value);
+        }
+      }
+      const res = await fetch('/api/paused/' + encodeURIComponent(id), {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(edit)
+      });
+      if (!res.ok) {
+        const data = await res.json();
+        document.getElementById('interceptMessage').textContent = data.error;
+      }
+    }
+
+    function filterParams() {
+      const params = new URLSearchParams({
+        search: document.getElementById('searchFilter').value,
+        method: document.getElementById('methodFilter').value,
+        watched: document.getElementById('watchedFilter').value,
+      });
+      if (viewSession !== null) params.set('session', viewSession);
+      return params;
+    }
+
+    function matchesFilters(r) {
       const search = document.getElementById('searchFilter').value.toLowerCase();
       const method = document.getElementById('methodFilter').value;
       const watched = document.getElementById('watchedFilter').value;
-      
-      let filtered = requests.filter(r => {
-        if (search && !r.host.toLowerCase().includes(search) && !r.path.toLowerCase().includes(search)) return false;
-        if (method && r.method !== method) return false;
-        if (watched === 'watched' && !r.watched) return false;
-        if (watched === 'other' && r.watched) return false;
-        return true;
-      });
+      if (search && !r.host.toLowerCase().includes(search) && !r.path.toLowerCase().includes(search)) return false;
+      if (method && r.method !== method) return false;
+      if (watched === 'watched' && !r.watched) return false;
+      if (watched === 'other' && r.watched) return false;
+      return true;
+    }
+
+    // Filtering and paging happen server-side so archives larger than
+    // the browser's page can be browsed
+    async function loadPage(offset) {
+      const params = filterParams();
+      params.set('offset', Math.max(0, offset));
+      params.set('limit', PAGE_SIZE);
+      const res = await fetch('/api/requests?' + params.toString());
+      const data = await res.json();
+      requests = data.entries.reverse();
+      page = { offset: data.offset, total: data.total };
+      counts = data.counts;
+      renderRequests();
+    }
+
+    function exportHar() {
+      window.location.href = '/api/export.har?' + filterParams().toString();
+    }
+
+    function renderPager() {
+      const pager = document.getElementById('pager');
+      pager.style.display = page.total > PAGE_SIZE ? '' : 'none';
+      const last = Math.min(page.offset + requests.length, page.total);
+      document.getElementById('pagerText').textContent =
+        'Showing ' + (requests.length ? page.offset + 1 : 0) + '–' + last + ' of ' + page.total + ' (newest first)';
+      document.getElementById('pagerNewer').disabled = page.offset === 0;
+      document.getElementById('pagerOlder').disabled = last >= page.total;
+    }
+
+    function renderRequests() {
+      const container = document.getElementById('requestList');
+      const filtered = requests;
       
       // Update stats
-      document.getElementById('totalCount').textContent = requests.length;
-      document.getElementById('watchedCount').textContent = requests.filter(r => r.watched).length;
+      document.getElementById('totalCount').textContent = counts.total;
+      document.getElementById('watchedCount').textContent = counts.watched;
+      renderPager();
       
       if (filtered.length === 0) {
         container.innerHTML = \`
@@ -785,15 +2890,15 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
         return;
       }
       
-      container.innerHTML = filtered.slice(-100).reverse().map((r, i) => {
-        const statusClass = r.statusCode ? 's' + Math.floor(r.statusCode / 100) + 'xx' : '';
+      container.innerHTML = filtered.slice().reverse().map(r => {
         const time = new Date(r.timestamp).toLocaleTimeString();
         return \`
-          <div class="request-item \${r.watched ? 'watched' : ''}" onclick="showDetail(\${filtered.length - 1 - i})">
-            <span class="method \${r.method}">\${r.method}</span>
-            <span class="host">\${r.host}</span>
-            <span class="path">\${r.path}</span>
-            <span class="status \${statusClass}">\${r.statusCode || ''}</span>
+          <div class="request-item \${r.watched ? 'watched' : ''}" data-id="\${escapeHtml(r.id)}" onclick="showDetail(\${jsArg(r.id)})">
+            <span class="method \${escapeHtml(r.method)}">\${escapeHtml(r.method)}</span>
+            <span class="host">\${escapeHtml(r.host)}</span>
+            <span class="path">\${escapeHtml(r.path)}</span>
+            \${renderStatus(r)}
+            <span class="duration">\${formatDuration(r)}</span>
             <span class="time">\${time}</span>
           </div>
         \`;
@@ -804,33 +2909,166 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
       }
     }
     
-    function showDetail(index) {
-      const r = requests[index];
+    function renderStatus(r) {
+      if (r.paused) {
+        return '<span class="status paused" title="Paused at a breakpoint">⏸</span>';
+      }
+      if (r.phase === 'pending') {
+        return '<span class="status pending">…</span>';
+      }
+      if (r.phase === 'error' || r.phase === 'aborted') {
+        return \`<span class="status \${escapeHtml(r.phase)}" title="\${escapeHtml(r.error || '')}">\${escapeHtml(String(r.phase).toUpperCase())}</span>\`;
+      }
+      const statusClass = r.statusCode ? 's' + Math.floor(r.statusCode / 100) + 'xx' : '';
+      return \`<span class="status \${statusClass}">\${escapeHtml(r.statusCode || '')}</span>\`;
+    }
+
+    function formatDuration(r) {
+      if (typeof r.durationMs !== 'number') return '';
+      return r.durationMs >= 1000 ? (r.durationMs / 1000).toFixed(1) + 's' : r.durationMs + 'ms';
+    }
+
+    async function showDetail(id) {
+      let r = findRequest(id);
+      if (!r) return;
+      openDetailId = id;
+
+      // Archived requests are listed as summaries; fetch the full entry once
+      if (r.summary) {
+        const res = await fetch('/api/requests/' + encodeURIComponent(id));
+        if (!res.ok) return;
+        const full = await res.json();
+        const index = requests.findIndex(x => x.id === id);
+        if (index !== -1) requests[index] = full;
+        r = full;
+      }
+
+      let html = '';
+      if (r.llm) {
+        html += \`
+          <div class="detail-tabs">
+            <button class="detail-tab \${detailTab === 'overview' ? 'active' : ''}" onclick="switchDetailTab('overview')">Overview</button>
+            <button class="detail-tab \${detailTab === 'conversation' ? 'active' : ''}" onclick="switchDetailTab('conversation')">Conversation</button>
+          </div>
+        \`;
+      }
+
+      if (paused.has(id)) {
+        html += renderIntercept(paused.get(id));
+      }
+      html += r.llm && detailTab === 'conversation' ? renderConversation(r.llm) : renderOverview(r);
+
+      document.getElementById('detailContent').innerHTML = html;
+      document.getElementById('detailPanel').classList.add('open');
+    }
+
+    function switchDetailTab(tab) {
+      detailTab = tab;
+      if (openDetailId) {
+        showDetail(openDetailId);
+      }
+    }
+
+    function renderOverview(r) {
       const time = new Date(r.timestamp).toLocaleString();
 
       let html = \`
         <div class="detail-section">
-          <h3>Request Overview</h3>
+          <h3>Request Overview
+            \${mocksState.enabled && r.statusCode ? \`<button class="copy-btn" onclick="mockEntry(\${jsArg(r.id)})" title="Answer matching requests with this response from now on">Mock this response</button>\` : ''}
+            \${replayEnabled && r.method !== 'CONNECT' ? \`
+              <button class="copy-btn" onclick="replayEntry(\${jsArg(r.id)})" title="Send this request again and compare the responses">Replay</button>
+              <button class="copy-btn" onclick="editReplay(\${jsArg(r.id)})">Edit &amp; Replay</button>
+            \` : ''}
+            \${r.method !== 'CONNECT' ? renderCopyMenu(r) : ''}
+          </h3>
+          <div class="detail-info">
+            <span class="detail-label">Method:</span>
+            <span class="detail-value" style="color: \${getMethodColor(r.method)}; font-weight: bold;">\${escapeHtml(r.method)}</span>
+          </div>
+          <div class="detail-info">
+            <span class="detail-label">Host:</span>
+            <span class="detail-value">\${escapeHtml(r.host)}</span>
+          </div>
+          <div class="detail-info">
+            <span class="detail-label">Path:</span>
+            <span class="detail-value">\${escapeHtml(r.path)}</span>
+          </div>
+          \${r.httpVersion ? \`
+          <div class="detail-info">
+            <span class="detail-label">Protocol:</span>
+            <span class="detail-value">HTTP/\${escapeHtml(r.httpVersion)}\${r.upstreamHttpVersion ? ' (upstream HTTP/' + escapeHtml(r.upstreamHttpVersion) + ')' : ''}</span>
+          </div>
+          \` : ''}
+          \${r.policy ? \`
           <div class="detail-info">
-            <span class="detail-label">Method:</span>
-            <span class="detail-value" style="color: \${getMethodColor(r.method)}; font-weight: bold;">\${r.method}</span>
+            <span class="detail-label">Policy:</span>
+            <span class="detail-value">\${escapeHtml(r.policy)}</span>
           </div>
+          \` : ''}
+          \${r.sni ? \`
           <div class="detail-info">
-            <span class="detail-label">Host:</span>
-            <span class="detail-value">\${r.host}</span>
+            <span class="detail-label">SNI:</span>
+            <span class="detail-value">\${escapeHtml(r.sni)}</span>
           </div>
+          \` : ''}
+          \${r.bytesSent !== undefined ? \`
           <div class="detail-info">
-            <span class="detail-label">Path:</span>
-            <span class="detail-value">\${r.path}</span>
+            <span class="detail-label">Bytes:</span>
+            <span class="detail-value">\${formatBytes(r.bytesSent)} sent, \${formatBytes(r.bytesReceived || 0)} received</span>
           </div>
+          \` : ''}
           <div class="detail-info">
             <span class="detail-label">Timestamp:</span>
             <span class="detail-value">\${time}</span>
           </div>
+          <div class="detail-info">
+            <span class="detail-label">Phase:</span>
+            <span class="detail-value">\${escapeHtml(r.phase)}\${r.error ? ' — ' + escapeHtml(r.error) : ''}</span>
+          </div>
+          \${r.durationMs !== undefined ? \`
+          <div class="detail-info">
+            <span class="detail-label">Duration:</span>
+            <span class="detail-value">\${formatDuration(r)}\${r.ttfbMs !== undefined ? ' (first byte after ' + escapeHtml(r.ttfbMs) + 'ms)' : ''}</span>
+          </div>
+          \` : ''}
+          \${r.decodeError ? \`
+          <div class="detail-info">
+            <span class="detail-label">Decoding:</span>
+            <span class="detail-value" style="color: #f87171;">\${escapeHtml(r.decodeError)}</span>
+          </div>
+          \` : ''}
+          \${r.rules ? \`
+          <div class="detail-info">
+            <span class="detail-label">Rules:</span>
+            <span class="detail-value" style="color: #fbbf24;">\${r.rules.map(escapeHtml).join(', ')}\${r.upstreamUrl ? ' → ' + escapeHtml(r.upstreamUrl) : ''}</span>
+          </div>
+          \` : ''}
+          \${r.mock ? \`
+          <div class="detail-info">
+            <span class="detail-label">Mock:</span>
+            <span class="detail-value" style="color: #a78bfa;">Answered by \${escapeHtml(r.mock)}</span>
+          </div>
+          \` : ''}
+          \${r.replayOf ? \`
+          <div class="detail-info">
+            <span class="detail-label">Replay of:</span>
+            <span class="detail-value">
+              <a href="#" style="color: #60a5fa;" onclick="showDetail(\${jsArg(r.replayOf)}); return false;">\${escapeHtml(r.replayOf)}</a>
+              <button class="copy-btn" onclick="showCompare(\${jsArg(r.replayOf)}, \${jsArg(r.id)})">Compare</button>
+            </span>
+          </div>
+          \` : ''}
+          \${r.replayed ? \`
+          <div class="detail-info">
+            <span class="detail-label">Replay:</span>
+            <span class="detail-value" style="color: #a78bfa;">Answered from recording \${escapeHtml(r.replayed)}</span>
+          </div>
+          \` : ''}
           \${r.statusCode ? \`
           <div class="detail-info">
             <span class="detail-label">Status:</span>
-            <span class="detail-value" style="color: \${getStatusColor(r.statusCode)}; font-weight: bold;">\${r.statusCode}</span>
+            <span class="detail-value" style="color: \${getStatusColor(r.statusCode)}; font-weight: bold;">\${escapeHtml(r.statusCode)}</span>
           </div>
           \` : ''}
           <div class="detail-info">
@@ -848,8 +3086,8 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
             <div class="header-list">
               \${Object.entries(r.headers).map(([key, value]) => \`
                 <div class="header-item">
-                  <span class="header-key">\${key}</span>
-                  <span class="header-value">\${Array.isArray(value) ? value.join(', ') : value}</span>
+                  <span class="header-key">\${escapeHtml(key)}</span>
+                  <span class="header-value">\${escapeHtml(Array.isArray(value) ? value.join(', ') : value)}</span>
                 </div>
               \`).join('')}
             </div>
@@ -858,49 +3096,70 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
       }
 
       // Request Body section
+      if (r.requestBody && !r.bodyPreview) {
+        html += renderStoredBody(r, 'request', 'Request Body');
+      }
       if (r.bodyPreview) {
-        const canParse = r.bodyPreview !== '<binary>';
-        let formattedBody = r.bodyPreview;
-
-        if (canParse) {
-          try {
-            const parsed = JSON.parse(r.bodyPreview);
-            formattedBody = JSON.stringify(parsed, null, 2);
-          } catch {
-            // Not JSON, use as-is
-          }
-        }
+        html += renderBodyPreview(r, 'request', 'Request Body');
+      }
 
+      // Response headers section
+      if (r.responseHeaders && Object.keys(r.responseHeaders).length > 0) {
         html += \`
           <div class="detail-section">
-            <h3>Request Body
-              \${canParse ? '<button class="copy-btn" onclick="copyRequestBody(' + index + ')">Copy</button>' : ''}
-            </h3>
-            <pre>\${escapeHtml(formattedBody)}</pre>
+            <h3>Response Headers</h3>
+            <div class="header-list">
+              \${Object.entries(r.responseHeaders).map(([key, value]) => \`
+                <div class="header-item">
+                  <span class="header-key">\${escapeHtml(key)}</span>
+                  <span class="header-value">\${escapeHtml(Array.isArray(value) ? value.join(', ') : value)}</span>
+                </div>
+              \`).join('')}
+            </div>
           </div>
         \`;
       }
 
       // Response section
+      if (r.responseBody && !r.responsePreview) {
+        html += renderStoredBody(r, 'response', 'Response Body');
+      }
       if (r.responsePreview) {
-        const canParse = r.responsePreview !== '<binary>';
-        let formattedResponse = r.responsePreview;
+        html += renderBodyPreview(r, 'response', 'Response Body');
+      }
 
-        if (canParse) {
-          try {
-            const parsed = JSON.parse(r.responsePreview);
-            formattedResponse = JSON.stringify(parsed, null, 2);
-          } catch {
-            // Not JSON, use as-is
-          }
-        }
+      // Streamed response section
+      if (r.streamedMessage) {
+        html += renderStreamedMessage(r.streamedMessage);
+      }
+      if (r.sseEvents && r.sseEvents.length > 0) {
+        html += \`
+          <div class="detail-section">
+            <details>
+              <summary><h3 style="display: inline;">Stream Events (\${r.sseEvents.length}\${r.sseEventsTruncated ? '+, truncated' : ''})</h3></summary>
+              <div class="header-list" style="max-height: 400px;">
+                \${r.sseEvents.map(e => \`
+                  <div class="sse-event">
+                    <span class="sse-offset">+\${e.offsetMs}ms</span>
+                    <span class="sse-name">\${escapeHtml(e.event || 'message')}</span>
+                    <span class="sse-data">\${escapeHtml(e.data)}</span>
+                  </div>
+                \`).join('')}
+              </div>
+            </details>
+          </div>
+        \`;
+      }
 
+      if (r.webSocketMessages) {
         html += \`
           <div class="detail-section">
-            <h3>Response Body
-              \${canParse ? '<button class="copy-btn" onclick="copyResponseBody(' + index + ')">Copy</button>' : ''}
-            </h3>
-            <pre>\${escapeHtml(formattedResponse)}</pre>
+            <details open>
+              <summary><h3 style="display: inline;">WebSocket Messages (<span id="wsCount">\${r.webSocketMessages.length}\${r.webSocketMessagesTruncated ? '+, truncated' : ''}</span>)</h3></summary>
+              <div class="header-list" id="wsMessages" style="max-height: 400px;">
+                \${r.webSocketMessages.map(renderWebSocketMessage).join('')}
+              </div>
+            </details>
           </div>
         \`;
       }
@@ -909,14 +3168,319 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
       html += \`
         <div class="detail-section">
           <h3>Raw JSON
-            <button class="copy-btn" onclick="copyRawJson(' + index + ')">Copy</button>
+            <button class="copy-btn" onclick="copyRawJson(\${jsArg(r.id)})">Copy</button>
           </h3>
           <pre>\${escapeHtml(JSON.stringify(r, null, 2))}</pre>
         </div>
       \`;
 
-      document.getElementById('detailContent').innerHTML = html;
-      document.getElementById('detailPanel').classList.add('open');
+      return html;
+    }
+
+    function renderWebSocketMessage(m) {
+      let type = m.type;
+      if (m.closeCode !== undefined) type += ' ' + m.closeCode;
+      if (m.compressed) type += ' (deflate)';
+      const data = m.type === 'binary' ? m.size + ' bytes: ' + m.data : m.data;
+      return \`
+        <div class="ws-message">
+          <span class="sse-offset">+\${m.offsetMs}ms</span>
+          <span class="ws-from-\${m.from}" title="\${m.from === 'client' ? 'Sent by the client' : 'Sent by the server'}">\${m.from === 'client' ? '↑' : '↓'}</span>
+          <span class="ws-type">\${escapeHtml(type)}</span>
+          <span class="sse-data">\${escapeHtml(data)}\${m.truncated ? ' …' : ''}</span>
+        </div>
+      \`;
+    }
+
+    function renderConversation(llm) {
+      const req = llm.request || { messages: [], tools: [] };
+      const res = llm.response;
+      const info = (label, value) => value === undefined || value === null || value === '' ? '' : \`
+        <div class="detail-info">
+          <span class="detail-label">\${label}:</span>
+          <span class="detail-value">\${escapeHtml(String(value))}</span>
+        </div>
+      \`;
+      const usage = res && res.usage
+        ? \`\${res.usage.inputTokens} in · \${res.usage.outputTokens} out · \${res.usage.cacheReadTokens} cache read · \${res.usage.cacheWriteTokens} cache write\`
+        : undefined;
+
+      let html = \`
+        <div class="detail-section">
+          <h3>LLM Call</h3>
+          \${info('Provider', llm.provider)}
+          \${info('API', llm.api)}
+          \${info('Model', (res && res.model) || req.model)}
+          \${info('Temperature', req.temperature)}
+          \${info('Max tokens', req.maxTokens)}
+          \${info('Streaming', req.stream ? 'yes' : 'no')}
+          \${info('Stop reason', res && res.stopReason)}
+          \${info('Usage', usage)}
+          \${info('Cost', llm.costUsd !== undefined ? formatCost(llm.costUsd) : undefined)}
+        </div>
+      \`;
+
+      if (req.system) {
+        html += \`
+          <div class="detail-section">
+            <details>
+              <summary><h3 style="display: inline;">System Prompt (\${req.system.length.toLocaleString()} chars)</h3></summary>
+              <pre>\${escapeHtml(req.system)}</pre>
+            </details>
+          </div>
+        \`;
+      }
+
+      if (req.tools && req.tools.length > 0) {
+        html += \`
+          <div class="detail-section">
+            <details>
+              <summary><h3 style="display: inline;">Tools (\${req.tools.length})</h3></summary>
+              <div class="header-list tool-list">
+                \${req.tools.map(t => \`
+                  <div><span class="tool-name">\${escapeHtml(t.name)}</span>
+                  \${t.description ? '<span class="tool-desc"> — ' + escapeHtml(t.description.split('\\n')[0]) + '</span>' : ''}</div>
+                \`).join('')}
+              </div>
+            </details>
+          </div>
+        \`;
+      }
+
+      html += \`
+        <div class="detail-section">
+          <h3>Messages (\${req.messages.length})</h3>
+          <div class="conversation">
+            \${req.messages.map(m => renderLlmMessage(m, '')).join('')}
+            \${res && res.message ? renderLlmMessage(res.message, 'response') : ''}
+            \${res && res.error ? '<div class="message-error">Error: ' + escapeHtml(res.error) + '</div>' : ''}
+            \${!res ? '<div class="message-placeholder">Waiting for response…</div>' : ''}
+          </div>
+        </div>
+      \`;
+
+      return html;
+    }
+
+    function renderLlmMessage(m, extraClass) {
+      const role = escapeHtml(m.role || 'unknown');
+      return \`
+        <div class="message-bubble role-\${role} \${extraClass}">
+          <div class="message-role role-\${role}">\${role}\${extraClass === 'response' ? ' · response' : ''}</div>
+          \${m.content.map(renderLlmPart).join('') || '<div class="message-placeholder">(empty)</div>'}
+        </div>
+      \`;
+    }
+
+    function renderLlmPart(part) {
+      switch (part.type) {
+        case 'text':
+          return \`<div class="message-block message-text">\${escapeHtml(part.text || '')}</div>\`;
+        case 'thinking':
+          return \`
+            <details class="message-block thinking">
+              <summary>Thinking</summary>
+              <div class="message-text">\${escapeHtml(part.text || '')}</div>
+            </details>
+          \`;
+        case 'tool_use': {
+          let input = part.input || '';
+          try {
+            input = JSON.stringify(JSON.parse(input), null, 2);
+          } catch {
+            // Partial or invalid JSON, show as-is
+          }
+          return \`
+            <div class="message-block tool-use">
+              <div class="message-role">Tool call: \${escapeHtml(part.name || '?')}</div>
+              <pre>\${escapeHtml(input)}</pre>
+            </div>
+          \`;
+        }
+        case 'tool_result':
+          return \`
+            <details class="message-block tool-result \${part.isError ? 'is-error' : ''}">
+              <summary>Tool result\${part.id ? ' (' + escapeHtml(part.id) + ')' : ''}\${part.isError ? ' — error' : ''}</summary>
+              <pre>\${escapeHtml(part.text || '')}</pre>
+            </details>
+          \`;
+        case 'image':
+          return \`<div class="message-block message-placeholder">[\${escapeHtml(part.name || 'image')}\${part.text ? ': ' + escapeHtml(part.text) : ''}]</div>\`;
+        default:
+          return \`<div class="message-block message-placeholder">[\${escapeHtml(part.name || 'content')}]</div>\`;
+      }
+    }
+
+    function bodyInfo(r, part) {
+      return part === 'request'
+        ? { preview: r.bodyPreview, binary: r.bodyBinary, encoding: r.bodyEncoding, ref: r.requestBody }
+        : { preview: r.responsePreview, binary: r.responseBinary, encoding: r.responseEncoding, ref: r.responseBody };
+    }
+
+    function renderBodyPreview(r, part, title) {
+      const body = bodyInfo(r, part);
+      let formatted = body.preview;
+      if (body.binary) {
+        formatted = hexDump(base64ToBytes(body.preview));
+      } else {
+        try {
+          formatted = JSON.stringify(JSON.parse(body.preview), null, 2);
+        } catch {
+          // Not JSON, use as-is
+        }
+      }
+
+      const copy = part === 'request' ? 'copyRequestBody' : 'copyResponseBody';
+      return \`
+        <div class="detail-section">
+          <h3>\${title}
+            \${body.encoding ? '<span style="color: #888; font-size: 12px; font-weight: normal;">decoded from ' + escapeHtml(body.encoding) + '</span>' : ''}
+            \${body.binary ? \`
+              <button class="copy-btn" onclick="showBinaryAs(\${jsArg(r.id)}, '\${part}', 'hex')">Hex</button>
+              <button class="copy-btn" onclick="showBinaryAs(\${jsArg(r.id)}, '\${part}', 'base64')">Base64</button>
+            \` : \`<button class="copy-btn" onclick="\${copy}(\${jsArg(r.id)})">Copy</button>\`}
+            \${storedBodyButtons(r, part)}
+          </h3>
+          <pre id="body-\${part}">\${escapeHtml(formatted)}</pre>
+        </div>
+      \`;
+    }
+
+    // Binary previews arrive as base64 of the first bytes
+    function showBinaryAs(id, part, mode) {
+      const r = findRequest(id);
+      const pre = document.getElementById('body-' + part);
+      if (!r || !pre) return;
+      const preview = bodyInfo(r, part).preview || '';
+      pre.textContent = mode === 'hex' ? hexDump(base64ToBytes(preview)) : preview;
+    }
+
+    function base64ToBytes(b64) {
+      const raw = atob(b64 || '');
+      const bytes = new Uint8Array(raw.length);
+      for (let i = 0; i < raw.length; i++) {
+        bytes[i] = raw.charCodeAt(i);
+      }
+      return bytes;
+    }
+
+    function hexDump(bytes) {
+      const lines = [];
+      for (let offset = 0; offset < bytes.length; offset += 16) {
+        const row = bytes.subarray(offset, offset + 16);
+        const hex = Array.from(row, b => b.toString(16).padStart(2, '0')).join(' ');
+        const ascii = Array.from(row, b => b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.').join('');
+        lines.push(offset.toString(16).padStart(8, '0') + '  ' + hex.padEnd(48) + '  ' + ascii);
+      }
+      return lines.join('\\n');
+    }
+
+    function bodyUrl(r, part) {
+      return '/api/requests/' + encodeURIComponent(r.id) + '/body?part=' + part;
+    }
+
+    function storedBodyButtons(r, part) {
+      const ref = part === 'request' ? r.requestBody : r.responseBody;
+      if (!ref) return '';
+      return \`
+        <button class="copy-btn" onclick="loadFullBody(\${jsArg(r.id)}, '\${part}')">Full body (\${formatBytes(ref.size)})</button>
+        <a class="copy-btn" style="text-decoration: none;" href="\${bodyUrl(r, part)}&download=1">Download</a>
+      \`;
+    }
+
+    function renderStoredBody(r, part, title) {
+      return \`
+        <div class="detail-section">
+          <h3>\${title}\${storedBodyButtons(r, part)}</h3>
+          <pre id="body-\${part}" style="color: #666;">Not previewed — load the full body to view it.</pre>
+        </div>
+      \`;
+    }
+
+    const MAX_HEX_BYTES = 256 * 1024;
+
+    async function loadFullBody(id, part) {
+      const r = findRequest(id);
+      const pre = document.getElementById('body-' + part);
+      if (!r || !pre) return;
+
+      pre.textContent = 'Loading…';
+      const res = await fetch(bodyUrl(r, part));
+      if (!res.ok) {
+        pre.textContent = (await res.json()).error;
+        return;
+      }
+
+      pre.style.color = '';
+      if (bodyInfo(r, part).binary) {
+        // Hex of a whole large file would freeze the page
+        const bytes = new Uint8Array(await res.arrayBuffer());
+        const shown = bytes.subarray(0, MAX_HEX_BYTES);
+        pre.textContent = hexDump(shown) + (bytes.length > shown.length ? '\\n… ' + formatBytes(bytes.length - shown.length) + ' more, download to see all' : '');
+        return;
+      }
+
+      let text = await res.text();
+      try {
+        text = JSON.stringify(JSON.parse(text), null, 2);
+      } catch {
+        // Not JSON, show as-is
+      }
+      pre.textContent = text;
+    }
+
+    function formatBytes(n) {
+      n = Number(n) || 0;
+      if (n >= 1048576) return (n / 1048576).toFixed(1) + ' MB';
+      if (n >= 1024) return (n / 1024).toFixed(1) + ' KB';
+      return n + ' B';
+    }
+
+    function renderStreamedMessage(m) {
+      const blocks = m.blocks.map(b => {
+        if (b.type === 'thinking') {
+          return \`
+            <details class="message-block thinking">
+              <summary>Thinking</summary>
+              <div class="message-text">\${escapeHtml(b.text || '')}</div>
+            </details>
+          \`;
+        }
+        if (b.type === 'tool_use') {
+          let input = b.input || '';
+          try {
+            input = JSON.stringify(JSON.parse(input), null, 2);
+          } catch {
+            // Partial or invalid JSON, show as streamed
+          }
+          return \`
+            <div class="message-block tool-use">
+              <div class="message-role">Tool call: \${escapeHtml(b.name || '?')}\${b.id ? ' <span style="color: #666;">(' + escapeHtml(b.id) + ')</span>' : ''}</div>
+              <pre>\${escapeHtml(input)}</pre>
+            </div>
+          \`;
+        }
+        return \`<div class="message-block message-text">\${escapeHtml(b.text || '')}</div>\`;
+      }).join('');
+
+      const usage = m.usage
+        ? Object.entries(m.usage).map(([k, v]) => escapeHtml(k) + ': ' + escapeHtml(v)).join(' · ')
+        : '';
+
+      return \`
+        <div class="detail-section">
+          <h3>Streamed Response</h3>
+          <div class="message-bubble">
+            <div class="message-role">Assistant\${m.model ? ' · ' + escapeHtml(m.model) : ''}</div>
+            \${blocks || '<div class="message-text" style="color: #666;">(no content)</div>'}
+            \${m.error ? '<div class="message-error">Error: ' + escapeHtml(m.error) + '</div>' : ''}
+            <div class="message-meta">
+              \${m.stopReason ? 'Stop reason: ' + escapeHtml(m.stopReason) : ''}
+              \${usage ? '<br>Usage: ' + usage : ''}
+            </div>
+          </div>
+        </div>
+      \`;
     }
 
     function getMethodColor(method) {
@@ -938,16 +3502,19 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
       return '#888';
     }
 
+    // Quotes too, as some values go into attributes
     function escapeHtml(text) {
-      const div = document.createElement('div');
-      div.textContent = text;
-      return div.innerHTML;
+      return String(text ?? '').replace(/[&<>"']/g, (c) => '&#' + c.charCodeAt(0) + ';');
+    }
+
+    // An argument for an inline handler: a script string, escaped for the attribute
+    function jsArg(value) {
+      return escapeHtml(JSON.stringify(String(value ?? '')));
     }
 
-    function copyToClipboard(text) {
+    function copyToClipboard(text, btn = event.target) {
       navigator.clipboard.writeText(text).then(() => {
         // Show brief success indicator
-        const btn = event.target;
         const originalText = btn.textContent;
         btn.textContent = 'Copied!';
         btn.style.background = '#1a4d2e';
@@ -960,37 +3527,213 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
       });
     }
 
-    function copyRequestBody(index) {
-      const r = requests[index];
-      if (r.bodyPreview) {
+    function copyRequestBody(id) {
+      const r = findRequest(id);
+      if (r && r.bodyPreview) {
         copyToClipboard(r.bodyPreview);
       }
     }
 
-    function copyResponseBody(index) {
-      const r = requests[index];
-      if (r.responsePreview) {
+    function copyResponseBody(id) {
+      const r = findRequest(id);
+      if (r && r.responsePreview) {
         copyToClipboard(r.responsePreview);
       }
     }
 
-    function copyRawJson(index) {
-      const r = requests[index];
-      copyToClipboard(JSON.stringify(r, null, 2));
+    function copyRawJson(id) {
+      const r = findRequest(id);
+      if (r) {
+        copyToClipboard(JSON.stringify(r, null, 2));
+      }
     }
     
+    function renderCopyMenu(r) {
+      const formats = [['curl', 'curl'], ['fetch', 'Node fetch'], ['python', 'Python requests']];
+      if (r.llm) {
+        formats.push(['sdk-python', 'Python SDK'], ['sdk-typescript', 'TypeScript SDK']);
+      }
+      return \`
+        <details class="copy-menu">
+          <summary class="copy-btn">Copy as…</summary>
+          <div class="copy-menu-items">
+            \${formats.map(([format, label]) => \`<button class="copy-btn" onclick="copySnippet(\${jsArg(r.id)}, '\${format}', this)">\${label}</button>\`).join('')}
+            <label><input type="checkbox" \${redactSnippets ? 'checked' : ''} onchange="redactSnippets = this.checked"> Redact API key</label>
+          </div>
+        </details>
+      \`;
+    }
+
+    async function copySnippet(id, format, btn) {
+      const params = new URLSearchParams({ format, redact: redactSnippets ? '1' : '0' });
+      const res = await fetch('/api/requests/' + encodeURIComponent(id) + '/snippet?' + params.toString());
+      if (!res.ok) {
+        alert('Copy failed: ' + (await res.json()).error);
+        return;
+      }
+      copyToClipboard(await res.text(), btn);
+      const warning = res.headers.get('X-Snippet-Warning');
+      if (warning) {
+        alert(warning);
+      }
+    }
+
+    async function replayEntry(id, edit) {
+      const res = await fetch('/api/requests/' + encodeURIComponent(id) + '/replay', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(edit || {})
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        alert('Replay failed: ' + data.error);
+        return;
+      }
+      await showCompare(id, data.entry.id);
+    }
+
+    async function editReplay(id) {
+      const res = await fetch('/api/requests/' + encodeURIComponent(id) + '/replay');
+      if (!res.ok) return;
+      const draft = await res.json();
+      openDetailId = null;
+      document.getElementById('detailContent').innerHTML = \`
+        <div class="detail-section intercept-editor">
+          <h3>Edit &amp; Replay
+            <button class="copy-btn" onclick="sendEditedReplay(\${jsArg(id)}, \${!!draft.bodyBinary})">Send</button>
+            <button class="copy-btn" onclick="showDetail(\${jsArg(id)})">Cancel</button>
+          </h3>
+          \${draft.truncated ? '<div style="font-size: 0.8rem; color: #fbbf24; margin-bottom: 8px;">Only a preview of the body was captured; complete it before sending.</div>' : ''}
+          <div style="display: flex;">
+            <input type="text" id="replayMethod" value="\${escapeHtml(draft.method)}" style="width: 100px; margin-right: 6px;">
+            <input type="text" id="replayUrl" value="\${escapeHtml(draft.url)}">
+          </div>
+          <label style="font-size: 0.8rem; color: #888;">Headers</label>
+          <textarea id="replayHeaders" spellcheck="false">\${escapeHtml(JSON.stringify(draft.headers, null, 2))}</textarea>
+          <label style="font-size: 0.8rem; color: #888;">Body\${draft.bodyBinary ? ' (binary, shown as base64 and not editable)' : ''}</label>
+          <textarea id="replayBody" spellcheck="false" \${draft.bodyBinary ? 'readonly' : ''}>\${escapeHtml(draft.body)}</textarea>
+          <div id="replayMessage" style="font-size: 0.8rem; color: #f87171;"></div>
+        </div>
+      \`;
+    }
+
+    async function sendEditedReplay(id, bodyBinary) {
+      const edit = {
+        method: document.getElementById('replayMethod').value,
+        url: document.getElementById('replayUrl').value
+      };
+      try {
+        edit.headers = JSON.parse(document.getElementById('replayHeaders').value);
+      } catch (e) {
+        document.getElementById('replayMessage').textContent = 'Headers are not valid JSON: ' + e.message;
+        return;
+      }
+      if (!bodyBinary) edit.body = document.getElementById('replayBody').value;
+      document.getElementById('replayMessage').textContent = '';
+      await replayEntry(id, edit);
+    }
+
+    // Line diff by longest common subsequence. Very long bodies are paired
+    // line by line instead, which keeps the table to linear size.
+    function diffLines(a, b) {
+      const rows = [];
+      if (a.length * b.length > 4000000) {
+        for (let i = 0; i < Math.max(a.length, b.length); i++) {
+          rows.push({ left: a[i], right: b[i], same: a[i] === b[i] });
+        }
+        return rows;
+      }
+      const lcs = Array.from({ length: a.length + 1 }, () => new Uint32Array(b.length + 1));
+      for (let i = a.length - 1; i >= 0; i--) {
+        for (let j = b.length - 1; j >= 0; j--) {
+          lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+      }
+      let i = 0, j = 0;
+      while (i < a.length || j < b.length) {
+        if (i < a.length && j < b.length && a[i] === b[j]) {
+          rows.push({ left: a[i++], right: b[j++], same: true });
+        } else if (j >= b.length || (i < a.length && lcs[i + 1][j] >= lcs[i][j + 1])) {
+          rows.push({ left: a[i++], same: false });
+        } else {
+          rows.push({ right: b[j++], same: false });
+        }
+      }
+      return rows;
+    }
+
+    function renderDiff(leftLines, rightLines) {
+      const cell = (text, kind) => text === undefined
+        ? '<td class="empty"></td>'
+        : '<td class="' + kind + '">' + escapeHtml(text) + '</td>';
+      const rows = diffLines(leftLines, rightLines).map(row =>
+        '<tr>' + cell(row.left, row.same ? '' : 'removed') + cell(row.right, row.same ? '' : 'added') + '</tr>'
+      ).join('');
+      return '<table class="diff-table"><tr><th>Original</th><th>Replay</th></tr>' + rows + '</table>';
+    }
+
+    async function showCompare(leftId, rightId) {
+      const res = await fetch('/api/requests/' + encodeURIComponent(leftId) + '/compare?with=' + encodeURIComponent(rightId));
+      if (!res.ok) {
+        alert('Could not compare: ' + (await res.json()).error);
+        return;
+      }
+      const { left, right } = await res.json();
+      const truncated = left.truncated || right.truncated
+        ? '<div style="font-size: 0.8rem; color: #fbbf24; margin-bottom: 8px;">Only a preview of a body was captured; start with --store-bodies to compare them in full.</div>'
+        : '';
+      openDetailId = null;
+      document.getElementById('detailContent').innerHTML = \`
+        <div class="detail-section">
+          <h3>Response Diff
+            <button class="copy-btn" onclick="showDetail(\${jsArg(leftId)})">Original</button>
+            <button class="copy-btn" onclick="showDetail(\${jsArg(rightId)})">Replay</button>
+          </h3>
+          <div class="detail-info">
+            <span class="detail-label">Status:</span>
+            <span class="detail-value">\${escapeHtml(left.statusCode ?? '—')} → <span style="color: \${left.statusCode === right.statusCode ? '#eee' : '#fbbf24'};">\${escapeHtml(right.statusCode ?? '—')}</span></span>
+          </div>
+        </div>
+        <div class="detail-section">
+          <h3>Headers</h3>
+          \${renderDiff(left.headers, right.headers)}
+        </div>
+        <div class="detail-section">
+          <h3>Body</h3>
+          \${truncated}
+          \${renderDiff(left.body.split('\\n'), right.body.split('\\n'))}
+        </div>
+      \`;
+      document.getElementById('detailPanel').classList.add('open');
+    }
+
     function closeDetail() {
+      openDetailId = null;
       document.getElementById('detailPanel').classList.remove('open');
     }
     
     // Filter listeners
     ['searchFilter', 'methodFilter', 'watchedFilter'].forEach(id => {
-      document.getElementById(id).addEventListener('input', renderRequests);
-      document.getElementById(id).addEventListener('change', renderRequests);
+      document.getElementById(id).addEventListener('input', () => loadPage(0));
+      document.getElementById(id).addEventListener('change', () => loadPage(0));
     });
 
     // Launch app functions
-    async function launchApp(command) {
+    async function loadLaunchProfiles() {
+      const res = await fetch('/api/launch/profiles');
+      const { profiles } = await res.json();
+      const list = document.getElementById('launchProfiles');
+      list.innerHTML = profiles.length > 0
+        ? profiles.map((profile, i) => \`<button class="btn btn-secondary" style="width: 100%;" title="\${escapeHtml(profile.command)}" onclick="launchProfile(\${i})">\${escapeHtml(profile.name)}</button>\`).join('')
+        : '<div style="font-size: 0.8rem; color: #888;">No launch profiles configured</div>';
+      launchProfiles = profiles;
+    }
+
+    function launchProfile(index) {
+      launchApp(launchProfiles[index].name);
+    }
+
+    async function launchApp(profile) {
       const statusEl = document.getElementById('launchStatus');
       statusEl.style.display = 'block';
       statusEl.style.background = '#0f3460';
@@ -1001,7 +3744,7 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
         const response = await fetch('/api/launch', {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ command })
+          body: JSON.stringify({ profile })
         });
 
         const result = await response.json();
@@ -1026,31 +3769,6 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
       }, 5000);
     }
 
-    function launchCustomCommand() {
-      const input = document.getElementById('customCommand');
-      const command = input.value.trim();
-
-      if (!command) {
-        const statusEl = document.getElementById('launchStatus');
-        statusEl.style.display = 'block';
-        statusEl.style.background = '#4d1a1a';
-        statusEl.style.color = '#f87171';
-        statusEl.textContent = '✗ Please enter a command';
-        setTimeout(() => { statusEl.style.display = 'none'; }, 3000);
-        return;
-      }
-
-      launchApp(command);
-      input.value = '';
-    }
-
-    // Enter key for custom command
-    document.getElementById('customCommand').addEventListener('keypress', (e) => {
-      if (e.key === 'Enter') {
-        launchCustomCommand();
-      }
-    });
-
     init();
   </script>
 </body>
@@ -1060,9 +3778,73 @@ export HTTPS_PROXY=http://127.0.0.1:8080</pre>
     res.end(html);
   }
 
+  /**
+   * A page to download the CA from, e.g. on a phone, with the steps to
+   * trust it on each platform.
+   */
+  private serveCAPage(res: http.ServerResponse): void {
+    let content: string;
+    if (!this.certificates) {
+      content = '<p>There is no CA while the proxy isn\'t running.</p>';
+    } else {
+      const info = this.certificates.getCAInfo();
+      const downloads = (Object.keys(CA_EXPORTS) as CAExportFormat[]).map(format =>
+        `<a class="button" href="/api/ca/download?format=${format}">roo-sniffer-ca.${CA_EXPORTS[format].extension}</a>`
+      ).join(' ');
+      const steps = trustSteps(this.certificates.getCACertPath()).map(step => `
+        <h3>${escapeHtml(step.title)}</h3>
+        <pre>${step.commands.map(escapeHtml).join('\n')}</pre>
+        ${step.note ? `<p class="note">${escapeHtml(step.note)}</p>` : ''}`
+      ).join('');
+      content = `
+        <p>Intercepted HTTPS hosts get certificates signed by this CA. Trust it where your apps run.</p>
+        <p>${downloads}</p>
+        <table>
+          <tr><th>Subject</th><td>${escapeHtml(info.subject)}</td></tr>
+          <tr><th>SHA-256</th><td><code>${info.fingerprint256}</code></td></tr>
+          <tr><th>SHA-1</th><td><code>${info.fingerprint}</code></td></tr>
+          <tr><th>Valid</th><td>${info.validFrom} to ${info.validTo}</td></tr>
+          <tr><th>File</th><td><code>${escapeHtml(info.path)}</code></td></tr>
+        </table>
+        <p class="note">Use PEM for most systems, the <code>.cer</code> (DER) file for Android, iOS and Windows, and PKCS#12 where only <code>.p12</code> files can be imported.</p>
+        <h2>Trusting the CA</h2>
+        ${steps}`;
+    }
+
+    const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Roo Sniffer CA Certificate</title>
+  <style>
+    body { font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; background: #1a1a2e; color: #eee; max-width: 900px; margin: 0 auto; padding: 30px; line-height: 1.6; }
+    h1 { color: #e94560; margin-bottom: 10px; }
+    h2 { margin: 30px 0 10px; }
+    h3 { font-size: 0.95rem; margin: 20px 0 6px; color: #aaa; }
+    a { color: #60a5fa; }
+    .button { display: inline-block; background: #e94560; color: white; padding: 8px 14px; border-radius: 4px; text-decoration: none; margin: 4px 4px 4px 0; }
+    table { border-collapse: collapse; margin: 15px 0; font-size: 0.85rem; }
+    th { text-align: left; color: #888; padding: 4px 15px 4px 0; vertical-align: top; }
+    code, pre { font-family: monospace; word-break: break-all; }
+    pre { background: #0f3460; padding: 10px; border-radius: 4px; white-space: pre-wrap; font-size: 0.8rem; }
+    .note { color: #888; font-size: 0.85rem; }
+  </style>
+</head>
+<body>
+  <p><a href="/">← Request Monitor</a></p>
+  <h1>🔍 CA Certificate</h1>
+  ${content}
+</body>
+</html>`;
+
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(html);
+  }
+
   public start(): void {
-    this.server.listen(this.uiPort, () => {
-      console.log(`🌐 Web UI available at http://localhost:${this.uiPort}`);
+    this.server.listen(this.uiPort, this.config.uiHost, () => {
+      console.log(`🌐 Web UI available at ${webUIUrl(this.config, this.uiPort)}`);
     });
   }
 